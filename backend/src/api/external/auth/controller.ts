@@ -0,0 +1,105 @@
+/**
+ * @summary
+ * API controller for authentication.
+ * Handles login, token refresh and logout; these endpoints are public by design.
+ *
+ * @module api/external/auth/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { authLogin, authLogout, authRefresh } from '@/services/auth';
+
+/**
+ * @api {post} /api/external/auth/login Login
+ * @apiName Login
+ * @apiGroup Auth
+ *
+ * @apiBody {String} email Account email
+ * @apiBody {String} password Account password
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data.user Authenticated user ({ id, name, email, role })
+ * @apiSuccess {String} data.accessToken JWT to send as `Authorization: Bearer <token>`
+ * @apiSuccess {String} data.refreshToken Single-use token for /auth/refresh
+ * @apiSuccess {String} data.tokenType Token type (always Bearer)
+ * @apiSuccess {Number} data.expiresIn Access token lifetime in seconds
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | INVALID_CREDENTIALS)
+ * @apiError {String} error.message Error message
+ */
+export async function loginHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await authLogin(req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/auth/refresh Refresh Session
+ * @apiName RefreshSession
+ * @apiGroup Auth
+ *
+ * @apiBody {String} refreshToken Refresh token from login or a previous refresh
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data New session (same shape as login)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | INVALID_TOKEN)
+ * @apiError {String} error.message Error message
+ */
+export async function refreshHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await authRefresh(req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/external/auth/logout Logout
+ * @apiName Logout
+ * @apiGroup Auth
+ *
+ * @apiBody {String} refreshToken Refresh token to revoke
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function logoutHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await authLogout(req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * @summary
+ * API controller for the public catalog.
+ * Read-only endpoints for anonymous storefront visitors.
+ *
+ * @module api/external/catalog/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError, setCacheValidators } from '@/utils';
+import { catalogCategories, catalogFacets, catalogGet, catalogList } from '@/services/catalog';
+
+/**
+ * @api {get} /api/external/catalog List Catalog Products
+ * @apiName ListCatalogProducts
+ * @apiGroup Catalog
+ * @apiPermission none
+ *
+ * @apiDescription Accepts the same query parameters as `GET /api/internal/product`
+ * (q, category, sort, page, pageSize, minPrice, maxPrice, includeOnRequest, maxWidth,
+ * maxDepth, maxHeight, available, featured, onSale, isNew). Unavailable products are listed too, flagged by `available`.
+ * Responses carry ETag and Last-Modified; a conditional GET (If-None-Match / If-Modified-Since)
+ * for an unchanged listing is answered with 304 Not Modified.
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Public product data ({ id, name, mainImage, mainImageVariants, price, originalPrice, discountPercent, category, categoryName, measurements, featured, isNew, onSale, available, highlights? })
+ * @apiSuccess {Object} data.facets Facet counts (same shape as the internal listing)
+ * @apiSuccess {Object} data.pagination Pagination metadata
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { data, ...validators } = await catalogList(req.query);
+    setCacheValidators(res, validators);
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/catalog/categories List Catalog Categories
+ * @apiName ListCatalogCategories
+ * @apiGroup Catalog
+ * @apiPermission none
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data Root categories ({ id, slug, name, parentId, order, image, productCount, children })
+ * @apiSuccess {Number} data.productCount Products in the category and its subcategories
+ * @apiSuccess {Object[]} data.children Subcategories (same shape)
+ */
+export async function categoriesHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await catalogCategories();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/catalog/facets Get Catalog Facets
+ * @apiName GetCatalogFacets
+ * @apiGroup Catalog
+ * @apiPermission none
+ *
+ * @apiDescription Facet counts for a filter set, without products. Accepts the listing
+ * filters; pagination parameters are ignored.
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Facet counts (categories, available, featured, onSale, isNew, price)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function facetsHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await catalogFacets(req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/external/catalog/:id Get Catalog Product
+ * @apiName GetCatalogProduct
+ * @apiGroup Catalog
+ * @apiPermission none
+ *
+ * @apiDescription Responses carry ETag and Last-Modified; a conditional GET for an unchanged
+ * product is answered with 304 Not Modified.
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Public product data ({ id, name, description, mainImage, images, price, originalPrice, discountPercent, category, categoryPath, shortDescription, dimensions, measurements, featured, isNew, onSale, saleEndsAt, available, options, variants, dateCreated })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { data, ...validators } = await catalogGet(req.params);
+    setCacheValidators(res, validators);
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * @summary
+ * API controller for the audit log.
+ * Lists recorded mutations with their field-level changes.
+ *
+ * @module api/internal/audit/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { auditList } from '@/services/audit';
+
+/**
+ * @api {get} /api/internal/audit List Audit Entries
+ * @apiName ListAuditEntries
+ * @apiGroup Audit
+ * @apiPermission admin, editor
+ *
+ * @apiQuery {String} [entity] Filter by entity (product | init-example)
+ * @apiQuery {Number} [entityId] Filter by entity ID
+ * @apiQuery {String} [action] Filter by action (create | update | delete | restore | purge)
+ * @apiQuery {Number} [userId] Filter by the user who made the change
+ * @apiQuery {String} [field] Only entries that changed this field (e.g. featured)
+ * @apiQuery {String} [from] ISO 8601 timestamp; entries recorded at or after it
+ * @apiQuery {String} [to] ISO 8601 timestamp; entries recorded at or before it
+ * @apiQuery {Number} [page=1] Page number
+ * @apiQuery {Number} [pageSize=50] Items per page (max 200)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Entries, newest first
+ * @apiSuccess {Number} data.items.id Unique identifier
+ * @apiSuccess {String} data.items.entity Entity (product | init-example)
+ * @apiSuccess {Number} data.items.entityId Entity ID
+ * @apiSuccess {String} data.items.label Entity name when the entry was recorded
+ * @apiSuccess {String} data.items.action Action (create | update | delete | restore | purge)
+ * @apiSuccess {Object[]} data.items.changes Changed fields ({ field, before, after })
+ * @apiSuccess {Number|null} data.items.userId User who made the change (null for the system)
+ * @apiSuccess {String|null} data.items.userName Name of that user, if it still exists
+ * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
+ * @apiSuccess {Object} data.pagination Pagination ({ page, pageSize, total, totalPages, hasNext, hasPrevious })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await auditList(req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * @summary
+ * API controller for the current session.
+ *
+ * @module api/internal/auth/controller
+ */
+
+import { Request, Response } from 'express';
+import { successResponse } from '@/utils';
+
+/**
+ * @api {get} /api/internal/auth/me Current User
+ * @apiName GetCurrentUser
+ * @apiGroup Auth
+ * @apiPermission authenticated
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.name User name
+ * @apiSuccess {String} data.email User email
+ * @apiSuccess {String} data.role User role (admin | editor | viewer)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | INVALID_TOKEN)
+ * @apiError {String} error.message Error message
+ */
+export function meHandler(req: Request, res: Response): void {
+  res.json(successResponse(req.user));
+}
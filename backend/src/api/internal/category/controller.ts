@@ -0,0 +1,181 @@
+/**
+ * @summary
+ * API controller for Category entity.
+ * Handles management of the category hierarchy.
+ *
+ * @module api/internal/category/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import {
+  categoryList,
+  categoryGet,
+  categoryCreate,
+  categoryUpdate,
+  categoryDelete,
+} from '@/services/category';
+
+/**
+ * @api {get} /api/internal/category List Categories
+ * @apiName ListCategories
+ * @apiGroup Category
+ * @apiPermission authenticated
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data Categories, depth-first (each parent followed by its children)
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.slug URL-safe identifier referenced by products
+ * @apiSuccess {String} data.name Display name
+ * @apiSuccess {Number|null} data.parentId Parent category ID (null for root categories)
+ * @apiSuccess {Number} data.order Position among siblings
+ * @apiSuccess {String|null} data.image Image URL
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await categoryList();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/category/:id Get Category
+ * @apiName GetCategory
+ * @apiGroup Category
+ * @apiPermission authenticated
+ *
+ * @apiParam {Number} id Category ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Category (same fields as the list)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await categoryGet(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/category Create Category
+ * @apiName CreateCategory
+ * @apiGroup Category
+ * @apiPermission admin, editor
+ *
+ * @apiBody {String} name Display name (1-60 chars)
+ * @apiBody {String} [slug] Lowercase words joined by hyphens (defaults to the slugified name)
+ * @apiBody {Number|null} [parentId=null] Parent category ID
+ * @apiBody {Number} [order] Position among siblings (defaults to last)
+ * @apiBody {String|null} [image=null] Image URL
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Created category
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryCreate(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/internal/category/:id Update Category
+ * @apiName UpdateCategory
+ * @apiGroup Category
+ * @apiPermission admin, editor
+ *
+ * @apiParam {Number} id Category ID
+ *
+ * @apiBody {String} name Display name (1-60 chars)
+ * @apiBody {String} slug Lowercase words joined by hyphens; products follow a slug change
+ * @apiBody {Number|null} parentId Parent category ID
+ * @apiBody {Number} order Position among siblings
+ * @apiBody {String|null} image Image URL
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated category
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function updateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryUpdate(req.params, req.body, req.user?.id ?? null);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/internal/category/:id Delete Category
+ * @apiName DeleteCategory
+ * @apiGroup Category
+ * @apiPermission admin
+ *
+ * @apiParam {Number} id Category ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await categoryDelete(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
@@ -72,7 +72,7 @@ export async function createHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await initExampleCreate(req.body);
+    const data = await initExampleCreate(req.body, req.user?.id ?? null);
     res.status(201).json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -151,7 +151,7 @@ export async function updateHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await initExampleUpdate(req.params, req.body);
+    const data = await initExampleUpdate(req.params, req.body, req.user?.id ?? null);
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -182,7 +182,7 @@ export async function deleteHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await initExampleDelete(req.params);
+    const data = await initExampleDelete(req.params, req.user?.id ?? null);
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
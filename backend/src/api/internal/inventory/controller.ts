@@ -0,0 +1,274 @@
+/**
+ * @summary
+ * API controller for inventory.
+ * Handles stock locations, product stock levels and the stock movement ledger.
+ *
+ * @module api/internal/inventory/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import {
+  inventoryLocationList,
+  inventoryLocationCreate,
+  inventoryLocationUpdate,
+  inventoryLocationDelete,
+  inventoryProductStock,
+  inventoryMovementList,
+  inventoryMovementCreate,
+} from '@/services/inventory';
+
+/**
+ * @api {get} /api/internal/inventory/location List Stock Locations
+ * @apiName ListStockLocations
+ * @apiGroup Inventory
+ * @apiPermission authenticated
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data Locations ordered by name
+ * @apiSuccess {Number} data.id Unique identifier
+ * @apiSuccess {String} data.code Lowercase words joined by hyphens
+ * @apiSuccess {String} data.name Display name
+ * @apiSuccess {String} data.type Location type (warehouse | showroom)
+ * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
+ * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ */
+export async function locationListHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryLocationList();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/inventory/location Create Stock Location
+ * @apiName CreateStockLocation
+ * @apiGroup Inventory
+ * @apiPermission admin
+ *
+ * @apiBody {String} name Display name (1-60 chars)
+ * @apiBody {String} [code] Lowercase words joined by hyphens (defaults to the slugified name)
+ * @apiBody {String} type Location type (warehouse | showroom)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Created location
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function locationCreateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryLocationCreate(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {put} /api/internal/inventory/location/:id Update Stock Location
+ * @apiName UpdateStockLocation
+ * @apiGroup Inventory
+ * @apiPermission admin
+ *
+ * @apiParam {Number} id Location ID
+ *
+ * @apiBody {String} name Display name (1-60 chars)
+ * @apiBody {String} code Lowercase words joined by hyphens
+ * @apiBody {String} type Location type (warehouse | showroom)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated location
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function locationUpdateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryLocationUpdate(req.params, req.body);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/internal/inventory/location/:id Delete Stock Location
+ * @apiName DeleteStockLocation
+ * @apiGroup Inventory
+ * @apiPermission admin
+ *
+ * @apiParam {Number} id Location ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT)
+ * @apiError {String} error.message Error message
+ */
+export async function locationDeleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryLocationDelete(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/inventory/product/:id Get Product Stock
+ * @apiName GetProductStock
+ * @apiGroup Inventory
+ * @apiPermission authenticated
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.productId Product ID
+ * @apiSuccess {Boolean} data.tracked Whether any movement was recorded for the product
+ * @apiSuccess {Number|null} data.stockQuantity Units on hand across locations (null when untracked)
+ * @apiSuccess {Object[]} data.levels Units per location and variant ({ locationId, locationCode, locationName, sku, quantity })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function productStockHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryProductStock(req.params);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/inventory/movement List Stock Movements
+ * @apiName ListStockMovements
+ * @apiGroup Inventory
+ * @apiPermission authenticated
+ *
+ * @apiQuery {Number} [productId] Filter by product
+ * @apiQuery {String} [sku] Filter by variant SKU
+ * @apiQuery {Number} [locationId] Filter by location
+ * @apiQuery {String} [type] Filter by movement type (entrada | saida | ajuste)
+ * @apiQuery {Number} [page=1] Page number
+ * @apiQuery {Number} [pageSize=50] Items per page (max 200)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Movements, newest first
+ * @apiSuccess {Number} data.items.id Unique identifier
+ * @apiSuccess {Number} data.items.productId Product ID
+ * @apiSuccess {String|null} data.items.sku Variant SKU (null for products without variants)
+ * @apiSuccess {Number} data.items.locationId Location ID
+ * @apiSuccess {String} data.items.type Movement type (entrada | saida | ajuste)
+ * @apiSuccess {Number} data.items.quantity Units moved, or the counted balance for an ajuste
+ * @apiSuccess {Number} data.items.delta Resulting change in units
+ * @apiSuccess {Number} data.items.balance Units at the location after the movement
+ * @apiSuccess {String|null} data.items.note Free-text note
+ * @apiSuccess {Number|null} data.items.userId User who recorded the movement
+ * @apiSuccess {String} data.items.dateCreated ISO 8601 timestamp
+ * @apiSuccess {Object} data.pagination Pagination ({ page, pageSize, total, totalPages, hasNext, hasPrevious })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function movementListHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryMovementList(req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/inventory/movement Record Stock Movement
+ * @apiName CreateStockMovement
+ * @apiGroup Inventory
+ * @apiPermission admin, editor
+ *
+ * @apiBody {Number} productId Product ID
+ * @apiBody {String|null} [sku] Variant SKU (required for products with variants)
+ * @apiBody {Number} locationId Location ID
+ * @apiBody {String} type entrada (adds units) | saida (removes units) | ajuste (sets the counted balance)
+ * @apiBody {Number} quantity Whole units (at least 1, or 0 for an ajuste)
+ * @apiBody {String|null} [note] Free-text note (max 200 chars)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Recorded movement (same fields as the ledger)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | INSUFFICIENT_STOCK)
+ * @apiError {String} error.message Error message
+ */
+export async function movementCreateHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await inventoryMovementCreate(req.body, req.user?.id ?? null);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
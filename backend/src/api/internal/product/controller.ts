@@ -7,38 +7,82 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
-import { successResponse, errorResponse, isServiceError } from '@/utils';
+import {
+  successResponse,
+  errorResponse,
+  contentEtag,
+  isServiceError,
+  setCacheValidators,
+} from '@/utils';
 import {
   productList,
   productGet,
   productCreate,
   productUpdate,
+  productPatch,
   productDelete,
+  productPriceHistory,
+  productImport,
+  productExport,
+  productTrash,
+  productRestore,
+  productImageUpload,
 } from '@/services/product';
 
 /**
  * @api {get} /api/internal/product List Products
  * @apiName ListProducts
  * @apiGroup Product
+ * @apiPermission authenticated
+ *
+ * @apiDescription Responses carry ETag and Last-Modified; a conditional GET (If-None-Match /
+ * If-Modified-Since) for an unchanged listing is answered with 304 Not Modified.
  *
- * @apiQuery {String} [category] Filter by category
- * @apiQuery {String} [sort] Sort order (newest | name-asc | name-desc | price-asc | price-desc)
+ * @apiQuery {String} [q] Full-text search on name, descriptions and dimensions (accent-insensitive)
+ * @apiQuery {String} [category] Filter by category slugs, subcategories included (comma-separated or repeated)
+ * @apiQuery {String} [sort] Sort order (relevance | newest | new-arrivals | name-asc | name-desc | price-asc | price-desc); price sorts use the sale price, new-arrivals lists new products first by launch date
  * @apiQuery {Number} [page=1] Page number
  * @apiQuery {Number} [pageSize=12] Items per page (12, 24, 36, 48)
+ * @apiQuery {Number} [minPrice] Minimum price (inclusive)
+ * @apiQuery {Number} [maxPrice] Maximum price (inclusive)
+ * @apiQuery {Boolean} [includeOnRequest=true] Include "Sob consulta" (null price) products
+ * @apiQuery {Number} [maxWidth] Maximum width in cm; products without measurements are excluded
+ * @apiQuery {Number} [maxDepth] Maximum depth in cm; products without measurements are excluded
+ * @apiQuery {Number} [maxHeight] Maximum height in cm; products without measurements are excluded
  * @apiQuery {Boolean} [available] Filter by availability
  * @apiQuery {Boolean} [featured] Filter by featured products
+ * @apiQuery {Boolean} [onSale] Filter by products with a running sale
+ * @apiQuery {Boolean} [isNew] Filter by new products (launched within the last 30 days)
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Object[]} data.items List of products
  * @apiSuccess {Number} data.items.id Unique identifier
  * @apiSuccess {String} data.items.name Product name
  * @apiSuccess {String} data.items.mainImage Main image URL
- * @apiSuccess {Number|null} data.items.price Product price
- * @apiSuccess {String} data.items.category Product category
+ * @apiSuccess {Object|null} data.items.mainImageVariants Renditions of an uploaded main image
+ * ({ placeholder, thumbnail, medium, large }, each { url, width, height }); null for other images
+ * @apiSuccess {Number|null} data.items.price Current price (discounted while on sale)
+ * @apiSuccess {Number|null} data.items.originalPrice Regular price while on sale, otherwise null
+ * @apiSuccess {Number|null} data.items.discountPercent Discount while on sale, otherwise null
+ * @apiSuccess {String} data.items.category Product category slug
+ * @apiSuccess {String} data.items.categoryName Product category display name
+ * @apiSuccess {Object|null} data.items.measurements Width, depth, height (cm) and weight (kg)
  * @apiSuccess {Boolean} data.items.featured Featured status
- * @apiSuccess {Boolean} data.items.isNew New product status
- * @apiSuccess {Boolean} data.items.onSale On sale status
+ * @apiSuccess {Boolean} data.items.isNew Whether the product was launched within the last 30 days
+ * @apiSuccess {Boolean} data.items.onSale Whether a sale is running
  * @apiSuccess {Boolean} data.items.available Availability status
+ * @apiSuccess {Number} data.items.version Product version, sent in If-Match by list actions
+ * @apiSuccess {Object[]} [data.items.highlights] Matched snippets (only when searching)
+ * @apiSuccess {String} data.items.highlights.field Matched field
+ * @apiSuccess {String} data.items.highlights.snippet Snippet of the field text
+ * @apiSuccess {Object[]} data.items.highlights.matches Match ranges ({ start, end }) in the snippet
+ * @apiSuccess {Object[]} data.facets.categories Count per category slug, subcategories included ({ value, count })
+ * @apiSuccess {Object} data.facets.available Count of available/unavailable products ({ true, false })
+ * @apiSuccess {Object} data.facets.featured Count of featured/non-featured products ({ true, false })
+ * @apiSuccess {Object} data.facets.onSale Count of on sale/regular products ({ true, false })
+ * @apiSuccess {Object} data.facets.isNew Count of new/older products ({ true, false })
+ * @apiSuccess {Object[]} data.facets.price.buckets Count per price range ({ min, max, count })
+ * @apiSuccess {Number} data.facets.price.onRequest Count of "Sob consulta" products
  * @apiSuccess {Number} data.pagination.page Current page
  * @apiSuccess {Number} data.pagination.pageSize Items per page
  * @apiSuccess {Number} data.pagination.total Total items
@@ -52,7 +96,12 @@ import {
  */
 export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const data = await productList(req.query);
+    const { data, ...validators } = await productList(req.query);
+    setCacheValidators(res, validators, true);
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -67,6 +116,13 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  * @api {get} /api/internal/product/:id Get Product
  * @apiName GetProduct
  * @apiGroup Product
+ * @apiPermission authenticated
+ *
+ * @apiDescription The ETag response header identifies the response content, so it also
+ * changes with stock, category renames and when a sale or the "Novo" window starts or ends;
+ * a conditional GET (If-None-Match, or If-Modified-Since with Last-Modified) is answered
+ * with 304 Not Modified while the response would be the same. To update, patch or delete
+ * the product send that ETag, or data.version quoted, in If-Match.
  *
  * @apiParam {Number} id Product ID
  *
@@ -76,16 +132,25 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  * @apiSuccess {String|null} data.description Product description
  * @apiSuccess {String} data.mainImage Main image URL
  * @apiSuccess {String[]} data.images Additional images
- * @apiSuccess {Number|null} data.price Product price
- * @apiSuccess {String} data.category Product category
+ * @apiSuccess {Number|null} data.price Current price (discounted while on sale)
+ * @apiSuccess {Number|null} data.originalPrice Regular price while on sale, otherwise null
+ * @apiSuccess {Number|null} data.discountPercent Discount while on sale, otherwise null
+ * @apiSuccess {String} data.category Product category slug
  * @apiSuccess {String|null} data.shortDescription Short description
  * @apiSuccess {String|null} data.dimensions Product dimensions
+ * @apiSuccess {Object|null} data.measurements Width, depth, height (cm) and weight (kg, nullable)
  * @apiSuccess {Boolean} data.featured Featured status
- * @apiSuccess {Boolean} data.isNew New product status
- * @apiSuccess {Boolean} data.onSale On sale status
+ * @apiSuccess {Boolean} data.isNew Whether the product was launched within the last 30 days
+ * @apiSuccess {String|null} data.launchDate Start of the "Novo" window (null counts from dateCreated)
+ * @apiSuccess {Boolean} data.onSale Whether a sale is running
+ * @apiSuccess {Object|null} data.sale Sale configuration ({ discountPercent, startsAt, endsAt })
  * @apiSuccess {Boolean} data.available Availability status
+ * @apiSuccess {Object[]} data.options Variant options ({ name, values })
+ * @apiSuccess {Object[]} data.variants Variants ({ sku, options, price, originalPrice, images, available })
+ * @apiSuccess {Number|null} data.stockQuantity Units on hand across locations (null until stock is tracked)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ * @apiSuccess {Number} data.version Product version, sent quoted in If-Match
  *
  * @apiError {Boolean} success Success flag (always false)
  * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
@@ -93,7 +158,12 @@ export async function listHandler(req: Request, res: Response, next: NextFunctio
  */
 export async function getHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const data = await productGet(req.params);
+    const { data, etag, lastModified } = await productGet(req.params);
+    setCacheValidators(res, { etag, lastModified }, true);
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -108,18 +178,23 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @api {post} /api/internal/product Create Product
  * @apiName CreateProduct
  * @apiGroup Product
+ * @apiPermission admin, editor
  *
  * @apiBody {String} name Product name (1-60 chars)
  * @apiBody {String|null} description Product description (max 500 chars)
  * @apiBody {String} mainImage Main image URL
  * @apiBody {String[]} [images] Additional images
- * @apiBody {Number|null} price Product price
- * @apiBody {String} category Product category
+ * @apiBody {Number|null} price Regular product price
+ * @apiBody {String} category Category slug (must exist)
  * @apiBody {String|null} shortDescription Short description (max 150 chars)
  * @apiBody {String|null} dimensions Product dimensions
+ * @apiBody {Object|null} [measurements=null] { width, depth, height } in cm (up to 1000) and optional weight in kg
  * @apiBody {Boolean} [featured=false] Featured status
- * @apiBody {Boolean} [onSale=false] On sale status
- * @apiBody {Boolean} [available=true] Availability status
+ * @apiBody {String|null} [launchDate=null] ISO date starting the "Novo" window (defaults to the creation date)
+ * @apiBody {Object|null} [sale=null] { discountPercent (1-90), startsAt?, endsAt? } with ISO dates; the product is on sale while the window is open
+ * @apiBody {Boolean} [available=true] Availability status (ignored once stock is tracked)
+ * @apiBody {Object[]} [options=[]] Variant options ({ name, values }, e.g. cor, tecido, acabamento)
+ * @apiBody {Object[]} [variants=[]] Variants ({ sku, options, price, images, available }); options map each option name to one of its values. With variants, price and available are derived from them
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -127,19 +202,28 @@ export async function getHandler(req: Request, res: Response, next: NextFunction
  * @apiSuccess {String|null} data.description Product description
  * @apiSuccess {String} data.mainImage Main image URL
  * @apiSuccess {String[]} data.images Additional images
- * @apiSuccess {Number|null} data.price Product price
- * @apiSuccess {String} data.category Product category
+ * @apiSuccess {Number|null} data.price Current price (discounted while on sale)
+ * @apiSuccess {Number|null} data.originalPrice Regular price while on sale, otherwise null
+ * @apiSuccess {Number|null} data.discountPercent Discount while on sale, otherwise null
+ * @apiSuccess {String} data.category Product category slug
  * @apiSuccess {String|null} data.shortDescription Short description
  * @apiSuccess {String|null} data.dimensions Product dimensions
+ * @apiSuccess {Object|null} data.measurements Width, depth, height (cm) and weight (kg, nullable)
  * @apiSuccess {Boolean} data.featured Featured status
- * @apiSuccess {Boolean} data.isNew New product status
- * @apiSuccess {Boolean} data.onSale On sale status
+ * @apiSuccess {Boolean} data.isNew Whether the product was launched within the last 30 days
+ * @apiSuccess {String|null} data.launchDate Start of the "Novo" window (null counts from dateCreated)
+ * @apiSuccess {Boolean} data.onSale Whether a sale is running
+ * @apiSuccess {Object|null} data.sale Sale configuration ({ discountPercent, startsAt, endsAt })
  * @apiSuccess {Boolean} data.available Availability status
+ * @apiSuccess {Object[]} data.options Variant options ({ name, values })
+ * @apiSuccess {Object[]} data.variants Variants ({ sku, options, price, originalPrice, images, available })
+ * @apiSuccess {Number|null} data.stockQuantity Units on hand across locations (null until stock is tracked)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ * @apiSuccess {Number} data.version Product version, sent quoted in If-Match
  *
  * @apiError {Boolean} success Success flag (always false)
- * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | CONFLICT)
  * @apiError {String} error.message Error message
  */
 export async function createHandler(
@@ -148,7 +232,8 @@ export async function createHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await productCreate(req.body);
+    const data = await productCreate(req.body, req.user?.id ?? null);
+    res.set('ETag', contentEtag(data));
     res.status(201).json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -163,20 +248,27 @@ export async function createHandler(
  * @api {put} /api/internal/product/:id Update Product
  * @apiName UpdateProduct
  * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiHeader {String} If-Match ETag from Get Product (or the last change), or data.version quoted
  *
  * @apiParam {Number} id Product ID
  *
  * @apiBody {String} name Product name (1-60 chars)
  * @apiBody {String|null} description Product description (max 500 chars)
  * @apiBody {String} mainImage Main image URL
- * @apiBody {String[]} [images] Additional images
- * @apiBody {Number|null} price Product price
- * @apiBody {String} category Product category
+ * @apiBody {String[]} [images] Additional images; omit to keep the current ones
+ * @apiBody {Number|null} price Regular product price
+ * @apiBody {String} category Category slug (must exist)
  * @apiBody {String|null} shortDescription Short description (max 150 chars)
  * @apiBody {String|null} dimensions Product dimensions
+ * @apiBody {Object|null} [measurements] { width, depth, height } in cm and optional weight in kg; omit to keep the current ones
  * @apiBody {Boolean} featured Featured status
- * @apiBody {Boolean} onSale On sale status
- * @apiBody {Boolean} available Availability status
+ * @apiBody {String|null} [launchDate] ISO date starting the "Novo" window; omit to keep the current one
+ * @apiBody {Object|null} [sale] { discountPercent (1-90), startsAt?, endsAt? }; omit to keep the current sale
+ * @apiBody {Boolean} available Availability status (ignored once stock is tracked)
+ * @apiBody {Object[]} [options] Variant options ({ name, values }); send together with variants, omit both to keep the current ones
+ * @apiBody {Object[]} [variants] Variants ({ sku, options, price, images, available }). With variants, price and available are derived from them
  *
  * @apiSuccess {Boolean} success Success flag (always true)
  * @apiSuccess {Number} data.id Unique identifier
@@ -184,19 +276,30 @@ export async function createHandler(
  * @apiSuccess {String|null} data.description Product description
  * @apiSuccess {String} data.mainImage Main image URL
  * @apiSuccess {String[]} data.images Additional images
- * @apiSuccess {Number|null} data.price Product price
- * @apiSuccess {String} data.category Product category
+ * @apiSuccess {Number|null} data.price Current price (discounted while on sale)
+ * @apiSuccess {Number|null} data.originalPrice Regular price while on sale, otherwise null
+ * @apiSuccess {Number|null} data.discountPercent Discount while on sale, otherwise null
+ * @apiSuccess {String} data.category Product category slug
  * @apiSuccess {String|null} data.shortDescription Short description
  * @apiSuccess {String|null} data.dimensions Product dimensions
+ * @apiSuccess {Object|null} data.measurements Width, depth, height (cm) and weight (kg, nullable)
  * @apiSuccess {Boolean} data.featured Featured status
- * @apiSuccess {Boolean} data.isNew New product status
- * @apiSuccess {Boolean} data.onSale On sale status
+ * @apiSuccess {Boolean} data.isNew Whether the product was launched within the last 30 days
+ * @apiSuccess {String|null} data.launchDate Start of the "Novo" window (null counts from dateCreated)
+ * @apiSuccess {Boolean} data.onSale Whether a sale is running
+ * @apiSuccess {Object|null} data.sale Sale configuration ({ discountPercent, startsAt, endsAt })
  * @apiSuccess {Boolean} data.available Availability status
+ * @apiSuccess {Object[]} data.options Variant options ({ name, values })
+ * @apiSuccess {Object[]} data.variants Variants ({ sku, options, price, originalPrice, images, available })
+ * @apiSuccess {Number|null} data.stockQuantity Units on hand across locations (null until stock is tracked)
  * @apiSuccess {String} data.dateCreated ISO 8601 timestamp
  * @apiSuccess {String} data.dateModified ISO 8601 timestamp
+ * @apiSuccess {Number} data.version Product version, sent quoted in If-Match
  *
  * @apiError {Boolean} success Success flag (always false)
- * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT |
+ * PRECONDITION_FAILED when the product changed since that version | PRECONDITION_REQUIRED
+ * without If-Match)
  * @apiError {String} error.message Error message
  */
 export async function updateHandler(
@@ -205,7 +308,60 @@ export async function updateHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await productUpdate(req.params, req.body);
+    const data = await productUpdate(
+      req.params,
+      req.body,
+      req.user?.id ?? null,
+      req.get('If-Match')
+    );
+    res.set('ETag', contentEtag(data));
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {patch} /api/internal/product/:id Patch Product
+ * @apiName PatchProduct
+ * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiDescription JSON Merge Patch (RFC 7386; `application/json` or
+ * `application/merge-patch+json`). Send only the fields to change: omitted fields are kept,
+ * `null` clears nullable fields (description, price, measurements, sale, ...), `measurements`
+ * and `sale` are merged member by member and arrays (images, options, variants) are replaced.
+ * The patched product must pass the same validation as a full update; error details point
+ * at the patched fields.
+ *
+ * @apiHeader {String} If-Match ETag from Get Product (or the last change), or data.version quoted
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiBody {Object} patch Any subset of the update body, e.g. { "featured": true }
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Updated product (same shape as Update Product)
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | CONFLICT |
+ * PRECONDITION_FAILED | PRECONDITION_REQUIRED)
+ * @apiError {String} error.message Error message
+ * @apiError {Object[]} error.details Field errors ({ path, message })
+ */
+export async function patchHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productPatch(
+      req.params,
+      req.body,
+      req.user?.id ?? null,
+      req.get('If-Match')
+    );
+    res.set('ETag', contentEtag(data));
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -220,6 +376,12 @@ export async function updateHandler(
  * @api {delete} /api/internal/product/:id Delete Product
  * @apiName DeleteProduct
  * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiDescription Moves the product to the trash. It can be restored until it is purged,
+ * config.trash.retentionDays after deletion.
+ *
+ * @apiHeader {String} If-Match ETag from Get Product (or the last change), or data.version quoted
  *
  * @apiParam {Number} id Product ID
  *
@@ -227,7 +389,8 @@ export async function updateHandler(
  * @apiSuccess {String} data.message Confirmation message
  *
  * @apiError {Boolean} success Success flag (always false)
- * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | PRECONDITION_FAILED |
+ * PRECONDITION_REQUIRED)
  * @apiError {String} error.message Error message
  */
 export async function deleteHandler(
@@ -236,7 +399,73 @@ export async function deleteHandler(
   next: NextFunction
 ): Promise<void> {
   try {
-    const data = await productDelete(req.params);
+    const data = await productDelete(req.params, req.user?.id ?? null, req.get('If-Match'));
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/product/trash List Trash
+ * @apiName ListProductTrash
+ * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data.items Products in the trash, most recently deleted first
+ * @apiSuccess {Number} data.items.id Product ID
+ * @apiSuccess {String|null} data.items.externalSku Supplier SKU
+ * @apiSuccess {String} data.items.name Product name
+ * @apiSuccess {String} data.items.mainImage Main image URL
+ * @apiSuccess {Number|null} data.items.price Regular price
+ * @apiSuccess {String} data.items.category Category slug
+ * @apiSuccess {String} data.items.categoryName Category name
+ * @apiSuccess {String} data.items.deletedAt ISO 8601 timestamp
+ * @apiSuccess {Number|null} data.items.deletedBy User who deleted it
+ * @apiSuccess {String|null} data.items.deletedByName Name of that user, if it still exists
+ * @apiSuccess {String} data.items.purgeAt When it will be permanently deleted
+ * @apiSuccess {Number} data.retentionDays Days a product stays in the trash
+ */
+export async function trashHandler(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productTrash();
+    res.json(successResponse(data));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/product/:id/restore Restore Product
+ * @apiName RestoreProduct
+ * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Restored product entity
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function restoreHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productRestore(req.params, req.user?.id ?? null);
     res.json(successResponse(data));
   } catch (error) {
     if (isServiceError(error)) {
@@ -246,3 +475,211 @@ export async function deleteHandler(
     next(error);
   }
 }
+
+/**
+ * @api {get} /api/internal/product/:id/price-history Product Price History
+ * @apiName GetProductPriceHistory
+ * @apiGroup Product
+ * @apiPermission authenticated
+ *
+ * @apiDescription Every change of the regular product price and of variant prices, oldest
+ * first. Sale discounts are not price changes; see the product sale configuration.
+ *
+ * @apiParam {Number} id Product ID
+ *
+ * @apiQuery {String} [sku] Only list changes of this variant
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Number} data.productId Product ID
+ * @apiSuccess {Object[]} data.changes Price changes
+ * @apiSuccess {Number} data.changes.id Change ID
+ * @apiSuccess {String|null} data.changes.sku Variant SKU (null for the product price)
+ * @apiSuccess {Number|null} data.changes.oldPrice Previous price (null when first set)
+ * @apiSuccess {Number|null} data.changes.newPrice New price (null for "Sob consulta")
+ * @apiSuccess {Number|null} data.changes.userId User who changed it
+ * @apiSuccess {String|null} data.changes.userName Name of that user, if it still exists
+ * @apiSuccess {String} data.changes.dateCreated ISO 8601 timestamp
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function priceHistoryHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productPriceHistory(req.params, req.query);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/product/import Import Products
+ * @apiName ImportProducts
+ * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiDescription Creates and updates products from a spreadsheet sent as the request body
+ * (`Content-Type: text/csv` or
+ * `application/vnd.openxmlformats-officedocument.spreadsheetml.sheet`, up to 5 MB and
+ * 1000 rows). The first row names the columns, in English or Portuguese: sku, name/nome,
+ * description/descricao, shortDescription/resumo, mainImage/imagem, images/imagens
+ * (separated by "|"), price/preco, category/categoria (slug), dimensions/dimensoes,
+ * width/largura, depth/profundidade, height/altura, weight/peso, featured/destaque,
+ * available/disponivel and launchDate/lancamento. Other columns are ignored.
+ *
+ * Each row is validated like Create Product and matched by SKU: a known SKU updates its
+ * product (fields without a column are kept), a new SKU creates one (missing description,
+ * summary and dimensions columns leave them empty). Rows with errors, and rows that would
+ * not change their product, are skipped; the others are imported. CSV files may use "," or
+ * ";" and decimal commas.
+ *
+ * @apiQuery {Boolean} [dryRun=false] Only validate and report what would happen
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Boolean} data.dryRun Whether nothing was stored
+ * @apiSuccess {String} data.format csv | xlsx
+ * @apiSuccess {Number} data.totalRows Non-blank rows read
+ * @apiSuccess {Number} data.created Products created (or to create)
+ * @apiSuccess {Number} data.updated Products updated (or to update)
+ * @apiSuccess {Number} data.unchanged Rows matching their product as it is, skipped
+ * @apiSuccess {Number} data.failed Rows with errors
+ * @apiSuccess {String[]} data.ignoredColumns Headers that match no field
+ * @apiSuccess {Object[]} data.rows Outcome of every row
+ * @apiSuccess {Number} data.rows.row Line in the file (the header is line 1)
+ * @apiSuccess {String|null} data.rows.externalSku Row SKU
+ * @apiSuccess {String|null} data.rows.action create | update | unchanged (null without a SKU)
+ * @apiSuccess {Number|null} data.rows.productId Product created or updated
+ * @apiSuccess {Object[]} data.rows.errors Field errors ({ path, message })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNSUPPORTED_MEDIA_TYPE)
+ * @apiError {String} error.message Error message
+ */
+export async function importHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await productImport(
+      req.body,
+      req.get('Content-Type'),
+      req.query,
+      req.user?.id ?? null
+    );
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/product/image Upload Product Image
+ * @apiName UploadProductImage
+ * @apiGroup Product
+ * @apiPermission admin, editor
+ *
+ * @apiDescription Stores an image sent as `multipart/form-data` in the `image` field: a JPEG,
+ * PNG or WebP file of up to 2 MB and at least 800x600 pixels. It is kept as placeholder
+ * (24 px wide, to show blurred while loading), thumbnail (320 px), medium (800 px) and large
+ * (1600 px) WebP renditions, never enlarged, served
+ * under `/uploads` with a one-year immutable cache. Use `data.url` in mainImage or images.
+ *
+ * @apiBody {File} image Image file
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.id Image id
+ * @apiSuccess {String} data.url URL of the large rendition
+ * @apiSuccess {Number} data.width Width of the original in pixels
+ * @apiSuccess {Number} data.height Height of the original in pixels
+ * @apiSuccess {Object} data.variants Renditions by name (placeholder, thumbnail, medium, large), each { url, width, height }
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | UNSUPPORTED_MEDIA_TYPE | PAYLOAD_TOO_LARGE)
+ * @apiError {String} error.message Error message
+ */
+export async function imageHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await productImageUpload(req.file?.buffer, req.file?.mimetype);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {get} /api/internal/product/export Export Products
+ * @apiName ExportProducts
+ * @apiGroup Product
+ * @apiPermission authenticated
+ *
+ * @apiDescription Downloads every product matching the filters (no pagination) as a file
+ * attachment. CSV and XLSX have one row per product with nested fields flattened (width,
+ * depth, height, weight, sale*) and options/variants as JSON text; headers are the entity
+ * field names, so the file can be re-imported. JSON is an array of product entities as
+ * returned by Get Product. In every format price is the regular price and effectivePrice
+ * the price with a running sale applied (ignored on import).
+ *
+ * @apiQuery {String="csv","xlsx","json"} [format=csv] File format
+ * @apiQuery {String} [q] Search text, as in List Products
+ * @apiQuery {String} [category] Category slugs, comma-separated (includes subcategories)
+ * @apiQuery {String} [sort] Sort order, as in List Products
+ * @apiQuery {Number} [minPrice] Minimum effective price
+ * @apiQuery {Number} [maxPrice] Maximum effective price
+ * @apiQuery {Boolean} [includeOnRequest] Include "Sob consulta" products in price ranges
+ * @apiQuery {Number} [maxWidth] Maximum width in cm
+ * @apiQuery {Number} [maxDepth] Maximum depth in cm
+ * @apiQuery {Number} [maxHeight] Maximum height in cm
+ * @apiQuery {Boolean} [available] Filter by availability
+ * @apiQuery {Boolean} [featured] Filter by featured status
+ * @apiQuery {Boolean} [onSale] Filter by sale status
+ * @apiQuery {Boolean} [isNew] Filter by new status
+ *
+ * @apiSuccess {File} file produtos-YYYY-MM-DD.(csv|xlsx|json); X-Total-Count holds the
+ * number of products
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR)
+ * @apiError {String} error.message Error message
+ */
+export async function exportHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const file = await productExport(req.query);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.setHeader('X-Total-Count', String(file.total));
+    await file.write(res);
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    // Once streaming started the status is sent; closing the connection signals the failure
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * @summary
+ * API controller for User entity.
+ * Handles account management for administrators.
+ *
+ * @module api/internal/user/controller
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { successResponse, errorResponse, isServiceError } from '@/utils';
+import { userCreate, userDelete, userList } from '@/services/user';
+
+/**
+ * @api {get} /api/internal/user List Users
+ * @apiName ListUsers
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object[]} data List of users ({ id, name, email, role, dateCreated, dateModified })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (UNAUTHORIZED | FORBIDDEN)
+ * @apiError {String} error.message Error message
+ */
+export async function listHandler(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const data = await userList();
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {post} /api/internal/user Create User
+ * @apiName CreateUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiBody {String} name User name (1-100 chars)
+ * @apiBody {String} email Unique email
+ * @apiBody {String} password Password (8-72 chars)
+ * @apiBody {String} [role=viewer] Role (admin | editor | viewer)
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {Object} data Created user ({ id, name, email, role, dateCreated, dateModified })
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (VALIDATION_ERROR | CONFLICT | FORBIDDEN)
+ * @apiError {String} error.message Error message
+ */
+export async function createHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await userCreate(req.body);
+    res.status(201).json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @api {delete} /api/internal/user/:id Delete User
+ * @apiName DeleteUser
+ * @apiGroup User
+ * @apiPermission admin
+ *
+ * @apiParam {Number} id User ID
+ *
+ * @apiSuccess {Boolean} success Success flag (always true)
+ * @apiSuccess {String} data.message Confirmation message
+ *
+ * @apiError {Boolean} success Success flag (always false)
+ * @apiError {String} error.code Error code (NOT_FOUND | VALIDATION_ERROR | FORBIDDEN)
+ * @apiError {String} error.message Error message
+ */
+export async function deleteHandler(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const data = await userDelete(req.params, req.user!.id);
+    res.json(successResponse(data));
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code, error.details));
+      return;
+    }
+    next(error);
+  }
+}
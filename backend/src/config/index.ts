@@ -1,7 +1,8 @@
 /**
  * @summary
  * Application configuration management with environment variable support.
- * Provides centralized configuration for server, API, security, and cache settings.
+ * Provides centralized configuration for server, API, security, auth, cache, storage,
+ * uploads and trash settings.
  *
  * @module config
  */
@@ -10,6 +11,44 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * @summary
+ * Available storage drivers selectable through STORAGE_DRIVER.
+ */
+export const STORAGE_DRIVERS = ['memory', 'file'] as const;
+
+export type StorageDriver = (typeof STORAGE_DRIVERS)[number];
+
+/**
+ * @summary
+ * Validates STORAGE_DRIVER at startup so a typo fails fast instead of reaching the stores.
+ *
+ * @throws {Error} When the value is not a known driver
+ */
+function parseStorageDriver(value: string): StorageDriver {
+  if (!(STORAGE_DRIVERS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown STORAGE_DRIVER "${value}"; expected one of: ${STORAGE_DRIVERS.join(', ')}`
+    );
+  }
+  return value as StorageDriver;
+}
+
+/**
+ * @summary
+ * Resolves JWT_SECRET at startup. Outside production a fixed development secret is used;
+ * in production a missing secret fails fast instead of failing every login.
+ *
+ * @throws {Error} When JWT_SECRET is not set in production
+ */
+function parseJwtSecret(value: string | undefined): string {
+  if (value) return value;
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('JWT_SECRET must be set in production');
+  }
+  return 'development-only-secret';
+}
+
 export const config = {
   api: {
     port: parseInt(process.env.PORT || '3000'),
@@ -20,16 +59,40 @@ export const config = {
           : ['http://localhost:3000', 'http://localhost:3001', 'http://localhost:5173'],
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
-      exposedHeaders: ['X-Total-Count', 'X-Page-Count'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'If-Match'],
+      exposedHeaders: ['X-Total-Count', 'X-Page-Count', 'Content-Disposition', 'ETag'],
       maxAge: 86400,
     },
   },
   security: {
     bcryptRounds: parseInt(process.env.BCRYPT_ROUNDS || '10'),
   },
+  auth: {
+    jwtSecret: parseJwtSecret(process.env.JWT_SECRET),
+    accessTokenTtl: parseInt(process.env.ACCESS_TOKEN_TTL || '900'),
+    refreshTokenTtl: parseInt(process.env.REFRESH_TOKEN_TTL || '604800'),
+    adminEmail: process.env.ADMIN_EMAIL || '',
+    adminPassword: process.env.ADMIN_PASSWORD || '',
+  },
   cache: {
     ttl: parseInt(process.env.CACHE_TTL || '3600'),
     checkPeriod: parseInt(process.env.CACHE_CHECK_PERIOD || '600'),
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500'),
+  },
+  storage: {
+    driver: parseStorageDriver(process.env.STORAGE_DRIVER || 'memory'),
+    dataDir: process.env.STORAGE_DATA_DIR || './data',
+  },
+  uploads: {
+    dir: process.env.UPLOADS_DIR || './uploads',
+    // Public URL of the uploads directory; image URLs are absolute like any other product image
+    publicUrl:
+      process.env.UPLOADS_PUBLIC_URL || `http://localhost:${process.env.PORT || '3000'}/uploads`,
+    orphanRetentionHours: parseInt(process.env.UPLOADS_ORPHAN_RETENTION_HOURS || '24'),
+    sweepInterval: parseInt(process.env.UPLOADS_SWEEP_INTERVAL || '3600'),
+  },
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS || '30'),
+    purgeInterval: parseInt(process.env.TRASH_PURGE_INTERVAL || '3600'),
   },
 };
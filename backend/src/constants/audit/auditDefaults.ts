@@ -0,0 +1,66 @@
+/**
+ * @summary
+ * Default values and constants for the audit log.
+ * Provides the audited entities, the recorded actions and validation limits.
+ *
+ * @module constants/audit/auditDefaults
+ */
+
+/**
+ * @interface AuditEntitiesType
+ * @description Entities whose mutations are recorded in the audit log.
+ *
+ * @property {string} PRODUCT - Products ('product')
+ * @property {string} INIT_EXAMPLE - Init-examples ('init-example')
+ */
+export const AUDIT_ENTITIES = {
+  PRODUCT: 'product',
+  INIT_EXAMPLE: 'init-example',
+} as const;
+
+/** Type representing the AUDIT_ENTITIES constant */
+export type AuditEntitiesType = typeof AUDIT_ENTITIES;
+
+/** Union type of all valid audited entity values */
+export type AuditEntity = (typeof AUDIT_ENTITIES)[keyof typeof AUDIT_ENTITIES];
+
+/**
+ * @interface AuditActionsType
+ * @description Kinds of recorded mutations.
+ *
+ * @property {string} CREATE - Entity created ('create')
+ * @property {string} UPDATE - Entity fields changed ('update')
+ * @property {string} DELETE - Entity deleted, or moved to the trash for products ('delete')
+ * @property {string} RESTORE - Product restored from the trash ('restore')
+ * @property {string} PURGE - Product permanently deleted from the trash ('purge')
+ */
+export const AUDIT_ACTIONS = {
+  CREATE: 'create',
+  UPDATE: 'update',
+  DELETE: 'delete',
+  RESTORE: 'restore',
+  PURGE: 'purge',
+} as const;
+
+/** Type representing the AUDIT_ACTIONS constant */
+export type AuditActionsType = typeof AUDIT_ACTIONS;
+
+/** Union type of all valid audit action values */
+export type AuditAction = (typeof AUDIT_ACTIONS)[keyof typeof AUDIT_ACTIONS];
+
+/**
+ * @interface AuditLimitsType
+ * @description Audit log constraints.
+ *
+ * @property {string[]} IGNORED_FIELDS - Fields left out of diffs (bookkeeping that changes on every write)
+ * @property {number} PAGE_SIZE - Default entries per page (50)
+ * @property {number} MAX_PAGE_SIZE - Maximum entries per page (200)
+ */
+export const AUDIT_LIMITS = {
+  IGNORED_FIELDS: ['id', 'dateCreated', 'dateModified', 'version'],
+  PAGE_SIZE: 50,
+  MAX_PAGE_SIZE: 200,
+} as const;
+
+/** Type representing the AUDIT_LIMITS constant */
+export type AuditLimitsType = typeof AUDIT_LIMITS;
@@ -0,0 +1,17 @@
+/**
+ * @summary
+ * Centralized exports for audit constants.
+ *
+ * @module constants/audit
+ */
+
+export {
+  AUDIT_ENTITIES,
+  AUDIT_ACTIONS,
+  AUDIT_LIMITS,
+  type AuditEntitiesType,
+  type AuditEntity,
+  type AuditActionsType,
+  type AuditAction,
+  type AuditLimitsType,
+} from './auditDefaults';
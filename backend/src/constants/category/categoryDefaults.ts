@@ -0,0 +1,42 @@
+/**
+ * @summary
+ * Default values and constants for Category entity.
+ * Provides validation limits and the categories seeded into an empty store.
+ *
+ * @module constants/category/categoryDefaults
+ */
+
+/**
+ * @interface CategoryLimitsType
+ * @description Validation constraints for Category entity fields.
+ *
+ * @property {number} NAME_MAX_LENGTH - Maximum characters for name field (60)
+ * @property {number} SLUG_MAX_LENGTH - Maximum characters for slug field (60)
+ * @property {number} MAX_DEPTH - Maximum nesting levels, counting the root (3)
+ */
+export const CATEGORY_LIMITS = {
+  NAME_MAX_LENGTH: 60,
+  SLUG_MAX_LENGTH: 60,
+  MAX_DEPTH: 3,
+} as const;
+
+/** Type representing the CATEGORY_LIMITS constant */
+export type CategoryLimitsType = typeof CATEGORY_LIMITS;
+
+/**
+ * @interface CategorySeedType
+ * @description Top-level furniture categories created when the category store is empty.
+ * Products saved before categories were managed reference these by name and are
+ * migrated to the matching slug.
+ */
+export const CATEGORY_SEED = [
+  { slug: 'sala-de-estar', name: 'Sala de estar' },
+  { slug: 'quarto', name: 'Quarto' },
+  { slug: 'cozinha', name: 'Cozinha' },
+  { slug: 'escritorio', name: 'Escritório' },
+  { slug: 'banheiro', name: 'Banheiro' },
+  { slug: 'area-externa', name: 'Área externa' },
+] as const;
+
+/** Type representing the CATEGORY_SEED constant */
+export type CategorySeedType = typeof CATEGORY_SEED;
@@ -0,0 +1,13 @@
+/**
+ * @summary
+ * Centralized exports for Category constants.
+ *
+ * @module constants/category
+ */
+
+export {
+  CATEGORY_LIMITS,
+  CATEGORY_SEED,
+  type CategoryLimitsType,
+  type CategorySeedType,
+} from './categoryDefaults';
@@ -24,10 +24,77 @@ export {
  */
 export {
   PRODUCT_DEFAULTS,
-  PRODUCT_CATEGORIES,
   PRODUCT_LIMITS,
+  PRODUCT_VARIANT_LIMITS,
+  PRODUCT_SEARCH,
+  PRODUCT_FACETS,
+  PRODUCT_IMPORT,
+  PRODUCT_EXPORT,
+  PRODUCT_IMAGE,
   type ProductDefaultsType,
-  type ProductCategoriesType,
   type ProductLimitsType,
-  type ProductCategory,
+  type ProductVariantLimitsType,
+  type ProductSearchType,
+  type ProductSearchField,
+  type ProductFacetsType,
+  type ProductImportType,
+  type ProductImportColumn,
+  type ProductImportFormat,
+  type ProductExportType,
+  type ProductExportFormat,
+  type ProductImageType,
+  type ProductImageVariant,
 } from './product';
+
+/**
+ * User constants
+ */
+export {
+  USER_ROLES,
+  USER_DEFAULTS,
+  USER_LIMITS,
+  type UserRolesType,
+  type UserRole,
+  type UserDefaultsType,
+  type UserLimitsType,
+} from './user';
+
+/**
+ * Category constants
+ */
+export {
+  CATEGORY_LIMITS,
+  CATEGORY_SEED,
+  type CategoryLimitsType,
+  type CategorySeedType,
+} from './category';
+
+/**
+ * Inventory constants
+ */
+export {
+  STOCK_LOCATION_TYPES,
+  STOCK_MOVEMENT_TYPES,
+  INVENTORY_LIMITS,
+  STOCK_LOCATION_SEED,
+  type StockLocationTypesType,
+  type StockLocationType,
+  type StockMovementTypesType,
+  type StockMovementType,
+  type InventoryLimitsType,
+  type StockLocationSeedType,
+} from './inventory';
+
+/**
+ * Audit constants
+ */
+export {
+  AUDIT_ENTITIES,
+  AUDIT_ACTIONS,
+  AUDIT_LIMITS,
+  type AuditEntitiesType,
+  type AuditEntity,
+  type AuditActionsType,
+  type AuditAction,
+  type AuditLimitsType,
+} from './audit';
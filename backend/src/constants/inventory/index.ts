@@ -0,0 +1,19 @@
+/**
+ * @summary
+ * Centralized exports for inventory constants.
+ *
+ * @module constants/inventory
+ */
+
+export {
+  STOCK_LOCATION_TYPES,
+  STOCK_MOVEMENT_TYPES,
+  INVENTORY_LIMITS,
+  STOCK_LOCATION_SEED,
+  type StockLocationTypesType,
+  type StockLocationType,
+  type StockMovementTypesType,
+  type StockMovementType,
+  type InventoryLimitsType,
+  type StockLocationSeedType,
+} from './inventoryDefaults';
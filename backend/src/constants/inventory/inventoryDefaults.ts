@@ -0,0 +1,81 @@
+/**
+ * @summary
+ * Default values and constants for inventory.
+ * Provides stock location and movement types, validation limits and the locations
+ * seeded into an empty store.
+ *
+ * @module constants/inventory/inventoryDefaults
+ */
+
+/**
+ * @interface StockLocationTypesType
+ * @description Kinds of places where stock is kept.
+ *
+ * @property {string} WAREHOUSE - Storage warehouse ('warehouse')
+ * @property {string} SHOWROOM - Store showroom ('showroom')
+ */
+export const STOCK_LOCATION_TYPES = {
+  WAREHOUSE: 'warehouse',
+  SHOWROOM: 'showroom',
+} as const;
+
+/** Type representing the STOCK_LOCATION_TYPES constant */
+export type StockLocationTypesType = typeof STOCK_LOCATION_TYPES;
+
+/** Union type of all valid location type values */
+export type StockLocationType = (typeof STOCK_LOCATION_TYPES)[keyof typeof STOCK_LOCATION_TYPES];
+
+/**
+ * @interface StockMovementTypesType
+ * @description Kinds of stock movements recorded in the ledger.
+ *
+ * @property {string} ENTRADA - Units received; quantity is added ('entrada')
+ * @property {string} SAIDA - Units shipped or sold; quantity is subtracted ('saida')
+ * @property {string} AJUSTE - Stock count; quantity becomes the new balance ('ajuste')
+ */
+export const STOCK_MOVEMENT_TYPES = {
+  ENTRADA: 'entrada',
+  SAIDA: 'saida',
+  AJUSTE: 'ajuste',
+} as const;
+
+/** Type representing the STOCK_MOVEMENT_TYPES constant */
+export type StockMovementTypesType = typeof STOCK_MOVEMENT_TYPES;
+
+/** Union type of all valid movement type values */
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[keyof typeof STOCK_MOVEMENT_TYPES];
+
+/**
+ * @interface InventoryLimitsType
+ * @description Validation constraints for inventory fields.
+ *
+ * @property {number} LOCATION_NAME_MAX_LENGTH - Maximum characters for a location name (60)
+ * @property {number} LOCATION_CODE_MAX_LENGTH - Maximum characters for a location code (30)
+ * @property {number} NOTE_MAX_LENGTH - Maximum characters for a movement note (200)
+ * @property {number} MAX_QUANTITY - Maximum units in a single movement (100000)
+ * @property {number} LEDGER_PAGE_SIZE - Default movements per ledger page (50)
+ * @property {number} LEDGER_MAX_PAGE_SIZE - Maximum movements per ledger page (200)
+ */
+export const INVENTORY_LIMITS = {
+  LOCATION_NAME_MAX_LENGTH: 60,
+  LOCATION_CODE_MAX_LENGTH: 30,
+  NOTE_MAX_LENGTH: 200,
+  MAX_QUANTITY: 100000,
+  LEDGER_PAGE_SIZE: 50,
+  LEDGER_MAX_PAGE_SIZE: 200,
+} as const;
+
+/** Type representing the INVENTORY_LIMITS constant */
+export type InventoryLimitsType = typeof INVENTORY_LIMITS;
+
+/**
+ * @interface StockLocationSeedType
+ * @description Locations created when the location store is empty.
+ */
+export const STOCK_LOCATION_SEED = [
+  { code: 'deposito', name: 'Depósito', type: STOCK_LOCATION_TYPES.WAREHOUSE },
+  { code: 'showroom', name: 'Showroom', type: STOCK_LOCATION_TYPES.SHOWROOM },
+] as const;
+
+/** Type representing the STOCK_LOCATION_SEED constant */
+export type StockLocationSeedType = typeof STOCK_LOCATION_SEED;
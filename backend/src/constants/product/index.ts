@@ -7,10 +7,24 @@
 
 export {
   PRODUCT_DEFAULTS,
-  PRODUCT_CATEGORIES,
   PRODUCT_LIMITS,
+  PRODUCT_VARIANT_LIMITS,
+  PRODUCT_SEARCH,
+  PRODUCT_FACETS,
+  PRODUCT_IMPORT,
+  PRODUCT_EXPORT,
+  PRODUCT_IMAGE,
   type ProductDefaultsType,
-  type ProductCategoriesType,
   type ProductLimitsType,
-  type ProductCategory,
+  type ProductVariantLimitsType,
+  type ProductSearchType,
+  type ProductSearchField,
+  type ProductFacetsType,
+  type ProductImportType,
+  type ProductImportColumn,
+  type ProductImportFormat,
+  type ProductExportType,
+  type ProductExportFormat,
+  type ProductImageType,
+  type ProductImageVariant,
 } from './productDefaults';
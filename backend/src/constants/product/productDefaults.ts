@@ -2,7 +2,7 @@
  * @summary
  * Default values and constants for Product entity.
  * Provides centralized configuration for product creation, validation limits,
- * and category definitions.
+ * search and facets.
  *
  * @module constants/product/productDefaults
  */
@@ -13,7 +13,7 @@
  *
  * @property {boolean} AVAILABLE - Default availability status for new products (true)
  * @property {boolean} FEATURED - Default featured status for new products (false)
- * @property {boolean} ON_SALE - Default on sale status for new products (false)
+ * @property {number} NEW_WINDOW_DAYS - Days a product is shown as "Novo" after its launch (30)
  * @property {number} MAX_RECORDS - Maximum number of products allowed in memory storage (10000)
  */
 export const PRODUCT_DEFAULTS = {
@@ -21,8 +21,8 @@ export const PRODUCT_DEFAULTS = {
   AVAILABLE: true,
   /** Default featured status for new products */
   FEATURED: false,
-  /** Default on sale status for new products */
-  ON_SALE: false,
+  /** Days a product counts as new, from its launch date (or creation) */
+  NEW_WINDOW_DAYS: 30,
   /** Maximum allowed products in memory */
   MAX_RECORDS: 10000,
 } as const;
@@ -30,32 +30,6 @@ export const PRODUCT_DEFAULTS = {
 /** Type representing the PRODUCT_DEFAULTS constant */
 export type ProductDefaultsType = typeof PRODUCT_DEFAULTS;
 
-/**
- * @interface ProductCategoriesType
- * @description Available product categories for furniture catalog.
- *
- * @property {string} LIVING_ROOM - Living room furniture category ('sala de estar')
- * @property {string} BEDROOM - Bedroom furniture category ('quarto')
- * @property {string} KITCHEN - Kitchen furniture category ('cozinha')
- * @property {string} OFFICE - Office furniture category ('escritório')
- * @property {string} BATHROOM - Bathroom furniture category ('banheiro')
- * @property {string} OUTDOOR - Outdoor furniture category ('área externa')
- */
-export const PRODUCT_CATEGORIES = {
-  LIVING_ROOM: 'sala de estar',
-  BEDROOM: 'quarto',
-  KITCHEN: 'cozinha',
-  OFFICE: 'escritório',
-  BATHROOM: 'banheiro',
-  OUTDOOR: 'área externa',
-} as const;
-
-/** Type representing the PRODUCT_CATEGORIES constant */
-export type ProductCategoriesType = typeof PRODUCT_CATEGORIES;
-
-/** Union type of all valid category values */
-export type ProductCategory = (typeof PRODUCT_CATEGORIES)[keyof typeof PRODUCT_CATEGORIES];
-
 /**
  * @interface ProductLimitsType
  * @description Validation constraints for Product entity fields.
@@ -64,6 +38,11 @@ export type ProductCategory = (typeof PRODUCT_CATEGORIES)[keyof typeof PRODUCT_C
  * @property {number} DESCRIPTION_MAX_LENGTH - Maximum characters for description field (500)
  * @property {number} SHORT_DESCRIPTION_MAX_LENGTH - Maximum characters for short description (150)
  * @property {number} DIMENSIONS_MAX_LENGTH - Maximum characters for dimensions field (50)
+ * @property {number} MEASUREMENT_MAX_CM - Maximum width, depth or height in centimetres (1000)
+ * @property {number} WEIGHT_MAX_KG - Maximum weight in kilograms (1000)
+ * @property {number} SALE_DISCOUNT_MIN_PERCENT - Minimum sale discount in percent (1)
+ * @property {number} SALE_DISCOUNT_MAX_PERCENT - Maximum sale discount in percent (90)
+ * @property {number} SEARCH_QUERY_MAX_LENGTH - Maximum characters for the search query (100)
  * @property {number} IMAGE_MAX_SIZE_MB - Maximum image file size in MB (2)
  * @property {number} IMAGE_MIN_WIDTH - Minimum image width in pixels (800)
  * @property {number} IMAGE_MIN_HEIGHT - Minimum image height in pixels (600)
@@ -73,6 +52,11 @@ export const PRODUCT_LIMITS = {
   DESCRIPTION_MAX_LENGTH: 500,
   SHORT_DESCRIPTION_MAX_LENGTH: 150,
   DIMENSIONS_MAX_LENGTH: 50,
+  MEASUREMENT_MAX_CM: 1000,
+  WEIGHT_MAX_KG: 1000,
+  SALE_DISCOUNT_MIN_PERCENT: 1,
+  SALE_DISCOUNT_MAX_PERCENT: 90,
+  SEARCH_QUERY_MAX_LENGTH: 100,
   IMAGE_MAX_SIZE_MB: 2,
   IMAGE_MIN_WIDTH: 800,
   IMAGE_MIN_HEIGHT: 600,
@@ -80,3 +64,180 @@ export const PRODUCT_LIMITS = {
 
 /** Type representing the PRODUCT_LIMITS constant */
 export type ProductLimitsType = typeof PRODUCT_LIMITS;
+
+/**
+ * @interface ProductVariantLimitsType
+ * @description Validation constraints for product options and variants.
+ *
+ * @property {number} MAX_OPTIONS - Maximum options per product, e.g. cor, tecido, acabamento (3)
+ * @property {number} MAX_OPTION_VALUES - Maximum values per option (20)
+ * @property {number} MAX_VARIANTS - Maximum variants per product (100)
+ * @property {number} OPTION_NAME_MAX_LENGTH - Maximum characters for an option name (30)
+ * @property {number} OPTION_VALUE_MAX_LENGTH - Maximum characters for an option value (40)
+ * @property {number} SKU_MAX_LENGTH - Maximum characters for a variant SKU (40)
+ * @property {RegExp} SKU_PATTERN - Allowed SKU characters
+ */
+export const PRODUCT_VARIANT_LIMITS = {
+  MAX_OPTIONS: 3,
+  MAX_OPTION_VALUES: 20,
+  MAX_VARIANTS: 100,
+  OPTION_NAME_MAX_LENGTH: 30,
+  OPTION_VALUE_MAX_LENGTH: 40,
+  SKU_MAX_LENGTH: 40,
+  SKU_PATTERN: /^[A-Za-z0-9._-]+$/,
+} as const;
+
+/** Type representing the PRODUCT_VARIANT_LIMITS constant */
+export type ProductVariantLimitsType = typeof PRODUCT_VARIANT_LIMITS;
+
+/**
+ * @interface ProductSearchType
+ * @description Full-text search tuning for the product catalog.
+ *
+ * @property {number} SNIPPET_LENGTH - Approximate length of highlighted snippets (120)
+ * @property {object} FIELD_WEIGHTS - Relevance weight of a match in each searchable field
+ */
+export const PRODUCT_SEARCH = {
+  SNIPPET_LENGTH: 120,
+  FIELD_WEIGHTS: {
+    name: 4,
+    shortDescription: 2,
+    description: 1,
+    dimensions: 1,
+  },
+} as const;
+
+/** Type representing the PRODUCT_SEARCH constant */
+export type ProductSearchType = typeof PRODUCT_SEARCH;
+
+/** Union type of all searchable product fields */
+export type ProductSearchField = keyof (typeof PRODUCT_SEARCH)['FIELD_WEIGHTS'];
+
+/**
+ * @interface ProductFacetsType
+ * @description Facet configuration for product listings.
+ *
+ * @property {number[]} PRICE_BUCKET_BOUNDARIES - Upper bounds of the price buckets; the last
+ * bucket starts at the highest boundary and has no upper bound
+ */
+export const PRODUCT_FACETS = {
+  PRICE_BUCKET_BOUNDARIES: [500, 1000, 2500, 5000, 10000],
+} as const;
+
+/** Type representing the PRODUCT_FACETS constant */
+export type ProductFacetsType = typeof PRODUCT_FACETS;
+
+/**
+ * @interface ProductImportType
+ * @description Spreadsheet import configuration.
+ *
+ * @property {number} MAX_FILE_SIZE_MB - Maximum uploaded file size in MB (5)
+ * @property {number} MAX_ROWS - Maximum product rows per file (1000)
+ * @property {string} LIST_SEPARATOR - Separator of list cells, e.g. image URLs ("|")
+ * @property {object} CONTENT_TYPES - Accepted content types and the format they carry
+ * @property {object} COLUMNS - Accepted column headers for each field, compared without
+ * accents, case, spaces or punctuation (so "Preço" and "preco" both map to price)
+ */
+export const PRODUCT_IMPORT = {
+  MAX_FILE_SIZE_MB: 5,
+  MAX_ROWS: 1000,
+  LIST_SEPARATOR: '|',
+  CONTENT_TYPES: {
+    'text/csv': 'csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  },
+  COLUMNS: {
+    externalSku: ['sku', 'externalsku', 'codigo', 'referencia'],
+    name: ['name', 'nome'],
+    description: ['description', 'descricao'],
+    shortDescription: ['shortdescription', 'descricaocurta', 'resumo'],
+    mainImage: ['mainimage', 'imagemprincipal', 'imagem'],
+    images: ['images', 'imagens'],
+    price: ['price', 'preco'],
+    category: ['category', 'categoria'],
+    dimensions: ['dimensions', 'dimensoes'],
+    width: ['width', 'largura'],
+    depth: ['depth', 'profundidade'],
+    height: ['height', 'altura'],
+    weight: ['weight', 'peso'],
+    featured: ['featured', 'destaque'],
+    available: ['available', 'disponivel'],
+    launchDate: ['launchdate', 'lancamento'],
+  },
+} as const;
+
+/** Type representing the PRODUCT_IMPORT constant */
+export type ProductImportType = typeof PRODUCT_IMPORT;
+
+/** Union type of all importable spreadsheet columns */
+export type ProductImportColumn = keyof (typeof PRODUCT_IMPORT)['COLUMNS'];
+
+/** Union type of the accepted spreadsheet formats */
+export type ProductImportFormat =
+  (typeof PRODUCT_IMPORT)['CONTENT_TYPES'][keyof (typeof PRODUCT_IMPORT)['CONTENT_TYPES']];
+
+/**
+ * @interface ProductExportType
+ * @description Catalog export configuration.
+ *
+ * @property {string} FILENAME_PREFIX - Start of the downloaded file name ("produtos")
+ * @property {object} CONTENT_TYPES - Content type of each export format
+ * @property {RegExp} FORMULA_PREFIX - Start of text spreadsheet apps run as a formula; such
+ * CSV cells are exported behind a quote, which the import removes
+ */
+export const PRODUCT_EXPORT = {
+  FILENAME_PREFIX: 'produtos',
+  FORMULA_PREFIX: /^[=+\-@\t\r]/,
+  CONTENT_TYPES: {
+    csv: 'text/csv; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    json: 'application/json; charset=utf-8',
+  },
+} as const;
+
+/** Type representing the PRODUCT_EXPORT constant */
+export type ProductExportType = typeof PRODUCT_EXPORT;
+
+/** Union type of the export formats */
+export type ProductExportFormat = keyof (typeof PRODUCT_EXPORT)['CONTENT_TYPES'];
+
+/**
+ * @interface ProductImageType
+ * @description Product image uploads. Files are checked against PRODUCT_LIMITS
+ * (IMAGE_MAX_SIZE_MB, IMAGE_MIN_WIDTH, IMAGE_MIN_HEIGHT) and stored as WebP renditions.
+ *
+ * @property {string} FIELD_NAME - Multipart field carrying the file ("image")
+ * @property {object} CONTENT_TYPES - Accepted content types and the format sharp reads from them
+ * @property {object} VARIANTS - Width in pixels of each rendition (never enlarged); the tiny
+ * placeholder is shown blurred while a larger one loads
+ * @property {number} WEBP_QUALITY - WebP encoding quality (80)
+ * @property {number} MAX_PIXELS - Largest image decoded, in pixels (40 million), so a small
+ * file cannot expand into a huge bitmap
+ * @property {string} DIRECTORY - Subdirectory of the uploads directory holding product images
+ * @property {number} CACHE_MAX_AGE_DAYS - Browser cache lifetime of a rendition (365); a
+ * stored file never changes, every upload gets a new id
+ */
+export const PRODUCT_IMAGE = {
+  FIELD_NAME: 'image',
+  CONTENT_TYPES: {
+    'image/jpeg': 'jpeg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+  },
+  VARIANTS: {
+    placeholder: 24,
+    thumbnail: 320,
+    medium: 800,
+    large: 1600,
+  },
+  WEBP_QUALITY: 80,
+  MAX_PIXELS: 40000000,
+  DIRECTORY: 'products',
+  CACHE_MAX_AGE_DAYS: 365,
+} as const;
+
+/** Type representing the PRODUCT_IMAGE constant */
+export type ProductImageType = typeof PRODUCT_IMAGE;
+
+/** Union type of the stored image renditions */
+export type ProductImageVariant = keyof (typeof PRODUCT_IMAGE)['VARIANTS'];
@@ -0,0 +1,16 @@
+/**
+ * @summary
+ * Centralized exports for User constants.
+ *
+ * @module constants/user
+ */
+
+export {
+  USER_ROLES,
+  USER_DEFAULTS,
+  USER_LIMITS,
+  type UserRolesType,
+  type UserRole,
+  type UserDefaultsType,
+  type UserLimitsType,
+} from './userDefaults';
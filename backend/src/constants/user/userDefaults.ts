@@ -0,0 +1,61 @@
+/**
+ * @summary
+ * Default values and constants for User entity.
+ * Provides centralized configuration for roles, validation limits and token lifetimes.
+ *
+ * @module constants/user/userDefaults
+ */
+
+/**
+ * @interface UserRolesType
+ * @description Roles that can be assigned to user accounts.
+ *
+ * @property {string} ADMIN - Full access, including user management and product deletion ('admin')
+ * @property {string} EDITOR - Can create and update products ('editor')
+ * @property {string} VIEWER - Read-only access to internal endpoints ('viewer')
+ */
+export const USER_ROLES = {
+  ADMIN: 'admin',
+  EDITOR: 'editor',
+  VIEWER: 'viewer',
+} as const;
+
+/** Type representing the USER_ROLES constant */
+export type UserRolesType = typeof USER_ROLES;
+
+/** Union type of all valid role values */
+export type UserRole = (typeof USER_ROLES)[keyof typeof USER_ROLES];
+
+/**
+ * @interface UserDefaultsType
+ * @description Default configuration values applied when creating new User entities.
+ *
+ * @property {UserRole} ROLE - Default role for new users ('viewer')
+ */
+export const USER_DEFAULTS = {
+  /** Default role for new users */
+  ROLE: USER_ROLES.VIEWER,
+} as const;
+
+/** Type representing the USER_DEFAULTS constant */
+export type UserDefaultsType = typeof USER_DEFAULTS;
+
+/**
+ * @interface UserLimitsType
+ * @description Validation constraints for User entity fields.
+ *
+ * @property {number} NAME_MAX_LENGTH - Maximum characters for name field (100)
+ * @property {number} EMAIL_MAX_LENGTH - Maximum characters for email field (254)
+ * @property {number} PASSWORD_MIN_LENGTH - Minimum characters for password (8)
+ * @property {number} PASSWORD_MAX_LENGTH - Maximum characters for password; bcrypt ignores
+ * anything past 72 bytes (72)
+ */
+export const USER_LIMITS = {
+  NAME_MAX_LENGTH: 100,
+  EMAIL_MAX_LENGTH: 254,
+  PASSWORD_MIN_LENGTH: 8,
+  PASSWORD_MAX_LENGTH: 72,
+} as const;
+
+/** Type representing the USER_LIMITS constant */
+export type UserLimitsType = typeof USER_LIMITS;
@@ -0,0 +1,70 @@
+/**
+ * @summary
+ * Store instance for the audit log. Entries are append-only.
+ *
+ * @module instances/audit/auditEntryStore
+ */
+
+import { AuditAction, AuditEntity } from '@/constants/audit';
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Field change record structure (values as stored, null when absent)
+ */
+export interface AuditChangeRecord {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit entry record structure
+ *
+ * `label` is the entity name when the entry was recorded; `userId` is null for changes made
+ * by the system (e.g. the trash purge job).
+ */
+export interface AuditEntryRecord {
+  id: number;
+  entity: AuditEntity;
+  entityId: number;
+  label: string;
+  action: AuditAction;
+  changes: AuditChangeRecord[];
+  userId: number | null;
+  dateCreated: string;
+}
+
+/**
+ * Store for audit entry records, persisted through the configured repository
+ */
+class AuditEntryStore {
+  constructor(private readonly repository: RecordRepository<AuditEntryRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): AuditEntryRecord[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Append an entry to the log
+   */
+  add(record: AuditEntryRecord): AuditEntryRecord {
+    return this.repository.add(record);
+  }
+}
+
+/**
+ * Singleton instance of AuditEntryStore
+ */
+export const auditEntryStore = new AuditEntryStore(
+  createRepository<AuditEntryRecord>('audit-entries')
+);
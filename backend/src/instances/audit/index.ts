@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for audit instances.
+ *
+ * @module instances/audit
+ */
+
+export { auditEntryStore, type AuditEntryRecord, type AuditChangeRecord } from './auditEntryStore';
@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for Auth instances.
+ *
+ * @module instances/auth
+ */
+
+export { refreshTokenStore, type RefreshTokenRecord } from './refreshTokenStore';
@@ -0,0 +1,82 @@
+/**
+ * @summary
+ * Store instance for refresh tokens.
+ * Only a SHA-256 hash of each token is kept, so a leaked store cannot be replayed.
+ *
+ * @module instances/auth/refreshTokenStore
+ */
+
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Refresh token record structure
+ */
+export interface RefreshTokenRecord {
+  id: number;
+  userId: number;
+  tokenHash: string;
+  expiresAt: string;
+  dateCreated: string;
+}
+
+/**
+ * Store for refresh token records, persisted through the configured repository
+ */
+class RefreshTokenStore {
+  constructor(private readonly repository: RecordRepository<RefreshTokenRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get record by token hash
+   */
+  getByHash(tokenHash: string): RefreshTokenRecord | undefined {
+    return this.repository.getAll().find((token) => token.tokenHash === tokenHash);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: RefreshTokenRecord): RefreshTokenRecord {
+    return this.repository.add(record);
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Delete all tokens of a user (e.g. when the account is removed)
+   */
+  deleteByUser(userId: number): void {
+    this.repository
+      .getAll()
+      .filter((token) => token.userId === userId)
+      .forEach((token) => this.repository.delete(token.id));
+  }
+
+  /**
+   * Delete tokens past their expiry date
+   */
+  deleteExpired(now: Date = new Date()): void {
+    this.repository
+      .getAll()
+      .filter((token) => new Date(token.expiresAt) <= now)
+      .forEach((token) => this.repository.delete(token.id));
+  }
+}
+
+/**
+ * Singleton instance of RefreshTokenStore
+ */
+export const refreshTokenStore = new RefreshTokenStore(
+  createRepository<RefreshTokenRecord>('refresh-tokens')
+);
@@ -0,0 +1,13 @@
+/**
+ * @summary
+ * Centralized exports for Cache instances.
+ *
+ * @module instances/cache
+ */
+
+export {
+  ResponseCache,
+  productCache,
+  type CacheEntry,
+  type CacheSetOptions,
+} from './responseCache';
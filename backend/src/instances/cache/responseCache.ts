@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * In-memory cache for computed API responses, with the validators used to answer
+ * conditional GETs (ETag and Last-Modified).
+ * Entries expire after config.cache.ttl seconds (or earlier, when asked to) and expired
+ * entries are swept every config.cache.checkPeriod seconds.
+ *
+ * @module instances/cache/responseCache
+ */
+
+import { config } from '@/config';
+import { contentEtag } from '@/utils/etag';
+
+/**
+ * Cached response with its validators
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** Strong entity tag of the value */
+  etag: string;
+  lastModified: Date;
+  /** Epoch milliseconds */
+  expiresAt: number;
+}
+
+/**
+ * Options for storing an entry
+ */
+export interface CacheSetOptions {
+  /** Data change the value reflects; defaults to the last invalidation */
+  lastModified?: Date;
+  /** Expire before the TTL (epoch milliseconds), e.g. when the value depends on the time */
+  expiresAt?: number;
+}
+
+/**
+ * Response cache with TTL, a bounded number of entries and whole-cache invalidation.
+ * A TTL of 0 disables caching: nothing is stored, but validators are still computed.
+ */
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private modifiedAt = new Date();
+
+  constructor(
+    private readonly ttlSeconds: number,
+    checkPeriodSeconds: number,
+    private readonly maxEntries: number
+  ) {
+    if (ttlSeconds > 0 && checkPeriodSeconds > 0) {
+      // Do not keep the process alive just for the sweep
+      setInterval(() => this.prune(), checkPeriodSeconds * 1000).unref();
+    }
+  }
+
+  /**
+   * When the cached data last changed (the last invalidation, or startup)
+   */
+  get lastModified(): Date {
+    return this.modifiedAt;
+  }
+
+  /**
+   * Get a live entry
+   */
+  get<T>(key: string, now: number = Date.now()): CacheEntry<T> | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= now) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry as CacheEntry<T>;
+  }
+
+  /**
+   * Store a value, evicting the oldest entry when full
+   */
+  set<T>(key: string, value: T, options: CacheSetOptions = {}): CacheEntry<T> {
+    const ttlExpiry = Date.now() + this.ttlSeconds * 1000;
+    const entry: CacheEntry<T> = {
+      value,
+      etag: contentEtag(value),
+      lastModified: options.lastModified ?? this.modifiedAt,
+      expiresAt: Math.min(ttlExpiry, options.expiresAt ?? ttlExpiry),
+    };
+
+    if (this.ttlSeconds <= 0) return entry;
+
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) this.entries.delete(oldest.value);
+    }
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  /**
+   * Drop every entry after the underlying data changed
+   */
+  invalidate(): void {
+    this.entries.clear();
+    this.modifiedAt = new Date();
+  }
+
+  /**
+   * Drop expired entries
+   */
+  prune(now: number = Date.now()): void {
+    this.entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    });
+  }
+}
+
+/**
+ * Cache of product listings and details (internal and catalog). Invalidated by every write
+ * to the product and category stores.
+ */
+export const productCache = new ResponseCache(
+  config.cache.ttl,
+  config.cache.checkPeriod,
+  config.cache.maxEntries
+);
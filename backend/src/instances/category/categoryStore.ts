@@ -0,0 +1,98 @@
+/**
+ * @summary
+ * Store instance for Category entity.
+ * Provides singleton pattern over the configured storage repository
+ * (in-memory or file-backed, see config.storage).
+ *
+ * @module instances/category/categoryStore
+ */
+
+import { productCache } from '@/instances/cache';
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Category record structure
+ */
+export interface CategoryRecord {
+  id: number;
+  slug: string;
+  name: string;
+  parentId: number | null;
+  order: number;
+  image: string | null;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for Category records, persisted through the configured repository.
+ * Product responses embed category names and trails, so every write invalidates the
+ * product response cache.
+ */
+class CategoryStore {
+  constructor(private readonly repository: RecordRepository<CategoryRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): CategoryRecord[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): CategoryRecord | undefined {
+    return this.repository.getById(id);
+  }
+
+  /**
+   * Get record by slug
+   */
+  getBySlug(slug: string): CategoryRecord | undefined {
+    return this.repository.getAll().find((category) => category.slug === slug);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: CategoryRecord): CategoryRecord {
+    productCache.invalidate();
+    return this.repository.add(record);
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<CategoryRecord>): CategoryRecord | undefined {
+    productCache.invalidate();
+    return this.repository.update(id, data);
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    productCache.invalidate();
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.repository.count();
+  }
+}
+
+/**
+ * Singleton instance of CategoryStore
+ */
+export const categoryStore = new CategoryStore(createRepository<CategoryRecord>('categories'));
@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for Category instances.
+ *
+ * @module instances/category
+ */
+
+export { categoryStore, type CategoryRecord } from './categoryStore';
@@ -6,6 +6,18 @@
  * @module instances
  */
 
+/**
+ * Storage instances
+ */
+export {
+  createRepository,
+  MemoryRepository,
+  FileRepository,
+  type RecordRepository,
+  type StorageRecord,
+  type StorageDriver,
+} from './storage';
+
 /**
  * InitExample instances
  */
@@ -14,4 +26,53 @@ export { initExampleStore, type InitExampleRecord } from './initExample';
 /**
  * Product instances
  */
-export { productStore, type ProductRecord } from './product';
+export {
+  productStore,
+  type ProductRecord,
+  type ProductOptionRecord,
+  type ProductVariantRecord,
+  type ProductMeasurementsRecord,
+  type ProductSaleRecord,
+  priceChangeStore,
+  type PriceChangeRecord,
+  productImageStore,
+  type ProductImageRecord,
+  type ProductImageSizeRecord,
+} from './product';
+
+/**
+ * Category instances
+ */
+export { categoryStore, type CategoryRecord } from './category';
+
+/**
+ * User instances
+ */
+export { userStore, type UserRecord } from './user';
+
+/**
+ * Auth instances
+ */
+export { refreshTokenStore, type RefreshTokenRecord } from './auth';
+
+/**
+ * Inventory instances
+ */
+export {
+  stockLocationStore,
+  stockLevelStore,
+  stockMovementStore,
+  type StockLocationRecord,
+  type StockLevelRecord,
+  type StockMovementRecord,
+} from './inventory';
+
+/**
+ * Cache instances
+ */
+export { ResponseCache, productCache, type CacheEntry, type CacheSetOptions } from './cache';
+
+/**
+ * Audit instances
+ */
+export { auditEntryStore, type AuditEntryRecord, type AuditChangeRecord } from './audit';
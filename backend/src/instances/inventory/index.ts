@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for inventory instances.
+ *
+ * @module instances/inventory
+ */
+
+export { stockLocationStore, type StockLocationRecord } from './stockLocationStore';
+export { stockLevelStore, type StockLevelRecord } from './stockLevelStore';
+export { stockMovementStore, type StockMovementRecord } from './stockMovementStore';
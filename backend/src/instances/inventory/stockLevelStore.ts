@@ -0,0 +1,95 @@
+/**
+ * @summary
+ * Store instance for stock levels: the current quantity of a product (or one of its
+ * variants) at a location. Levels are kept in step with the movement ledger.
+ *
+ * @module instances/inventory/stockLevelStore
+ */
+
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Stock level record structure (sku is null for products without variants)
+ */
+export interface StockLevelRecord {
+  id: number;
+  productId: number;
+  sku: string | null;
+  locationId: number;
+  quantity: number;
+  dateModified: string;
+}
+
+/**
+ * Comparison key of a SKU; SKUs are matched case-insensitively
+ */
+const skuKey = (sku: string | null) => sku?.toLowerCase() ?? null;
+
+/**
+ * Store for stock level records, persisted through the configured repository
+ */
+class StockLevelStore {
+  constructor(private readonly repository: RecordRepository<StockLevelRecord>) {}
+
+  /**
+   * Get the level of a product/variant at a location
+   */
+  find(productId: number, sku: string | null, locationId: number): StockLevelRecord | undefined {
+    return this.repository
+      .getAll()
+      .find(
+        (level) =>
+          level.productId === productId &&
+          skuKey(level.sku) === skuKey(sku) &&
+          level.locationId === locationId
+      );
+  }
+
+  /**
+   * Get all levels of a product, across variants and locations
+   */
+  getByProduct(productId: number): StockLevelRecord[] {
+    return this.repository.getAll().filter((level) => level.productId === productId);
+  }
+
+  /**
+   * Set the quantity of a product/variant at a location, creating the level if needed
+   */
+  set(
+    productId: number,
+    sku: string | null,
+    locationId: number,
+    quantity: number
+  ): StockLevelRecord {
+    const now = new Date().toISOString();
+    const existing = this.find(productId, sku, locationId);
+
+    if (existing) {
+      return this.repository.update(existing.id, { quantity, dateModified: now })!;
+    }
+    return this.repository.add({
+      id: this.repository.nextId(),
+      productId,
+      sku,
+      locationId,
+      quantity,
+      dateModified: now,
+    });
+  }
+
+  /**
+   * Delete all levels of a product
+   */
+  deleteByProduct(productId: number): number {
+    const levels = this.getByProduct(productId);
+    levels.forEach((level) => this.repository.delete(level.id));
+    return levels.length;
+  }
+}
+
+/**
+ * Singleton instance of StockLevelStore
+ */
+export const stockLevelStore = new StockLevelStore(
+  createRepository<StockLevelRecord>('stock-levels')
+);
@@ -0,0 +1,93 @@
+/**
+ * @summary
+ * Store instance for stock locations (warehouses and showrooms).
+ * Provides singleton pattern over the configured storage repository
+ * (in-memory or file-backed, see config.storage).
+ *
+ * @module instances/inventory/stockLocationStore
+ */
+
+import { StockLocationType } from '@/constants/inventory';
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Stock location record structure
+ */
+export interface StockLocationRecord {
+  id: number;
+  code: string;
+  name: string;
+  type: StockLocationType;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for stock location records, persisted through the configured repository
+ */
+class StockLocationStore {
+  constructor(private readonly repository: RecordRepository<StockLocationRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): StockLocationRecord[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): StockLocationRecord | undefined {
+    return this.repository.getById(id);
+  }
+
+  /**
+   * Get record by code
+   */
+  getByCode(code: string): StockLocationRecord | undefined {
+    return this.repository.getAll().find((location) => location.code === code);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: StockLocationRecord): StockLocationRecord {
+    return this.repository.add(record);
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<StockLocationRecord>): StockLocationRecord | undefined {
+    return this.repository.update(id, data);
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.repository.count();
+  }
+}
+
+/**
+ * Singleton instance of StockLocationStore
+ */
+export const stockLocationStore = new StockLocationStore(
+  createRepository<StockLocationRecord>('stock-locations')
+);
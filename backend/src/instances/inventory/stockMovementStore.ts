@@ -0,0 +1,71 @@
+/**
+ * @summary
+ * Store instance for the stock movement ledger. Movements are append-only.
+ *
+ * @module instances/inventory/stockMovementStore
+ */
+
+import { StockMovementType } from '@/constants/inventory';
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Stock movement record structure
+ *
+ * `quantity` is the value sent with the movement (units moved, or the counted balance for
+ * an ajuste); `delta` is the resulting change and `balance` the level afterwards.
+ */
+export interface StockMovementRecord {
+  id: number;
+  productId: number;
+  sku: string | null;
+  locationId: number;
+  type: StockMovementType;
+  quantity: number;
+  delta: number;
+  balance: number;
+  note: string | null;
+  userId: number | null;
+  dateCreated: string;
+}
+
+/**
+ * Store for stock movement records, persisted through the configured repository
+ */
+class StockMovementStore {
+  constructor(private readonly repository: RecordRepository<StockMovementRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): StockMovementRecord[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Append a movement to the ledger
+   */
+  add(record: StockMovementRecord): StockMovementRecord {
+    return this.repository.add(record);
+  }
+
+  /**
+   * Check whether any movement references a location
+   */
+  hasLocation(locationId: number): boolean {
+    return this.repository.getAll().some((movement) => movement.locationId === locationId);
+  }
+}
+
+/**
+ * Singleton instance of StockMovementStore
+ */
+export const stockMovementStore = new StockMovementStore(
+  createRepository<StockMovementRecord>('stock-movements')
+);
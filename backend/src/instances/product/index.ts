@@ -5,4 +5,17 @@
  * @module instances/product
  */
 
-export { productStore, type ProductRecord } from './productStore';
+export {
+  productStore,
+  type ProductRecord,
+  type ProductOptionRecord,
+  type ProductVariantRecord,
+  type ProductMeasurementsRecord,
+  type ProductSaleRecord,
+} from './productStore';
+export { priceChangeStore, type PriceChangeRecord } from './priceChangeStore';
+export {
+  productImageStore,
+  type ProductImageRecord,
+  type ProductImageSizeRecord,
+} from './productImageStore';
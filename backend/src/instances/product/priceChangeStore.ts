@@ -0,0 +1,62 @@
+/**
+ * @summary
+ * Store instance for the product price history. Price changes are append-only.
+ *
+ * @module instances/product/priceChangeStore
+ */
+
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Price change record structure
+ *
+ * `sku` is null for the product price and set for a variant price; `oldPrice` is null when
+ * the price was first set (and either price is null for "Sob consulta").
+ */
+export interface PriceChangeRecord {
+  id: number;
+  productId: number;
+  sku: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  userId: number | null;
+  dateCreated: string;
+}
+
+/**
+ * Store for price change records, persisted through the configured repository
+ */
+class PriceChangeStore {
+  constructor(private readonly repository: RecordRepository<PriceChangeRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get the changes of a product, oldest first
+   */
+  getByProduct(productId: number): PriceChangeRecord[] {
+    return this.repository
+      .getAll()
+      .filter((change) => change.productId === productId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  /**
+   * Append a change to the history
+   */
+  add(record: PriceChangeRecord): PriceChangeRecord {
+    return this.repository.add(record);
+  }
+}
+
+/**
+ * Singleton instance of PriceChangeStore
+ */
+export const priceChangeStore = new PriceChangeStore(
+  createRepository<PriceChangeRecord>('price-changes')
+);
@@ -0,0 +1,76 @@
+/**
+ * @summary
+ * Store instance for uploaded product images: the size of each stored rendition, so
+ * listings can describe the renditions without reading the files.
+ *
+ * @module instances/product/productImageStore
+ */
+
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * Pixel size of a stored rendition
+ */
+export interface ProductImageSizeRecord {
+  width: number;
+  height: number;
+}
+
+/**
+ * Product image record structure
+ *
+ * `imageId` names the upload directory (a random UUID); `variants` holds the size of each
+ * rendition written to it, keyed by variant name.
+ */
+export interface ProductImageRecord {
+  id: number;
+  imageId: string;
+  width: number;
+  height: number;
+  variants: Record<string, ProductImageSizeRecord>;
+  dateCreated: string;
+}
+
+/**
+ * Store for product image records, persisted through the configured repository
+ */
+class ProductImageStore {
+  constructor(private readonly repository: RecordRepository<ProductImageRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get the record of an upload directory
+   */
+  getByImageId(imageId: string): ProductImageRecord | undefined {
+    return this.repository.getAll().find((image) => image.imageId === imageId);
+  }
+
+  /**
+   * Add a new image record
+   */
+  add(record: ProductImageRecord): ProductImageRecord {
+    return this.repository.add(record);
+  }
+
+  /**
+   * Delete the records of removed upload directories
+   */
+  deleteByImageIds(imageIds: string[]): number {
+    const removed = this.repository.getAll().filter((image) => imageIds.includes(image.imageId));
+    removed.forEach((image) => this.repository.delete(image.id));
+    return removed.length;
+  }
+}
+
+/**
+ * Singleton instance of ProductImageStore
+ */
+export const productImageStore = new ProductImageStore(
+  createRepository<ProductImageRecord>('product-images')
+);
@@ -1,18 +1,62 @@
 /**
  * @summary
- * In-memory store instance for Product entity.
- * Provides singleton pattern for data storage without database.
+ * Store instance for Product entity.
+ * Provides singleton pattern over the configured storage repository
+ * (in-memory or file-backed, see config.storage).
  *
  * @module instances/product/productStore
  */
 
 import { PRODUCT_DEFAULTS } from '@/constants/product';
+import { productCache } from '@/instances/cache';
+import { createRepository, RecordRepository } from '@/instances/storage';
 
 /**
- * Product record structure
+ * Product option record structure
+ */
+export interface ProductOptionRecord {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Product variant record structure
+ */
+export interface ProductVariantRecord {
+  sku: string;
+  options: Record<string, string>;
+  price: number | null;
+  images: string[];
+  available: boolean;
+}
+
+/**
+ * Product measurements record structure (centimetres and kilograms)
+ */
+export interface ProductMeasurementsRecord {
+  width: number;
+  depth: number;
+  height: number;
+  weight: number | null;
+}
+
+/**
+ * Product sale record structure (open-ended when a date is null)
+ */
+export interface ProductSaleRecord {
+  discountPercent: number;
+  startsAt: string | null;
+  endsAt: string | null;
+}
+
+/**
+ * Product record structure. Prices are the regular prices; sale prices and newness
+ * are derived when the product is read.
  */
 export interface ProductRecord {
   id: number;
+  /** Supplier SKU identifying the product in spreadsheet imports; unique when set */
+  externalSku: string | null;
   name: string;
   description: string | null;
   mainImage: string;
@@ -21,98 +65,172 @@ export interface ProductRecord {
   category: string;
   shortDescription: string | null;
   dimensions: string | null;
+  measurements: ProductMeasurementsRecord | null;
   featured: boolean;
-  isNew: boolean;
-  onSale: boolean;
+  /** Start of the "Novo" window; null counts from dateCreated */
+  launchDate: string | null;
+  sale: ProductSaleRecord | null;
   available: boolean;
+  options: ProductOptionRecord[];
+  variants: ProductVariantRecord[];
+  /** Units on hand across locations; null while the product's stock is not tracked */
+  stockQuantity: number | null;
   dateCreated: string;
   dateModified: string;
+  /** Set while the product is in the trash */
+  deletedAt: string | null;
+  deletedBy: number | null;
+  /** Incremented on every change made through the product service; the ETag of the product */
+  version: number;
+}
+
+/**
+ * Fills fields missing from records persisted before they existed
+ */
+function withDefaults(record: ProductRecord): ProductRecord {
+  return {
+    ...record,
+    externalSku: record.externalSku ?? null,
+    options: record.options ?? [],
+    variants: record.variants ?? [],
+    measurements: record.measurements ?? null,
+    sale: record.sale ?? null,
+    launchDate: record.launchDate ?? null,
+    stockQuantity: record.stockQuantity ?? null,
+    deletedAt: record.deletedAt ?? null,
+    deletedBy: record.deletedBy ?? null,
+    version: record.version ?? 1,
+  };
 }
 
+const isLive = (record: ProductRecord) => record.deletedAt === null;
+
 /**
- * In-memory store for Product records
+ * Store for Product records, persisted through the configured repository.
+ * Products in the trash (deletedAt set) are left out of the regular reads.
+ * Every write invalidates the product response cache.
  */
 class ProductStore {
-  private records: Map<number, ProductRecord> = new Map();
-  private currentId: number = 0;
+  constructor(private readonly repository: RecordRepository<ProductRecord>) {}
 
   /**
    * Get next available ID
    */
   getNextId(): number {
-    this.currentId += 1;
-    return this.currentId;
+    return this.repository.nextId();
   }
 
   /**
-   * Get all records
+   * Get all records outside the trash
    */
   getAll(): ProductRecord[] {
-    return Array.from(this.records.values());
+    return this.getAllIncludingDeleted().filter(isLive);
+  }
+
+  /**
+   * Get all records, trash included
+   */
+  getAllIncludingDeleted(): ProductRecord[] {
+    return this.repository.getAll().map(withDefaults);
   }
 
   /**
-   * Get record by ID
+   * Get the records in the trash
+   */
+  getDeleted(): ProductRecord[] {
+    return this.getAllIncludingDeleted().filter((record) => !isLive(record));
+  }
+
+  /**
+   * Get record by ID (not in the trash)
    */
   getById(id: number): ProductRecord | undefined {
-    return this.records.get(id);
+    const record = this.getByIdIncludingDeleted(id);
+    return record && isLive(record) ? record : undefined;
+  }
+
+  /**
+   * Get record by ID, trash included
+   */
+  getByIdIncludingDeleted(id: number): ProductRecord | undefined {
+    const record = this.repository.getById(id);
+    return record && withDefaults(record);
+  }
+
+  /**
+   * Get the record owning a variant SKU (case-insensitive, trash included so SKUs stay
+   * unique when a product is restored)
+   */
+  getByVariantSku(sku: string): ProductRecord | undefined {
+    const normalized = sku.toLowerCase();
+    return this.getAllIncludingDeleted().find((record) =>
+      record.variants.some((variant) => variant.sku.toLowerCase() === normalized)
+    );
+  }
+
+  /**
+   * Get the record with an external SKU (case-insensitive, trash included)
+   */
+  getByExternalSku(sku: string): ProductRecord | undefined {
+    const normalized = sku.toLowerCase();
+    return this.getAllIncludingDeleted().find(
+      (record) => record.externalSku?.toLowerCase() === normalized
+    );
   }
 
   /**
    * Add new record
    */
   add(record: ProductRecord): ProductRecord {
-    if (this.records.size >= PRODUCT_DEFAULTS.MAX_RECORDS) {
+    if (this.repository.count() >= PRODUCT_DEFAULTS.MAX_RECORDS) {
       throw new Error('Maximum products limit reached');
     }
-    this.records.set(record.id, record);
-    return record;
+    productCache.invalidate();
+    return this.repository.add(record);
   }
 
   /**
    * Update existing record
    */
   update(id: number, data: Partial<ProductRecord>): ProductRecord | undefined {
-    const existing = this.records.get(id);
-    if (!existing) {
-      return undefined;
-    }
-    const updated = { ...existing, ...data };
-    this.records.set(id, updated);
-    return updated;
+    productCache.invalidate();
+    const record = this.repository.update(id, data);
+    return record && withDefaults(record);
   }
 
   /**
-   * Delete record by ID
+   * Permanently delete record by ID (see the service for moving to the trash)
    */
   delete(id: number): boolean {
-    return this.records.delete(id);
+    productCache.invalidate();
+    return this.repository.delete(id);
   }
 
   /**
-   * Check if record exists
+   * Check if record exists outside the trash
    */
   exists(id: number): boolean {
-    return this.records.has(id);
+    return this.getById(id) !== undefined;
   }
 
   /**
-   * Get total count of records
+   * Get total count of records, trash included
    */
   count(): number {
-    return this.records.size;
+    return this.repository.count();
   }
 
   /**
-   * Clear all records (useful for testing)
+   * Clear all records (useful for testing).
+   * The id sequence is kept so ids are never reused.
    */
   clear(): void {
-    this.records.clear();
-    this.currentId = 0;
+    productCache.invalidate();
+    this.repository.clear();
   }
 }
 
 /**
  * Singleton instance of ProductStore
  */
-export const productStore = new ProductStore();
+export const productStore = new ProductStore(createRepository<ProductRecord>('products'));
@@ -0,0 +1,160 @@
+/**
+ * @summary
+ * JSON file repository implementation.
+ * Keeps a working copy in memory and persists every mutation to disk
+ * using an atomic write (temporary file + fsync + rename).
+ *
+ * @module instances/storage/fileRepository
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { RecordRepository, StorageRecord } from './storageTypes';
+
+/**
+ * @interface FileSnapshot
+ * @description On-disk layout of a repository file
+ */
+interface FileSnapshot<T> {
+  sequence: number;
+  records: T[];
+}
+
+/**
+ * File-backed repository storing one JSON document per entity
+ */
+export class FileRepository<T extends StorageRecord> implements RecordRepository<T> {
+  private records: Map<number, T> = new Map();
+  private sequence: number = 0;
+  private readonly filePath: string;
+
+  constructor(name: string, dataDir: string) {
+    this.filePath = path.resolve(dataDir, `${name}.json`);
+    this.load();
+  }
+
+  /**
+   * Get next available ID
+   */
+  nextId(): number {
+    this.sequence += 1;
+    this.persist();
+    return this.sequence;
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): T | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: T): T {
+    this.records.set(record.id, record);
+    this.sequence = Math.max(this.sequence, record.id);
+    this.persist();
+    return record;
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<T>): T | undefined {
+    const existing = this.records.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...data };
+    this.records.set(id, updated);
+    this.persist();
+    return updated;
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    const deleted = this.records.delete(id);
+    if (deleted) {
+      this.persist();
+    }
+    return deleted;
+  }
+
+  /**
+   * Check if record exists
+   */
+  exists(id: number): boolean {
+    return this.records.has(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Clear all records, keeping the id sequence
+   */
+  clear(): void {
+    this.records.clear();
+    this.persist();
+  }
+
+  /**
+   * Loads the snapshot from disk, if one exists
+   */
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const snapshot: FileSnapshot<T> = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+
+    for (const record of snapshot.records) {
+      this.records.set(record.id, record);
+    }
+
+    /**
+     * @rule {BR-030}
+     * Never hand out an id lower than one already persisted
+     */
+    const highestId = snapshot.records.reduce((max, record) => Math.max(max, record.id), 0);
+    this.sequence = Math.max(snapshot.sequence ?? 0, highestId);
+  }
+
+  /**
+   * Writes the snapshot atomically so a crash never leaves a truncated file
+   */
+  private persist(): void {
+    const snapshot: FileSnapshot<T> = {
+      sequence: this.sequence,
+      records: this.getAll(),
+    };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+    const fd = fs.openSync(tempPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(snapshot));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    fs.renameSync(tempPath, this.filePath);
+  }
+}
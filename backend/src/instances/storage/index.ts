@@ -0,0 +1,43 @@
+/**
+ * @summary
+ * Storage layer entry point.
+ * Selects the repository implementation configured in config.storage.driver.
+ *
+ * @module instances/storage
+ */
+
+import { config } from '@/config';
+import { FileRepository } from './fileRepository';
+import { MemoryRepository } from './memoryRepository';
+import { RecordRepository, StorageRecord } from './storageTypes';
+
+export { MemoryRepository } from './memoryRepository';
+export { FileRepository } from './fileRepository';
+export type { RecordRepository, StorageRecord } from './storageTypes';
+export type { StorageDriver } from '@/config';
+
+/**
+ * @summary
+ * Creates a repository for the given entity using the configured driver.
+ *
+ * @function createRepository
+ * @module instances/storage
+ *
+ * @param {string} name - Entity collection name (used as file name by the file driver)
+ * @returns {RecordRepository<T>} Repository instance
+ *
+ * @throws {Error} When config.storage.driver is not a known driver
+ *
+ * @example
+ * const repository = createRepository<ProductRecord>('products');
+ */
+export function createRepository<T extends StorageRecord>(name: string): RecordRepository<T> {
+  switch (config.storage.driver) {
+    case 'memory':
+      return new MemoryRepository<T>();
+    case 'file':
+      return new FileRepository<T>(name, config.storage.dataDir);
+    default:
+      throw new Error(`Unknown storage driver: ${config.storage.driver}`);
+  }
+}
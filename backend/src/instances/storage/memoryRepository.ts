@@ -0,0 +1,88 @@
+/**
+ * @summary
+ * In-memory repository implementation.
+ * Data lives only for the lifetime of the process.
+ *
+ * @module instances/storage/memoryRepository
+ */
+
+import { RecordRepository, StorageRecord } from './storageTypes';
+
+/**
+ * In-memory repository backed by a Map
+ */
+export class MemoryRepository<T extends StorageRecord> implements RecordRepository<T> {
+  private records: Map<number, T> = new Map();
+  private sequence: number = 0;
+
+  /**
+   * Get next available ID
+   */
+  nextId(): number {
+    this.sequence += 1;
+    return this.sequence;
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): T[] {
+    return Array.from(this.records.values());
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): T | undefined {
+    return this.records.get(id);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: T): T {
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<T>): T | undefined {
+    const existing = this.records.get(id);
+    if (!existing) {
+      return undefined;
+    }
+    const updated = { ...existing, ...data };
+    this.records.set(id, updated);
+    return updated;
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    return this.records.delete(id);
+  }
+
+  /**
+   * Check if record exists
+   */
+  exists(id: number): boolean {
+    return this.records.has(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.records.size;
+  }
+
+  /**
+   * Clear all records, keeping the id sequence
+   */
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * @summary
+ * Type definitions for the pluggable storage layer.
+ * Every entity store delegates persistence to a RecordRepository implementation.
+ *
+ * @module instances/storage/storageTypes
+ */
+
+/**
+ * @interface StorageRecord
+ * @description Minimal shape required for a record to be persisted
+ */
+export interface StorageRecord {
+  id: number;
+}
+
+/**
+ * @interface RecordRepository
+ * @description Persistence contract shared by all storage drivers.
+ * Id sequences are monotonic: an id handed out by nextId() is never reused,
+ * even after the record is deleted or the store is cleared.
+ */
+export interface RecordRepository<T extends StorageRecord> {
+  nextId(): number;
+  getAll(): T[];
+  getById(id: number): T | undefined;
+  add(record: T): T;
+  update(id: number, data: Partial<T>): T | undefined;
+  delete(id: number): boolean;
+  exists(id: number): boolean;
+  count(): number;
+  clear(): void;
+}
@@ -0,0 +1,8 @@
+/**
+ * @summary
+ * Centralized exports for User instances.
+ *
+ * @module instances/user
+ */
+
+export { userStore, type UserRecord } from './userStore';
@@ -0,0 +1,93 @@
+/**
+ * @summary
+ * Store instance for User entity.
+ * Provides singleton pattern over the configured storage repository
+ * (in-memory or file-backed, see config.storage).
+ *
+ * @module instances/user/userStore
+ */
+
+import { UserRole } from '@/constants/user';
+import { createRepository, RecordRepository } from '@/instances/storage';
+
+/**
+ * User record structure
+ */
+export interface UserRecord {
+  id: number;
+  name: string;
+  email: string;
+  passwordHash: string;
+  role: UserRole;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * Store for User records, persisted through the configured repository
+ */
+class UserStore {
+  constructor(private readonly repository: RecordRepository<UserRecord>) {}
+
+  /**
+   * Get next available ID
+   */
+  getNextId(): number {
+    return this.repository.nextId();
+  }
+
+  /**
+   * Get all records
+   */
+  getAll(): UserRecord[] {
+    return this.repository.getAll();
+  }
+
+  /**
+   * Get record by ID
+   */
+  getById(id: number): UserRecord | undefined {
+    return this.repository.getById(id);
+  }
+
+  /**
+   * Get record by email (case-insensitive)
+   */
+  getByEmail(email: string): UserRecord | undefined {
+    const normalized = email.toLowerCase();
+    return this.repository.getAll().find((user) => user.email === normalized);
+  }
+
+  /**
+   * Add new record
+   */
+  add(record: UserRecord): UserRecord {
+    return this.repository.add(record);
+  }
+
+  /**
+   * Update existing record
+   */
+  update(id: number, data: Partial<UserRecord>): UserRecord | undefined {
+    return this.repository.update(id, data);
+  }
+
+  /**
+   * Delete record by ID
+   */
+  delete(id: number): boolean {
+    return this.repository.delete(id);
+  }
+
+  /**
+   * Get total count of records
+   */
+  count(): number {
+    return this.repository.count();
+  }
+}
+
+/**
+ * Singleton instance of UserStore
+ */
+export const userStore = new UserStore(createRepository<UserRecord>('users'));
@@ -0,0 +1,84 @@
+/**
+ * @summary
+ * Authentication and authorization middleware.
+ * Resolves the bearer access token to a user and restricts routes by role.
+ *
+ * @module middleware/auth
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { UserRole } from '@/constants';
+import { AuthUser, authVerifyAccessToken } from '@/services/auth';
+import { errorResponse, isServiceError } from '@/utils';
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** Set by the authenticate middleware */
+      user?: AuthUser;
+    }
+  }
+}
+
+/**
+ * @summary
+ * Requires a valid `Authorization: Bearer <access token>` header and sets `req.user`.
+ *
+ * @function authenticate
+ * @module middleware/auth
+ *
+ * @param {Request} req - Express request object
+ * @param {Response} res - Express response object
+ * @param {NextFunction} next - Express next function
+ *
+ * @returns {void}
+ */
+export function authenticate(req: Request, res: Response, next: NextFunction): void {
+  const [scheme, token] = (req.headers.authorization ?? '').split(' ');
+
+  if (scheme !== 'Bearer' || !token) {
+    res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+    return;
+  }
+
+  try {
+    req.user = authVerifyAccessToken(token);
+    next();
+  } catch (error) {
+    if (isServiceError(error)) {
+      res.status(error.statusCode).json(errorResponse(error.message, error.code));
+      return;
+    }
+    next(error);
+  }
+}
+
+/**
+ * @summary
+ * Restricts a route to the given roles. Must run after `authenticate`.
+ *
+ * @function authorize
+ * @module middleware/auth
+ *
+ * @param {UserRole[]} roles - Roles allowed to access the route
+ *
+ * @returns {RequestHandler} Express middleware
+ *
+ * @example
+ * router.delete('/product/:id', authorize('admin'), productController.deleteHandler);
+ */
+export function authorize(...roles: UserRole[]): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      res.status(401).json(errorResponse('Authentication required', 'UNAUTHORIZED'));
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      res.status(403).json(errorResponse('Insufficient permissions', 'FORBIDDEN'));
+      return;
+    }
+
+    next();
+  };
+}
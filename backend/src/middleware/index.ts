@@ -8,3 +8,5 @@
 
 export { errorMiddleware } from './error';
 export { notFoundMiddleware } from './notFound';
+export { authenticate, authorize } from './auth';
+export { uploadSingle } from './upload';
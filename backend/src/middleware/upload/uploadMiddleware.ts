@@ -0,0 +1,49 @@
+/**
+ * @summary
+ * Multipart upload middleware.
+ * Keeps a single uploaded file in memory (`req.file`) for the service to validate and store.
+ *
+ * @module middleware/upload
+ */
+
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { errorResponse } from '@/utils';
+
+/**
+ * @summary
+ * Accepts one file in a multipart/form-data field, up to a size limit. Oversized files are
+ * answered with 413 PAYLOAD_TOO_LARGE; requests without the file reach the handler without
+ * `req.file`.
+ *
+ * @function uploadSingle
+ * @module middleware/upload
+ *
+ * @param {string} fieldName - Form field carrying the file
+ * @param {number} maxSizeMb - Maximum file size in MB
+ * @returns {RequestHandler} Express middleware
+ *
+ * @example
+ * router.post('/product/image', uploadSingle('image', 2), productController.imageHandler);
+ */
+export function uploadSingle(fieldName: string, maxSizeMb: number): RequestHandler {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeMb * 1024 * 1024, files: 1 },
+  }).single(fieldName);
+
+  return (req: Request, res: Response, next: NextFunction) =>
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          res
+            .status(413)
+            .json(errorResponse(`Files are limited to ${maxSizeMb} MB`, 'PAYLOAD_TOO_LARGE'));
+          return;
+        }
+        res.status(400).json(errorResponse(error.message, 'VALIDATION_ERROR'));
+        return;
+      }
+      next(error);
+    });
+}
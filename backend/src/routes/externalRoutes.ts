@@ -7,15 +7,26 @@
  */
 
 import { Router } from 'express';
+import * as authController from '@/api/external/auth/controller';
+import * as catalogController from '@/api/external/catalog/controller';
 
 const router = Router();
 
 /**
  * @rule {be-route-configuration}
- * External routes will be added here as features are implemented.
- * Example:
- * router.use('/security', securityRoutes);
- * router.use('/public', publicRoutes);
+ * Auth routes - /api/external/auth
  */
+router.post('/auth/login', authController.loginHandler);
+router.post('/auth/refresh', authController.refreshHandler);
+router.post('/auth/logout', authController.logoutHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Public catalog routes - /api/external/catalog (read-only, anonymous)
+ */
+router.get('/catalog', catalogController.listHandler);
+router.get('/catalog/categories', catalogController.categoriesHandler);
+router.get('/catalog/facets', catalogController.facetsHandler);
+router.get('/catalog/:id', catalogController.getHandler);
 
 export default router;
@@ -6,12 +6,32 @@
  * @module routes/internalRoutes
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
+import { PRODUCT_IMAGE, PRODUCT_IMPORT, PRODUCT_LIMITS, USER_ROLES } from '@/constants';
+import { authenticate, authorize } from '@/middleware/auth';
+import { uploadSingle } from '@/middleware/upload';
+import * as auditController from '@/api/internal/audit/controller';
+import * as authController from '@/api/internal/auth/controller';
+import * as categoryController from '@/api/internal/category/controller';
+import * as inventoryController from '@/api/internal/inventory/controller';
 import * as initExampleController from '@/api/internal/init-example/controller';
 import * as productController from '@/api/internal/product/controller';
+import * as userController from '@/api/internal/user/controller';
 
 const router = Router();
 
+/**
+ * @rule {be-route-authentication}
+ * Every internal route requires a valid access token; mutations are further restricted by role
+ */
+router.use(authenticate);
+
+/**
+ * @rule {be-route-configuration}
+ * Auth routes - /api/internal/auth
+ */
+router.get('/auth/me', authController.meHandler);
+
 /**
  * @rule {be-route-configuration}
  * Init-Example routes - /api/internal/init-example
@@ -27,9 +47,114 @@ router.delete('/init-example/:id', initExampleController.deleteHandler);
  * Product routes - /api/internal/product
  */
 router.get('/product', productController.listHandler);
-router.post('/product', productController.createHandler);
+router.post(
+  '/product',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.createHandler
+);
+router.post(
+  '/product/import',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  // The spreadsheet is the raw request body
+  express.raw({
+    type: Object.keys(PRODUCT_IMPORT.CONTENT_TYPES),
+    limit: `${PRODUCT_IMPORT.MAX_FILE_SIZE_MB}mb`,
+  }),
+  productController.importHandler
+);
+router.post(
+  '/product/image',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  uploadSingle(PRODUCT_IMAGE.FIELD_NAME, PRODUCT_LIMITS.IMAGE_MAX_SIZE_MB),
+  productController.imageHandler
+);
+router.get('/product/export', productController.exportHandler);
+router.get(
+  '/product/trash',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.trashHandler
+);
 router.get('/product/:id', productController.getHandler);
-router.put('/product/:id', productController.updateHandler);
-router.delete('/product/:id', productController.deleteHandler);
+router.get('/product/:id/price-history', productController.priceHistoryHandler);
+router.put(
+  '/product/:id',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.updateHandler
+);
+router.patch(
+  '/product/:id',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.patchHandler
+);
+router.delete(
+  '/product/:id',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.deleteHandler
+);
+router.post(
+  '/product/:id/restore',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  productController.restoreHandler
+);
+
+/**
+ * @rule {be-route-configuration}
+ * Category routes - /api/internal/category
+ */
+router.get('/category', categoryController.listHandler);
+router.post(
+  '/category',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  categoryController.createHandler
+);
+router.get('/category/:id', categoryController.getHandler);
+router.put(
+  '/category/:id',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  categoryController.updateHandler
+);
+router.delete('/category/:id', authorize(USER_ROLES.ADMIN), categoryController.deleteHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * Inventory routes - /api/internal/inventory
+ */
+router.get('/inventory/location', inventoryController.locationListHandler);
+router.post(
+  '/inventory/location',
+  authorize(USER_ROLES.ADMIN),
+  inventoryController.locationCreateHandler
+);
+router.put(
+  '/inventory/location/:id',
+  authorize(USER_ROLES.ADMIN),
+  inventoryController.locationUpdateHandler
+);
+router.delete(
+  '/inventory/location/:id',
+  authorize(USER_ROLES.ADMIN),
+  inventoryController.locationDeleteHandler
+);
+router.get('/inventory/product/:id', inventoryController.productStockHandler);
+router.get('/inventory/movement', inventoryController.movementListHandler);
+router.post(
+  '/inventory/movement',
+  authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR),
+  inventoryController.movementCreateHandler
+);
+
+/**
+ * @rule {be-route-configuration}
+ * Audit routes - /api/internal/audit
+ */
+router.get('/audit', authorize(USER_ROLES.ADMIN, USER_ROLES.EDITOR), auditController.listHandler);
+
+/**
+ * @rule {be-route-configuration}
+ * User routes - /api/internal/user (admin only)
+ */
+router.get('/user', authorize(USER_ROLES.ADMIN), userController.listHandler);
+router.post('/user', authorize(USER_ROLES.ADMIN), userController.createHandler);
+router.delete('/user/:id', authorize(USER_ROLES.ADMIN), userController.deleteHandler);
 
 export default router;
@@ -12,9 +12,14 @@ import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import { config } from '@/config';
+import { PRODUCT_IMAGE } from '@/constants';
 import { errorMiddleware } from '@/middleware/error';
 import { notFoundMiddleware } from '@/middleware/notFound';
 import apiRoutes from '@/routes';
+import { userEnsureAdmin } from '@/services/user';
+import { categoryEnsureDefaults } from '@/services/category';
+import { inventoryEnsureDefaults } from '@/services/inventory';
+import { productPurgeTrash, productSweepImages } from '@/services/product';
 
 const app: Application = express();
 
@@ -30,7 +35,10 @@ app.use(cors(config.api.cors));
  * Configure request body parsing and compression
  */
 app.use(compression());
-app.use(express.json({ limit: '10mb' }));
+// PATCH bodies may use the JSON Merge Patch media type (RFC 7386)
+app.use(
+  express.json({ limit: '10mb', type: ['application/json', 'application/merge-patch+json'] })
+);
 app.use(express.urlencoded({ extended: true }));
 
 /**
@@ -45,6 +53,21 @@ app.get('/health', (req: Request, res: Response) => {
   });
 });
 
+/**
+ * @rule {BR-028}
+ * Serve uploaded images. A stored file never changes, so browsers may keep it; the storefront
+ * runs on another origin, so the images are not restricted to this one.
+ */
+app.use(
+  '/uploads',
+  express.static(config.uploads.dir, {
+    index: false,
+    immutable: true,
+    maxAge: `${PRODUCT_IMAGE.CACHE_MAX_AGE_DAYS}d`,
+    setHeaders: (res) => res.set('Cross-Origin-Resource-Policy', 'cross-origin'),
+  })
+);
+
 /**
  * @rule {be-api-versioning}
  * Mount API routes with version prefix
@@ -79,4 +102,55 @@ const server = app.listen(config.api.port, () => {
   console.log(`API available at http://localhost:${config.api.port}/api`);
 });
 
+/**
+ * @rule {be-category-bootstrap}
+ * Seed the default categories and move products still referencing categories by name to slugs
+ */
+categoryEnsureDefaults()
+  .then(({ created, migrated }) => {
+    if (created) console.log(`Seeded ${created} default categories`);
+    if (migrated) console.log(`Migrated ${migrated} products to category slugs`);
+  })
+  .catch((error) => console.error('Failed to prepare categories:', error));
+
+/**
+ * @rule {be-inventory-bootstrap}
+ * Seed the default stock locations (depósito and showroom)
+ */
+inventoryEnsureDefaults()
+  .then(({ created }) => created && console.log(`Seeded ${created} stock locations`))
+  .catch((error) => console.error('Failed to prepare stock locations:', error));
+
+/**
+ * @rule {be-auth-bootstrap}
+ * Create the initial admin account from ADMIN_EMAIL/ADMIN_PASSWORD on an empty user store
+ */
+userEnsureAdmin()
+  .then((admin) => admin && console.log(`Initial admin account created: ${admin.email}`))
+  .catch((error) => console.error('Failed to create initial admin account:', error));
+
+/**
+ * @rule {BR-023}
+ * Permanently delete products that have been in the trash longer than
+ * TRASH_RETENTION_DAYS, at startup and every TRASH_PURGE_INTERVAL seconds
+ */
+const purgeTrash = () =>
+  productPurgeTrash()
+    .then(({ purged }) => purged && console.log(`Purged ${purged} products from the trash`))
+    .catch((error) => console.error('Failed to purge the trash:', error));
+purgeTrash();
+setInterval(purgeTrash, config.trash.purgeInterval * 1000).unref();
+
+/**
+ * @rule {BR-028}
+ * Remove uploaded images no product or category uses once they are older than
+ * UPLOADS_ORPHAN_RETENTION_HOURS, at startup and every UPLOADS_SWEEP_INTERVAL seconds
+ */
+const sweepImages = () =>
+  productSweepImages()
+    .then(({ removed }) => removed && console.log(`Removed ${removed} unused uploaded images`))
+    .catch((error) => console.error('Failed to remove unused uploaded images:', error));
+sweepImages();
+setInterval(sweepImages, config.uploads.sweepInterval * 1000).unref();
+
 export default server;
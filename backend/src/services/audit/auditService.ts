@@ -0,0 +1,157 @@
+/**
+ * @summary
+ * Business logic for the audit log.
+ * Records who created, changed or deleted an entity, with a field-level diff, in an
+ * append-only log and lists it with filters.
+ *
+ * @module services/audit/auditService
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { AUDIT_ACTIONS, AUDIT_LIMITS } from '@/constants';
+import { auditEntryStore, userStore, AuditEntryRecord } from '@/instances';
+import { ServiceError } from '@/utils';
+import {
+  AuditEntryEntity,
+  AuditFieldChange,
+  AuditListResponse,
+  AuditRecordRequest,
+} from './auditTypes';
+import { listQuerySchema } from './auditValidation';
+
+const IGNORED_FIELDS: readonly string[] = AUDIT_LIMITS.IGNORED_FIELDS;
+
+/**
+ * @summary
+ * Lists the fields that differ between two versions of an entity. A missing version counts
+ * as every field being null, so creations list the fields set and deletions the fields lost.
+ *
+ * @function auditDiff
+ * @module services/audit
+ *
+ * @param {object | null} before - Previous version
+ * @param {object | null} after - New version
+ * @returns {AuditFieldChange[]} Changed fields in the order they appear
+ *
+ * @example
+ * auditDiff({ name: 'Sofá', featured: false }, { name: 'Sofá', featured: true });
+ * // Returns: [{ field: 'featured', before: false, after: true }]
+ */
+export function auditDiff(before: object | null, after: object | null): AuditFieldChange[] {
+  const previous: Record<string, unknown> = { ...before };
+  const next: Record<string, unknown> = { ...after };
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  return [...fields]
+    .filter((field) => !IGNORED_FIELDS.includes(field))
+    .map((field) => ({ field, before: previous[field] ?? null, after: next[field] ?? null }))
+    .filter((change) => !isDeepStrictEqual(change.before, change.after));
+}
+
+/**
+ * @summary
+ * Appends a mutation to the audit log. Updates that change nothing are not recorded.
+ *
+ * @function auditRecord
+ * @module services/audit
+ *
+ * @param {AuditRecordRequest} request - Entity, action, both versions and the user
+ * @returns {AuditEntryRecord | null} The recorded entry, or null when nothing changed
+ *
+ * @example
+ * auditRecord({
+ *   entity: 'product', entityId: 4, label: 'Sofá Luna', action: 'update',
+ *   before: existing, after: updated, userId: 1,
+ * });
+ */
+export function auditRecord(request: AuditRecordRequest): AuditEntryRecord | null {
+  const changes = auditDiff(request.before, request.after);
+
+  if (changes.length === 0 && request.action === AUDIT_ACTIONS.UPDATE) {
+    return null;
+  }
+
+  return auditEntryStore.add({
+    id: auditEntryStore.getNextId(),
+    entity: request.entity,
+    entityId: request.entityId,
+    label: request.label,
+    action: request.action,
+    changes,
+    userId: request.userId,
+    dateCreated: new Date().toISOString(),
+  });
+}
+
+/**
+ * @summary
+ * Lists the audit log, newest first.
+ *
+ * @function auditList
+ * @module services/audit
+ *
+ * @param {unknown} query - Raw query parameters (entity, entityId, action, userId, field,
+ * from, to, page, pageSize)
+ * @returns {Promise<AuditListResponse>} Page of audit entries
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const log = await auditList({ entity: 'product', entityId: '4', field: 'featured' });
+ * // Returns: { items: [{ action: 'update', changes: [{ field: 'featured', ... }], ... }], pagination: {...} }
+ */
+export async function auditList(query: unknown): Promise<AuditListResponse> {
+  const validation = listQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const filters = validation.data;
+  const from = filters.from ? new Date(filters.from).getTime() : null;
+  const to = filters.to ? new Date(filters.to).getTime() : null;
+
+  const entries = auditEntryStore
+    .getAll()
+    .filter((entry) => {
+      const date = new Date(entry.dateCreated).getTime();
+      return (
+        (filters.entity === undefined || entry.entity === filters.entity) &&
+        (filters.entityId === undefined || entry.entityId === filters.entityId) &&
+        (filters.action === undefined || entry.action === filters.action) &&
+        (filters.userId === undefined || entry.userId === filters.userId) &&
+        (filters.field === undefined ||
+          entry.changes.some((change) => change.field === filters.field)) &&
+        (from === null || date >= from) &&
+        (to === null || date <= to)
+      );
+    })
+    .sort((a, b) => b.id - a.id);
+
+  const { page, pageSize } = filters;
+  const total = entries.length;
+  const totalPages = Math.ceil(total / pageSize);
+  const offset = (page - 1) * pageSize;
+
+  const items: AuditEntryEntity[] = entries.slice(offset, offset + pageSize).map((entry) => ({
+    ...entry,
+    userName: entry.userId !== null ? (userStore.getById(entry.userId)?.name ?? null) : null,
+  }));
+
+  return {
+    items,
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1,
+    },
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * @summary
+ * Type definitions for the audit log.
+ *
+ * @module services/audit/auditTypes
+ */
+
+import { AuditAction, AuditEntity } from '@/constants';
+
+/**
+ * @interface AuditFieldChange
+ * @description A changed field with its value before and after (null when absent)
+ */
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * @interface AuditEntryEntity
+ * @description A recorded mutation. label is the entity name when it was recorded, so it
+ * stays readable after the entity is deleted.
+ */
+export interface AuditEntryEntity {
+  id: number;
+  entity: AuditEntity;
+  entityId: number;
+  label: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  userId: number | null;
+  userName: string | null;
+  dateCreated: string;
+}
+
+/**
+ * @interface AuditListResponse
+ * @description Audit log page, newest entries first
+ */
+export interface AuditListResponse {
+  items: AuditEntryEntity[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
+
+/**
+ * @interface AuditRecordRequest
+ * @description A mutation to record. before is null for creations and after is null for
+ * permanent deletions.
+ */
+export interface AuditRecordRequest {
+  entity: AuditEntity;
+  entityId: number;
+  label: string;
+  action: AuditAction;
+  before: object | null;
+  after: object | null;
+  userId: number | null;
+}
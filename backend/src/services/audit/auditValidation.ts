@@ -0,0 +1,49 @@
+/**
+ * @summary
+ * Validation schemas for the audit log.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/audit/auditValidation
+ */
+
+import { z } from 'zod';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, AUDIT_LIMITS } from '@/constants';
+
+/**
+ * Schema for audit log query parameters validation
+ */
+export const listQuerySchema = z
+  .object({
+    entity: z.enum([AUDIT_ENTITIES.PRODUCT, AUDIT_ENTITIES.INIT_EXAMPLE]).optional(),
+    entityId: z.coerce.number().int().positive().optional(),
+    action: z
+      .enum([
+        AUDIT_ACTIONS.CREATE,
+        AUDIT_ACTIONS.UPDATE,
+        AUDIT_ACTIONS.DELETE,
+        AUDIT_ACTIONS.RESTORE,
+        AUDIT_ACTIONS.PURGE,
+      ])
+      .optional(),
+    userId: z.coerce.number().int().positive().optional(),
+    field: z.string().trim().min(1).optional(),
+    from: z.string().datetime({ offset: true }).optional(),
+    to: z.string().datetime({ offset: true }).optional(),
+    page: z.coerce.number().int().positive().optional().default(1),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .positive()
+      .max(AUDIT_LIMITS.MAX_PAGE_SIZE)
+      .optional()
+      .default(AUDIT_LIMITS.PAGE_SIZE),
+  })
+  .refine((query) => !query.from || !query.to || new Date(query.from) <= new Date(query.to), {
+    message: 'from must not be after to',
+    path: ['from'],
+  });
+
+/**
+ * Inferred types from schemas
+ */
+export type ListQueryInput = z.infer<typeof listQuerySchema>;
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for audit service.
+ *
+ * @module services/audit
+ */
+
+export * from './auditTypes';
+export * from './auditService';
+export * from './auditValidation';
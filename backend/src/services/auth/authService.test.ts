@@ -0,0 +1,56 @@
+/**
+ * @summary
+ * Tests for the auth service: login and refresh token rotation.
+ *
+ * @module services/auth/authService.test
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { userCreate } from '@/services/user';
+import { authLogin, authLogout, authRefresh, authVerifyAccessToken } from './authService';
+
+const credentials = { email: 'ana@example.com', password: 's3cret-pass' };
+
+describe('authService', () => {
+  before(async () => {
+    await userCreate({ name: 'Ana', ...credentials, role: 'editor' });
+  });
+
+  it('issues an access token for valid credentials', async () => {
+    const session = await authLogin(credentials);
+
+    assert.equal(session.user.email, credentials.email);
+    assert.equal(authVerifyAccessToken(session.accessToken).role, 'editor');
+  });
+
+  it('rejects a wrong password', async () => {
+    await assert.rejects(authLogin({ ...credentials, password: 'wrong-pass' }), {
+      code: 'INVALID_CREDENTIALS',
+      statusCode: 401,
+    });
+  });
+
+  it('rotates the refresh token on every use', async () => {
+    const { refreshToken } = await authLogin(credentials);
+    const refreshed = await authRefresh({ refreshToken });
+
+    assert.notEqual(refreshed.refreshToken, refreshToken);
+    assert.equal(authVerifyAccessToken(refreshed.accessToken).email, credentials.email);
+    await assert.doesNotReject(authRefresh({ refreshToken: refreshed.refreshToken }));
+  });
+
+  it('rejects a refresh token that was already used', async () => {
+    const { refreshToken } = await authLogin(credentials);
+    await authRefresh({ refreshToken });
+
+    await assert.rejects(authRefresh({ refreshToken }), { code: 'INVALID_TOKEN', statusCode: 401 });
+  });
+
+  it('rejects a refresh token after logout', async () => {
+    const { refreshToken } = await authLogin(credentials);
+    await authLogout({ refreshToken });
+
+    await assert.rejects(authRefresh({ refreshToken }), { code: 'INVALID_TOKEN' });
+  });
+});
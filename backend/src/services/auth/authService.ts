@@ -0,0 +1,195 @@
+/**
+ * @summary
+ * Business logic for authentication.
+ * Issues short-lived JWT access tokens and rotating refresh tokens for user accounts.
+ *
+ * @module services/auth/authService
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { config } from '@/config';
+import { refreshTokenStore, userStore, UserRecord } from '@/instances';
+import { ServiceError } from '@/utils';
+import { AuthSession, AuthUser } from './authTypes';
+import { loginSchema, refreshSchema } from './authValidation';
+
+/**
+ * Compared against when the email is unknown, so both paths take the same time
+ */
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('invalid-password', config.security.bcryptRounds);
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toAuthUser(record: UserRecord): AuthUser {
+  return { id: record.id, name: record.name, email: record.email, role: record.role };
+}
+
+/**
+ * Issues an access token and a new refresh token for the user
+ */
+function createSession(user: UserRecord): AuthSession {
+  const now = new Date();
+  const refreshToken = randomBytes(48).toString('base64url');
+
+  refreshTokenStore.deleteExpired(now);
+  refreshTokenStore.add({
+    id: refreshTokenStore.getNextId(),
+    userId: user.id,
+    tokenHash: hashToken(refreshToken),
+    expiresAt: new Date(now.getTime() + config.auth.refreshTokenTtl * 1000).toISOString(),
+    dateCreated: now.toISOString(),
+  });
+
+  const accessToken = jwt.sign({ role: user.role }, config.auth.jwtSecret, {
+    subject: String(user.id),
+    expiresIn: config.auth.accessTokenTtl,
+  });
+
+  return {
+    user: toAuthUser(user),
+    accessToken,
+    refreshToken,
+    tokenType: 'Bearer',
+    expiresIn: config.auth.accessTokenTtl,
+  };
+}
+
+/**
+ * @summary
+ * Authenticates a user by email and password.
+ *
+ * @function authLogin
+ * @module services/auth
+ *
+ * @param {unknown} body - Raw request body to validate against loginSchema
+ * @returns {Promise<AuthSession>} Access and refresh tokens with the user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
+ * @throws {ServiceError} INVALID_CREDENTIALS (401) - When email or password is wrong
+ *
+ * @example
+ * const session = await authLogin({ email: 'admin@example.com', password: 's3cret-pass' });
+ * // Returns: { user: { id: 1, role: 'admin', ... }, accessToken: 'eyJ...', refreshToken: '...', ... }
+ */
+export async function authLogin(body: unknown): Promise<AuthSession> {
+  const validation = loginSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const { email, password } = validation.data;
+  const user = userStore.getByEmail(email);
+  const passwordMatches = await bcrypt.compare(password, user?.passwordHash ?? DUMMY_PASSWORD_HASH);
+
+  if (!user || !passwordMatches) {
+    throw new ServiceError('INVALID_CREDENTIALS', 'Invalid email or password', 401);
+  }
+
+  return createSession(user);
+}
+
+/**
+ * @summary
+ * Exchanges a refresh token for a new session. The refresh token is single-use.
+ *
+ * @function authRefresh
+ * @module services/auth
+ *
+ * @param {unknown} body - Raw request body containing the refresh token
+ * @returns {Promise<AuthSession>} New access and refresh tokens
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
+ * @throws {ServiceError} INVALID_TOKEN (401) - When the token is unknown, used or expired
+ */
+export async function authRefresh(body: unknown): Promise<AuthSession> {
+  const validation = refreshSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const stored = refreshTokenStore.getByHash(hashToken(validation.data.refreshToken));
+
+  if (!stored) {
+    throw new ServiceError('INVALID_TOKEN', 'Invalid refresh token', 401);
+  }
+
+  /**
+   * @rule {BR-034} Refresh tokens are rotated on every use
+   */
+  refreshTokenStore.delete(stored.id);
+
+  const user = userStore.getById(stored.userId);
+
+  if (!user || new Date(stored.expiresAt) <= new Date()) {
+    throw new ServiceError('INVALID_TOKEN', 'Invalid refresh token', 401);
+  }
+
+  return createSession(user);
+}
+
+/**
+ * @summary
+ * Revokes a refresh token. Unknown tokens are ignored.
+ *
+ * @function authLogout
+ * @module services/auth
+ *
+ * @param {unknown} body - Raw request body containing the refresh token
+ * @returns {Promise<{ message: string }>} Success confirmation
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
+ */
+export async function authLogout(body: unknown): Promise<{ message: string }> {
+  const validation = refreshSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const stored = refreshTokenStore.getByHash(hashToken(validation.data.refreshToken));
+  if (stored) {
+    refreshTokenStore.delete(stored.id);
+  }
+
+  return { message: 'Logged out successfully' };
+}
+
+/**
+ * @summary
+ * Resolves the user behind an access token.
+ * The user is re-read from the store so deleted accounts and role changes apply immediately.
+ *
+ * @function authVerifyAccessToken
+ * @module services/auth
+ *
+ * @param {string} token - JWT access token
+ * @returns {AuthUser} The authenticated user
+ *
+ * @throws {ServiceError} INVALID_TOKEN (401) - When the token is invalid, expired or its user is gone
+ */
+export function authVerifyAccessToken(token: string): AuthUser {
+  let subject: string | undefined;
+
+  try {
+    const payload = jwt.verify(token, config.auth.jwtSecret);
+    subject = typeof payload === 'string' ? undefined : payload.sub;
+  } catch (error) {
+    const message =
+      error instanceof jwt.TokenExpiredError ? 'Access token expired' : 'Invalid access token';
+    throw new ServiceError('INVALID_TOKEN', message, 401);
+  }
+
+  const user = subject ? userStore.getById(Number(subject)) : undefined;
+
+  if (!user) {
+    throw new ServiceError('INVALID_TOKEN', 'Invalid access token', 401);
+  }
+
+  return toAuthUser(user);
+}
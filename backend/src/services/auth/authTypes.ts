@@ -0,0 +1,35 @@
+/**
+ * @summary
+ * Type definitions for authentication.
+ *
+ * @module services/auth/authTypes
+ */
+
+import { UserRole } from '@/constants';
+
+/**
+ * @interface AuthUser
+ * @description Authenticated user attached to requests and returned on login
+ */
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+/**
+ * @interface AuthSession
+ * @description Tokens issued on login and refresh
+ *
+ * @property {string} accessToken - Short-lived JWT sent as `Authorization: Bearer <token>`
+ * @property {string} refreshToken - Opaque single-use token exchanged for a new session
+ * @property {number} expiresIn - Access token lifetime in seconds
+ */
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
@@ -0,0 +1,32 @@
+/**
+ * @summary
+ * Validation schemas for authentication.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/auth/authValidation
+ */
+
+import { z } from 'zod';
+import { USER_LIMITS } from '@/constants';
+import { emailSchema } from '@/services/user/userValidation';
+
+/**
+ * Schema for login request validation
+ */
+export const loginSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(1).max(USER_LIMITS.PASSWORD_MAX_LENGTH),
+});
+
+/**
+ * Schema for refresh and logout request validation
+ */
+export const refreshSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type LoginInput = z.infer<typeof loginSchema>;
+export type RefreshInput = z.infer<typeof refreshSchema>;
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for Auth service.
+ *
+ * @module services/auth
+ */
+
+export * from './authTypes';
+export * from './authService';
+export * from './authValidation';
@@ -0,0 +1,168 @@
+/**
+ * @summary
+ * Business logic for the public catalog.
+ * Read-only view over products that only exposes whitelisted public fields,
+ * so it is safe to serve to anonymous visitors.
+ *
+ * @module services/catalog/catalogService
+ */
+
+import { categoryStore, productStore, CategoryRecord } from '@/instances';
+import { contentEtag } from '@/utils';
+import { categoryPath, getCategoryChildren, getCategorySubtree } from '@/services/category';
+import {
+  productGet,
+  productList,
+  ProductCachedResult,
+  ProductEntity,
+  ProductFacets,
+  ProductListItem,
+} from '@/services/product';
+import {
+  CatalogCategory,
+  CatalogListResponse,
+  CatalogProductDetail,
+  CatalogProductItem,
+} from './catalogTypes';
+
+function toCatalogProductItem(product: ProductListItem): CatalogProductItem {
+  return {
+    id: product.id,
+    name: product.name,
+    mainImage: product.mainImage,
+    mainImageVariants: product.mainImageVariants,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    discountPercent: product.discountPercent,
+    category: product.category,
+    categoryName: product.categoryName,
+    measurements: product.measurements,
+    featured: product.featured,
+    isNew: product.isNew,
+    onSale: product.onSale,
+    available: product.available,
+    ...(product.highlights && { highlights: product.highlights }),
+  };
+}
+
+function toCatalogProductDetail(product: ProductEntity): CatalogProductDetail {
+  return {
+    id: product.id,
+    name: product.name,
+    description: product.description,
+    mainImage: product.mainImage,
+    images: product.images,
+    price: product.price,
+    originalPrice: product.originalPrice,
+    discountPercent: product.discountPercent,
+    category: product.category,
+    categoryPath: categoryPath(product.category),
+    shortDescription: product.shortDescription,
+    dimensions: product.dimensions,
+    measurements: product.measurements,
+    featured: product.featured,
+    isNew: product.isNew,
+    onSale: product.onSale,
+    saleEndsAt: product.onSale ? (product.sale?.endsAt ?? null) : null,
+    available: product.available,
+    options: product.options,
+    variants: product.variants,
+    dateCreated: product.dateCreated,
+  };
+}
+
+/**
+ * @summary
+ * Lists catalog products with search, filtering, sorting, and pagination.
+ * Accepts the same query parameters as the internal product listing.
+ *
+ * @function catalogList
+ * @module services/catalog
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<ProductCachedResult<CatalogListResponse>>} Paginated public products with
+ * facet counts, and the cache validators of the underlying listing
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const result = await catalogList({ q: 'sofa', category: 'sala-de-estar' });
+ */
+export async function catalogList(
+  query: unknown
+): Promise<ProductCachedResult<CatalogListResponse>> {
+  const { data, ...validators } = await productList(query);
+  const { items, facets, pagination } = data;
+  return { data: { items: items.map(toCatalogProductItem), facets, pagination }, ...validators };
+}
+
+/**
+ * @summary
+ * Retrieves the public details of a product.
+ *
+ * @function catalogGet
+ * @module services/catalog
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<ProductCachedResult<CatalogProductDetail>>} Public product details, with
+ * their entity tag and the last change of the underlying product
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ */
+export async function catalogGet(
+  params: unknown
+): Promise<ProductCachedResult<CatalogProductDetail>> {
+  const { data, lastModified } = await productGet(params);
+  const detail = toCatalogProductDetail(data);
+  // Tagged by its own content: the category path is not part of the product details
+  return { data: detail, etag: contentEtag(detail), lastModified };
+}
+
+/**
+ * @summary
+ * Returns the category tree with product counts (including subcategories).
+ *
+ * @function catalogCategories
+ * @module services/catalog
+ *
+ * @returns {Promise<CatalogCategory[]>} Root categories with nested children, including empty ones
+ */
+export async function catalogCategories(): Promise<CatalogCategory[]> {
+  const categories = categoryStore.getAll();
+  const products = productStore.getAll();
+
+  const toNode = (category: CategoryRecord): CatalogCategory => {
+    const slugs = new Set(getCategorySubtree(categories, category).map((c) => c.slug));
+    return {
+      id: category.id,
+      slug: category.slug,
+      name: category.name,
+      parentId: category.parentId,
+      order: category.order,
+      image: category.image,
+      productCount: products.filter((product) => slugs.has(product.category)).length,
+      children: getCategoryChildren(categories, category.id).map(toNode),
+    };
+  };
+
+  return getCategoryChildren(categories, null).map(toNode);
+}
+
+/**
+ * @summary
+ * Computes facet counts for a filter set without returning products.
+ *
+ * @function catalogFacets
+ * @module services/catalog
+ *
+ * @param {unknown} query - Raw query parameters to validate (pagination is ignored)
+ * @returns {Promise<ProductFacets>} Facet counts
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ */
+export async function catalogFacets(query: unknown): Promise<ProductFacets> {
+  const { page, pageSize, ...filters } = (query ?? {}) as Record<string, unknown>;
+  const { data } = await productList(filters);
+  return data.facets;
+}
@@ -0,0 +1,101 @@
+/**
+ * @summary
+ * Type definitions for the public catalog.
+ * Public shapes are whitelists: fields added to products stay private until listed here.
+ *
+ * @module services/catalog/catalogTypes
+ */
+
+import { CategoryPathItem } from '@/services/category';
+import {
+  ProductFacets,
+  ProductImageVariants,
+  ProductMeasurements,
+  ProductOption,
+  ProductSearchHighlight,
+  ProductVariantEntity,
+} from '@/services/product';
+
+/**
+ * @interface CatalogProductItem
+ * @description Public product data for catalog listings
+ */
+export interface CatalogProductItem {
+  id: number;
+  name: string;
+  mainImage: string;
+  /** Renditions of an uploaded main image; null for other images */
+  mainImageVariants: ProductImageVariants | null;
+  price: number | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
+  category: string;
+  categoryName: string;
+  measurements: ProductMeasurements | null;
+  featured: boolean;
+  isNew: boolean;
+  onSale: boolean;
+  available: boolean;
+  highlights?: ProductSearchHighlight[];
+}
+
+/**
+ * @interface CatalogProductDetail
+ * @description Public product data for the product page
+ */
+export interface CatalogProductDetail {
+  id: number;
+  name: string;
+  description: string | null;
+  mainImage: string;
+  images: string[];
+  price: number | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
+  category: string;
+  categoryPath: CategoryPathItem[];
+  shortDescription: string | null;
+  dimensions: string | null;
+  measurements: ProductMeasurements | null;
+  featured: boolean;
+  isNew: boolean;
+  onSale: boolean;
+  /** End of the running sale (null when not on sale or open-ended) */
+  saleEndsAt: string | null;
+  available: boolean;
+  options: ProductOption[];
+  variants: ProductVariantEntity[];
+  dateCreated: string;
+}
+
+/**
+ * @interface CatalogCategory
+ * @description Category tree node; productCount includes products of subcategories
+ */
+export interface CatalogCategory {
+  id: number;
+  slug: string;
+  name: string;
+  parentId: number | null;
+  order: number;
+  image: string | null;
+  productCount: number;
+  children: CatalogCategory[];
+}
+
+/**
+ * @interface CatalogListResponse
+ * @description Response structure for public catalog listing with pagination
+ */
+export interface CatalogListResponse {
+  items: CatalogProductItem[];
+  facets: ProductFacets;
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * @summary
+ * Centralized exports for Catalog service.
+ *
+ * @module services/catalog
+ */
+
+export * from './catalogTypes';
+export * from './catalogService';
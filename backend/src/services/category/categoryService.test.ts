@@ -0,0 +1,64 @@
+/**
+ * @summary
+ * Tests for the category service: slug renames moving their products along.
+ *
+ * @module services/category/categoryService.test
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { categoryStore } from '@/instances';
+import { auditList } from '@/services/audit';
+import { productCreate, productPatch } from '@/services/product';
+import { formatEtag } from '@/utils';
+import { categoryEnsureDefaults, categoryUpdate } from './categoryService';
+
+describe('categoryService', () => {
+  before(async () => {
+    await categoryEnsureDefaults();
+  });
+
+  it('moves products to a renamed slug as a new version', async () => {
+    const product = await productCreate({
+      name: 'Cama Box',
+      description: null,
+      mainImage: 'https://example.com/cama.jpg',
+      price: 3200,
+      category: 'quarto',
+      shortDescription: null,
+      dimensions: null,
+    });
+    const category = categoryStore.getBySlug('quarto');
+    assert.ok(category);
+
+    await categoryUpdate(
+      { id: category.id },
+      {
+        name: 'Dormitório',
+        slug: 'dormitorio',
+        parentId: category.parentId,
+        order: category.order,
+        image: category.image,
+      },
+      1
+    );
+
+    const log = await auditList({ entity: 'product', entityId: String(product.id) });
+    assert.deepEqual(
+      log.items[0].changes.map(({ field, before, after }) => [field, before, after]),
+      [['category', 'quarto', 'dormitorio']]
+    );
+    assert.equal(log.items[0].userId, 1);
+    await assert.rejects(
+      productPatch({ id: product.id }, { featured: true }, null, formatEtag(product.version)),
+      { code: 'PRECONDITION_FAILED' }
+    );
+    const patched = await productPatch(
+      { id: product.id },
+      { featured: true },
+      null,
+      formatEtag(product.version + 1)
+    );
+    assert.equal(patched.category, 'dormitorio');
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * @summary
+ * Business logic for Category entity.
+ * Handles CRUD for the category hierarchy and resolves categories for product listings.
+ *
+ * @module services/category/categoryService
+ */
+
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, CATEGORY_LIMITS, CATEGORY_SEED } from '@/constants';
+import { categoryStore, productStore, CategoryRecord, ProductRecord } from '@/instances';
+import { ServiceError, normalizeText, slugify } from '@/utils';
+import { auditRecord } from '@/services/audit';
+import { CategoryEntity, CategoryPathItem } from './categoryTypes';
+import { createSchema, updateSchema, paramsSchema } from './categoryValidation';
+import {
+  getCategoryAncestry,
+  getCategoryChildren,
+  getCategoryHeight,
+  getCategorySubtree,
+  sortCategoriesDepthFirst,
+} from './categoryTree';
+
+/**
+ * Validates the parent of a category and the resulting depth of its subtree
+ */
+function assertValidParent(
+  categories: CategoryRecord[],
+  parentId: number | null,
+  subtreeHeight: number,
+  categoryId?: number
+): void {
+  if (parentId === null) return;
+
+  const parent = categories.find((c) => c.id === parentId);
+  if (!parent) {
+    throw new ServiceError('VALIDATION_ERROR', 'Parent category not found', 400, [
+      { path: ['parentId'], message: 'Parent category not found' },
+    ]);
+  }
+
+  const ancestry = getCategoryAncestry(categories, parent);
+
+  /**
+   * @rule {BR-031} A category cannot be moved below itself or its descendants
+   */
+  if (categoryId !== undefined && ancestry.some((c) => c.id === categoryId)) {
+    throw new ServiceError('VALIDATION_ERROR', 'A category cannot be its own ancestor', 400, [
+      { path: ['parentId'], message: 'A category cannot be its own ancestor' },
+    ]);
+  }
+
+  if (ancestry.length + 1 + subtreeHeight > CATEGORY_LIMITS.MAX_DEPTH) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      `Categories can be nested at most ${CATEGORY_LIMITS.MAX_DEPTH} levels deep`,
+      400,
+      [{ path: ['parentId'], message: 'Maximum category depth exceeded' }]
+    );
+  }
+}
+
+/**
+ * Rejects a slug already used by another category
+ */
+function assertUniqueSlug(slug: string, categoryId?: number): void {
+  const existing = categoryStore.getBySlug(slug);
+  if (existing && existing.id !== categoryId) {
+    throw new ServiceError('CONFLICT', 'Category slug already exists', 409, [
+      { path: ['slug'], message: 'Category slug already exists' },
+    ]);
+  }
+}
+
+/**
+ * @summary
+ * Lists all categories depth-first (each parent followed by its children).
+ *
+ * @function categoryList
+ * @module services/category
+ *
+ * @returns {Promise<CategoryEntity[]>} All categories
+ */
+export async function categoryList(): Promise<CategoryEntity[]> {
+  return sortCategoriesDepthFirst(categoryStore.getAll());
+}
+
+/**
+ * @summary
+ * Retrieves a specific category by its unique identifier.
+ *
+ * @function categoryGet
+ * @module services/category
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<CategoryEntity>} The found category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When category with given ID does not exist
+ */
+export async function categoryGet(params: unknown): Promise<CategoryEntity> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const category = categoryStore.getById(validation.data.id);
+
+  if (!category) {
+    throw new ServiceError('NOT_FOUND', 'Category not found', 404);
+  }
+
+  return category;
+}
+
+/**
+ * @summary
+ * Creates a new category. The slug defaults to the slugified name and the order
+ * defaults to the end of its siblings.
+ *
+ * @function categoryCreate
+ * @module services/category
+ *
+ * @param {unknown} body - Raw request body to validate against createSchema
+ * @returns {Promise<CategoryEntity>} The newly created category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation or the parent is invalid
+ * @throws {ServiceError} CONFLICT (409) - When the slug is already in use
+ *
+ * @example
+ * const sofas = await categoryCreate({ name: 'Sofás', parentId: 1 });
+ * // Returns: { id: 7, slug: 'sofas', name: 'Sofás', parentId: 1, order: 0, ... }
+ */
+export async function categoryCreate(body: unknown): Promise<CategoryEntity> {
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+  const categories = categoryStore.getAll();
+  const slug = params.slug ?? slugify(params.name);
+
+  if (!slug) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: ['slug'], message: 'A slug could not be derived from the name' },
+    ]);
+  }
+
+  assertUniqueSlug(slug);
+  assertValidParent(categories, params.parentId, 0);
+
+  const now = new Date().toISOString();
+  const category: CategoryRecord = {
+    id: categoryStore.getNextId(),
+    slug,
+    name: params.name,
+    parentId: params.parentId,
+    order: params.order ?? getCategoryChildren(categories, params.parentId).length,
+    image: params.image,
+    dateCreated: now,
+    dateModified: now,
+  };
+
+  return categoryStore.add(category);
+}
+
+/**
+ * @summary
+ * Updates an existing category. Renaming the slug moves its products along, each as a new
+ * product version.
+ *
+ * @function categoryUpdate
+ * @module services/category
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Raw request body with update data to validate
+ * @param {number | null} [userId] - Authenticated user, recorded in the audit log of moved products
+ * @returns {Promise<CategoryEntity>} The updated category
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID, body or the new parent is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When category with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the slug is already in use
+ */
+export async function categoryUpdate(
+  params: unknown,
+  body: unknown,
+  userId: number | null = null
+): Promise<CategoryEntity> {
+  const paramsValidation = paramsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const bodyValidation = updateSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = categoryStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'Category not found', 404);
+  }
+
+  const updateData = bodyValidation.data;
+  const categories = categoryStore.getAll();
+
+  assertUniqueSlug(updateData.slug, id);
+  assertValidParent(categories, updateData.parentId, getCategoryHeight(categories, id), id);
+
+  const now = new Date().toISOString();
+
+  /**
+   * @rule {BR-032} Products reference categories by slug, so a slug change is a change of
+   * each of its products: a new version (BR-024) recorded in the audit log (BR-027)
+   */
+  if (updateData.slug !== existing.slug) {
+    productStore
+      .getAllIncludingDeleted()
+      .filter((product) => product.category === existing.slug)
+      .forEach((product) => {
+        const moved = productStore.update(product.id, {
+          category: updateData.slug,
+          dateModified: now,
+          version: product.version + 1,
+        });
+        auditRecord({
+          entity: AUDIT_ENTITIES.PRODUCT,
+          entityId: product.id,
+          label: product.name,
+          action: AUDIT_ACTIONS.UPDATE,
+          before: product,
+          after: moved as ProductRecord,
+          userId,
+        });
+      });
+  }
+
+  const updated = categoryStore.update(id, {
+    ...updateData,
+    dateModified: now,
+  });
+
+  if (!updated) {
+    throw new ServiceError('NOT_FOUND', 'Category not found', 404);
+  }
+
+  return updated;
+}
+
+/**
+ * @summary
+ * Deletes a category that has no subcategories and no products.
+ *
+ * @function categoryDelete
+ * @module services/category
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<{ message: string }>} Success confirmation
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When category with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the category still has subcategories or products
+ */
+export async function categoryDelete(params: unknown): Promise<{ message: string }> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+  const category = categoryStore.getById(id);
+
+  if (!category) {
+    throw new ServiceError('NOT_FOUND', 'Category not found', 404);
+  }
+
+  if (categoryStore.getAll().some((c) => c.parentId === id)) {
+    throw new ServiceError('CONFLICT', 'Category has subcategories', 409);
+  }
+
+  // Products in the trash count too, so they can be restored into their category
+  if (productStore.getAllIncludingDeleted().some((product) => product.category === category.slug)) {
+    throw new ServiceError('CONFLICT', 'Category has products', 409);
+  }
+
+  categoryStore.delete(id);
+  return { message: 'Category deleted successfully' };
+}
+
+/**
+ * @summary
+ * Expands category slugs to include all of their descendants, so filtering by a
+ * parent category also matches products in its subcategories. Unknown slugs are kept.
+ *
+ * @function categoryExpandSlugs
+ * @module services/category
+ *
+ * @param {string[]} slugs - Category slugs
+ * @returns {string[]} Slugs with their descendants
+ */
+export function categoryExpandSlugs(slugs: string[]): string[] {
+  const categories = categoryStore.getAll();
+  const expanded = new Set<string>(slugs);
+
+  for (const slug of slugs) {
+    const category = categories.find((c) => c.slug === slug);
+    if (category) {
+      getCategorySubtree(categories, category).forEach((c) => expanded.add(c.slug));
+    }
+  }
+
+  return [...expanded];
+}
+
+/**
+ * @summary
+ * Breadcrumb path (root first) of the category with the given slug.
+ *
+ * @function categoryPath
+ * @module services/category
+ *
+ * @param {string} slug - Category slug
+ * @returns {CategoryPathItem[]} Path, or empty when the category does not exist
+ */
+export function categoryPath(slug: string): CategoryPathItem[] {
+  const categories = categoryStore.getAll();
+  const category = categories.find((c) => c.slug === slug);
+
+  return category
+    ? getCategoryAncestry(categories, category).map((c) => ({ slug: c.slug, name: c.name }))
+    : [];
+}
+
+/**
+ * @summary
+ * Seeds the default categories into an empty store and migrates products that still
+ * reference a category by name (e.g. 'sala de estar') to the matching slug.
+ *
+ * @function categoryEnsureDefaults
+ * @module services/category
+ *
+ * @returns {Promise<{ created: number; migrated: number }>} Number of seeded categories and migrated products
+ */
+export async function categoryEnsureDefaults(): Promise<{ created: number; migrated: number }> {
+  let created = 0;
+
+  if (categoryStore.count() === 0) {
+    const now = new Date().toISOString();
+    CATEGORY_SEED.forEach((seed, index) => {
+      categoryStore.add({
+        id: categoryStore.getNextId(),
+        slug: seed.slug,
+        name: seed.name,
+        parentId: null,
+        order: index,
+        image: null,
+        dateCreated: now,
+        dateModified: now,
+      });
+      created += 1;
+    });
+  }
+
+  let migrated = 0;
+  const categories = categoryStore.getAll();
+
+  for (const product of productStore.getAllIncludingDeleted()) {
+    if (categories.some((c) => c.slug === product.category)) continue;
+
+    const match = categories.find(
+      (c) =>
+        c.slug === slugify(product.category) ||
+        normalizeText(c.name) === normalizeText(product.category)
+    );
+    if (match) {
+      productStore.update(product.id, { category: match.slug });
+      migrated += 1;
+    }
+  }
+
+  return { created, migrated };
+}
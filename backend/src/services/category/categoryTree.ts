@@ -0,0 +1,100 @@
+/**
+ * @summary
+ * Hierarchy helpers for categories.
+ * Pure functions over a flat category list, linked by parentId.
+ *
+ * @module services/category/categoryTree
+ */
+
+import { CategoryRecord } from '@/instances';
+
+/**
+ * Orders siblings by their configured order, then by name
+ */
+function compareCategories(a: CategoryRecord, b: CategoryRecord): number {
+  return a.order - b.order || a.name.localeCompare(b.name);
+}
+
+/**
+ * @summary
+ * Returns the direct children of a category (or the roots for null), in display order.
+ *
+ * @function getCategoryChildren
+ * @module services/category/categoryTree
+ */
+export function getCategoryChildren(
+  categories: CategoryRecord[],
+  parentId: number | null
+): CategoryRecord[] {
+  return categories.filter((c) => c.parentId === parentId).sort(compareCategories);
+}
+
+/**
+ * @summary
+ * Flattens the hierarchy depth-first, so every parent precedes its children.
+ *
+ * @function sortCategoriesDepthFirst
+ * @module services/category/categoryTree
+ */
+export function sortCategoriesDepthFirst(
+  categories: CategoryRecord[],
+  parentId: number | null = null
+): CategoryRecord[] {
+  return getCategoryChildren(categories, parentId).flatMap((category) => [
+    category,
+    ...sortCategoriesDepthFirst(categories, category.id),
+  ]);
+}
+
+/**
+ * @summary
+ * Returns a category and all of its descendants.
+ *
+ * @function getCategorySubtree
+ * @module services/category/categoryTree
+ */
+export function getCategorySubtree(
+  categories: CategoryRecord[],
+  category: CategoryRecord
+): CategoryRecord[] {
+  return [category, ...sortCategoriesDepthFirst(categories, category.id)];
+}
+
+/**
+ * @summary
+ * Returns the chain of categories from the root down to the given category.
+ *
+ * @function getCategoryAncestry
+ * @module services/category/categoryTree
+ */
+export function getCategoryAncestry(
+  categories: CategoryRecord[],
+  category: CategoryRecord
+): CategoryRecord[] {
+  const path: CategoryRecord[] = [category];
+  let parentId = category.parentId;
+
+  // Bounded by the list size in case stored data contains a cycle
+  while (parentId !== null && path.length <= categories.length) {
+    const parent = categories.find((c) => c.id === parentId);
+    if (!parent) break;
+    path.unshift(parent);
+    parentId = parent.parentId;
+  }
+
+  return path;
+}
+
+/**
+ * @summary
+ * Number of levels below a category (0 for a leaf).
+ *
+ * @function getCategoryHeight
+ * @module services/category/categoryTree
+ */
+export function getCategoryHeight(categories: CategoryRecord[], categoryId: number): number {
+  const children = categories.filter((c) => c.parentId === categoryId);
+  return children.length === 0
+    ? 0
+    : 1 + Math.max(...children.map((child) => getCategoryHeight(categories, child.id)));
+}
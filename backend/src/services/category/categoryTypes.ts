@@ -0,0 +1,54 @@
+/**
+ * @summary
+ * Type definitions for Category entity.
+ *
+ * @module services/category/categoryTypes
+ */
+
+/**
+ * @interface CategoryEntity
+ * @description Represents a product category; parentId links subcategories to their parent
+ */
+export interface CategoryEntity {
+  id: number;
+  slug: string;
+  name: string;
+  parentId: number | null;
+  order: number;
+  image: string | null;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface CategoryPathItem
+ * @description One level of a category breadcrumb (root first)
+ */
+export interface CategoryPathItem {
+  slug: string;
+  name: string;
+}
+
+/**
+ * @interface CategoryCreateRequest
+ * @description Request payload for creating a category
+ */
+export interface CategoryCreateRequest {
+  name: string;
+  slug?: string;
+  parentId?: number | null;
+  order?: number;
+  image?: string | null;
+}
+
+/**
+ * @interface CategoryUpdateRequest
+ * @description Request payload for updating a category
+ */
+export interface CategoryUpdateRequest {
+  name: string;
+  slug: string;
+  parentId: number | null;
+  order: number;
+  image: string | null;
+}
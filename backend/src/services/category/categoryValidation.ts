@@ -0,0 +1,56 @@
+/**
+ * @summary
+ * Validation schemas for Category entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/category/categoryValidation
+ */
+
+import { z } from 'zod';
+import { CATEGORY_LIMITS } from '@/constants';
+
+/**
+ * Schema for slug validation (lowercase words joined by hyphens)
+ */
+export const slugSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(CATEGORY_LIMITS.SLUG_MAX_LENGTH)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Slug must contain lowercase letters, digits and hyphens');
+
+/**
+ * Schema for create request validation
+ */
+export const createSchema = z.object({
+  name: z.string().trim().min(1).max(CATEGORY_LIMITS.NAME_MAX_LENGTH),
+  slug: slugSchema.optional(),
+  parentId: z.number().int().positive().nullable().optional().default(null),
+  order: z.number().int().nonnegative().optional(),
+  image: z.string().url().nullable().optional().default(null),
+});
+
+/**
+ * Schema for update request validation
+ */
+export const updateSchema = z.object({
+  name: z.string().trim().min(1).max(CATEGORY_LIMITS.NAME_MAX_LENGTH),
+  slug: slugSchema,
+  parentId: z.number().int().positive().nullable(),
+  order: z.number().int().nonnegative(),
+  image: z.string().url().nullable(),
+});
+
+/**
+ * Schema for ID parameter validation
+ */
+export const paramsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CreateInput = z.infer<typeof createSchema>;
+export type UpdateInput = z.infer<typeof updateSchema>;
+export type ParamsInput = z.infer<typeof paramsSchema>;
@@ -0,0 +1,11 @@
+/**
+ * @summary
+ * Centralized exports for Category service.
+ *
+ * @module services/category
+ */
+
+export * from './categoryTypes';
+export * from './categoryService';
+export * from './categoryValidation';
+export * from './categoryTree';
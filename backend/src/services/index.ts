@@ -14,7 +14,52 @@ export {
   initExampleDelete,
 } from './initExample';
 
-export { productList, productGet, productCreate, productUpdate, productDelete } from './product';
+export {
+  productList,
+  productGet,
+  productCreate,
+  productUpdate,
+  productPatch,
+  productDelete,
+  productPriceHistory,
+  productImport,
+  productExport,
+  productTrash,
+  productRestore,
+  productPurgeTrash,
+  productImageUpload,
+} from './product';
+
+export { userHashPassword, userList, userCreate, userDelete, userEnsureAdmin } from './user';
+
+export {
+  categoryList,
+  categoryGet,
+  categoryCreate,
+  categoryUpdate,
+  categoryDelete,
+  categoryExpandSlugs,
+  categoryPath,
+  categoryEnsureDefaults,
+} from './category';
+
+export {
+  inventoryLocationList,
+  inventoryLocationCreate,
+  inventoryLocationUpdate,
+  inventoryLocationDelete,
+  inventoryResolveStock,
+  inventoryProductStock,
+  inventoryMovementList,
+  inventoryMovementCreate,
+  inventoryEnsureDefaults,
+} from './inventory';
+
+export { auditDiff, auditRecord, auditList } from './audit';
+
+export { catalogList, catalogGet, catalogCategories, catalogFacets } from './catalog';
+
+export { authLogin, authRefresh, authLogout, authVerifyAccessToken } from './auth';
 
 export type {
   InitExampleEntity,
@@ -26,13 +71,66 @@ export type {
 
 export type {
   ProductEntity,
+  ProductCachedResult,
+  ProductOption,
+  ProductVariant,
+  ProductMeasurements,
+  ProductSale,
+  ProductVariantEntity,
   ProductListItem,
   ProductListResponse,
   ProductCreateRequest,
   ProductUpdateRequest,
   ProductListFilters,
+  ProductPriceChange,
+  ProductPriceHistory,
+  ProductImportRowError,
+  ProductImportRowResult,
+  ProductImportReport,
+  ProductExport,
+  ProductTrashItem,
+  ProductTrashResponse,
+  ProductImageRendition,
+  ProductImageUpload,
 } from './product';
 
+export type {
+  CategoryEntity,
+  CategoryPathItem,
+  CategoryCreateRequest,
+  CategoryUpdateRequest,
+} from './category';
+
+export type {
+  StockLocationEntity,
+  StockLevel,
+  ProductStock,
+  StockMovementEntity,
+  StockMovementListResponse,
+  StockSummary,
+  StockLocationCreateRequest,
+  StockLocationUpdateRequest,
+  StockMovementCreateRequest,
+} from './inventory';
+
+export type {
+  AuditFieldChange,
+  AuditEntryEntity,
+  AuditListResponse,
+  AuditRecordRequest,
+} from './audit';
+
+export type { UserEntity, UserCreateRequest } from './user';
+
+export type { AuthUser, AuthSession } from './auth';
+
+export type {
+  CatalogProductItem,
+  CatalogProductDetail,
+  CatalogCategory,
+  CatalogListResponse,
+} from './catalog';
+
 export type {
   CreateInput as InitExampleCreateInput,
   UpdateInput as InitExampleUpdateInput,
@@ -45,4 +143,27 @@ export type {
   UpdateInput as ProductUpdateInput,
   ParamsInput as ProductParamsInput,
   ListQueryInput as ProductListQueryInput,
+  PriceHistoryQueryInput as ProductPriceHistoryQueryInput,
+  ImportQueryInput as ProductImportQueryInput,
+  ExportQueryInput as ProductExportQueryInput,
 } from './product';
+
+export type { CreateInput as UserCreateInput, ParamsInput as UserParamsInput } from './user';
+
+export type {
+  CreateInput as CategoryCreateInput,
+  UpdateInput as CategoryUpdateInput,
+  ParamsInput as CategoryParamsInput,
+} from './category';
+
+export type {
+  LocationCreateInput as InventoryLocationCreateInput,
+  LocationUpdateInput as InventoryLocationUpdateInput,
+  MovementCreateInput as InventoryMovementCreateInput,
+  MovementListQueryInput as InventoryMovementListQueryInput,
+  ParamsInput as InventoryParamsInput,
+} from './inventory';
+
+export type { ListQueryInput as AuditListQueryInput } from './audit';
+
+export type { LoginInput as AuthLoginInput, RefreshInput as AuthRefreshInput } from './auth';
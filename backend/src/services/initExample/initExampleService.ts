@@ -1,14 +1,15 @@
 /**
  * @summary
  * Business logic for InitExample entity.
- * Handles CRUD operations using in-memory storage.
+ * Handles CRUD operations using in-memory storage and records them in the audit log.
  * All validation and business logic is centralized here.
  *
  * @module services/initExample/initExampleService
  */
 
-import { INIT_EXAMPLE_DEFAULTS } from '@/constants';
-import { initExampleStore } from '@/instances';
+import { AUDIT_ACTIONS, AUDIT_ENTITIES, AuditAction, INIT_EXAMPLE_DEFAULTS } from '@/constants';
+import { initExampleStore, InitExampleRecord } from '@/instances';
+import { auditRecord } from '@/services/audit';
 import { ServiceError } from '@/utils';
 import {
   InitExampleEntity,
@@ -28,6 +29,27 @@ function createDefaultMetadata(): InitExampleMetadata {
   };
 }
 
+/**
+ * Records an init-example mutation in the audit log
+ */
+function auditInitExample(
+  action: AuditAction,
+  before: InitExampleRecord | null,
+  after: InitExampleRecord | null,
+  userId: number | null
+): void {
+  const example = (after ?? before) as InitExampleRecord;
+  auditRecord({
+    entity: AUDIT_ENTITIES.INIT_EXAMPLE,
+    entityId: example.id,
+    label: example.name,
+    action,
+    before,
+    after,
+    userId,
+  });
+}
+
 /**
  * @summary
  * Lists all init-examples from the in-memory store.
@@ -59,6 +81,7 @@ export async function initExampleList(): Promise<InitExampleListResponse[]> {
  * @module services/initExample
  *
  * @param {unknown} body - Raw request body to validate against createSchema
+ * @param {number | null} [userId] - Authenticated user, recorded in the audit log
  * @returns {Promise<InitExampleEntity>} The newly created init-example entity
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
@@ -67,7 +90,10 @@ export async function initExampleList(): Promise<InitExampleListResponse[]> {
  * const newEntity = await initExampleCreate({ name: 'Test', description: 'A test entity' });
  * // Returns: { id: 1, name: 'Test', description: 'A test entity', active: true, ... }
  */
-export async function initExampleCreate(body: unknown): Promise<InitExampleEntity> {
+export async function initExampleCreate(
+  body: unknown,
+  userId: number | null = null
+): Promise<InitExampleEntity> {
   const validation = createSchema.safeParse(body);
 
   if (!validation.success) {
@@ -89,6 +115,7 @@ export async function initExampleCreate(body: unknown): Promise<InitExampleEntit
   };
 
   initExampleStore.add(newExample);
+  auditInitExample(AUDIT_ACTIONS.CREATE, null, newExample, userId);
   return newExample;
 }
 
@@ -135,6 +162,7 @@ export async function initExampleGet(params: unknown): Promise<InitExampleEntity
  *
  * @param {unknown} params - Raw request params containing the ID to validate
  * @param {unknown} body - Raw request body with update data to validate
+ * @param {number | null} [userId] - Authenticated user, recorded in the audit log
  * @returns {Promise<InitExampleEntity>} The updated init-example entity
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation
@@ -146,7 +174,8 @@ export async function initExampleGet(params: unknown): Promise<InitExampleEntity
  */
 export async function initExampleUpdate(
   params: unknown,
-  body: unknown
+  body: unknown,
+  userId: number | null = null
 ): Promise<InitExampleEntity> {
   const paramsValidation = paramsSchema.safeParse(params);
 
@@ -180,6 +209,7 @@ export async function initExampleUpdate(
     metadata: updateData.metadata ?? existing.metadata,
     dateModified: new Date().toISOString(),
   });
+  auditInitExample(AUDIT_ACTIONS.UPDATE, existing, updated ?? null, userId);
 
   return updated as InitExampleEntity;
 }
@@ -192,6 +222,7 @@ export async function initExampleUpdate(
  * @module services/initExample
  *
  * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {number | null} [userId] - Authenticated user, recorded in the audit log
  * @returns {Promise<{ message: string }>} Success confirmation message
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
@@ -201,7 +232,10 @@ export async function initExampleUpdate(
  * const result = await initExampleDelete({ id: '1' });
  * // Returns: { message: 'Deleted successfully' }
  */
-export async function initExampleDelete(params: unknown): Promise<{ message: string }> {
+export async function initExampleDelete(
+  params: unknown,
+  userId: number | null = null
+): Promise<{ message: string }> {
   const validation = paramsSchema.safeParse(params);
 
   if (!validation.success) {
@@ -209,11 +243,13 @@ export async function initExampleDelete(params: unknown): Promise<{ message: str
   }
 
   const { id } = validation.data;
+  const existing = initExampleStore.getById(id);
 
-  if (!initExampleStore.exists(id)) {
+  if (!existing) {
     throw new ServiceError('NOT_FOUND', 'Not found', 404);
   }
 
   initExampleStore.delete(id);
+  auditInitExample(AUDIT_ACTIONS.DELETE, existing, null, userId);
   return { message: 'Deleted successfully' };
 }
@@ -0,0 +1,10 @@
+/**
+ * @summary
+ * Centralized exports for inventory service.
+ *
+ * @module services/inventory
+ */
+
+export * from './inventoryTypes';
+export * from './inventoryService';
+export * from './inventoryValidation';
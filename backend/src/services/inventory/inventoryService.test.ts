@@ -0,0 +1,184 @@
+/**
+ * @summary
+ * Tests for the inventory service: the stock movement ledger and the availability derived
+ * from it.
+ *
+ * @module services/inventory/inventoryService.test
+ */
+
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import { stockLocationStore } from '@/instances';
+import { categoryEnsureDefaults } from '@/services/category';
+import { productCreate, productGet, productPatch } from '@/services/product';
+import { formatEtag } from '@/utils';
+import {
+  inventoryEnsureDefaults,
+  inventoryMovementCreate,
+  inventoryProductStock,
+} from './inventoryService';
+
+const product = {
+  name: 'Mesa Jantar',
+  description: null,
+  mainImage: 'https://example.com/mesa.jpg',
+  price: 1800,
+  category: 'sala-de-estar',
+  shortDescription: null,
+  dimensions: null,
+};
+
+/**
+ * Linen and velvet variants; SKUs are unique across products, so each test names its own
+ */
+function withVariants(skuPrefix: string) {
+  return {
+    options: [{ name: 'Tecido', values: ['Linho', 'Veludo'] }],
+    variants: [
+      {
+        sku: `${skuPrefix}-LIN`,
+        options: { Tecido: 'Linho' },
+        price: 2500,
+        images: [],
+        available: true,
+      },
+      {
+        sku: `${skuPrefix}-VEL`,
+        options: { Tecido: 'Veludo' },
+        price: 2900,
+        images: [],
+        available: true,
+      },
+    ],
+  };
+}
+
+describe('inventoryService', () => {
+  let warehouse: number;
+  let showroom: number;
+
+  before(async () => {
+    await categoryEnsureDefaults();
+    await inventoryEnsureDefaults();
+    [warehouse, showroom] = stockLocationStore.getAll().map((location) => location.id);
+  });
+
+  it('keeps a running balance per location', async () => {
+    const { id } = await productCreate(product);
+
+    const entrada = await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'entrada', quantity: 10 },
+      null
+    );
+    const saida = await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'saida', quantity: 4 },
+      null
+    );
+    const ajuste = await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'ajuste', quantity: 2 },
+      null
+    );
+    await inventoryMovementCreate(
+      { productId: id, locationId: showroom, type: 'entrada', quantity: 3 },
+      null
+    );
+
+    assert.deepEqual(
+      [entrada, saida, ajuste].map(({ delta, balance }) => [delta, balance]),
+      [
+        [10, 10],
+        [-4, 6],
+        [-4, 2],
+      ]
+    );
+    const stock = await inventoryProductStock({ id });
+    assert.equal(stock.tracked, true);
+    assert.equal(stock.stockQuantity, 5);
+  });
+
+  it('rejects a saída above the units at the location', async () => {
+    const { id } = await productCreate(product);
+    await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'entrada', quantity: 2 },
+      null
+    );
+
+    await assert.rejects(
+      inventoryMovementCreate(
+        { productId: id, locationId: showroom, type: 'saida', quantity: 1 },
+        null
+      ),
+      { code: 'INSUFFICIENT_STOCK', statusCode: 409 }
+    );
+  });
+
+  it('derives availability from stock without a new product version', async () => {
+    const created = await productCreate({ ...product, available: true });
+    const { id } = created;
+
+    await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'ajuste', quantity: 0 },
+      null
+    );
+    const empty = (await productGet({ id })).data;
+    await inventoryMovementCreate(
+      { productId: id, locationId: warehouse, type: 'entrada', quantity: 1 },
+      null
+    );
+    const stocked = (await productGet({ id })).data;
+
+    assert.equal(empty.available, false);
+    assert.equal(stocked.available, true);
+    assert.equal(stocked.stockQuantity, 1);
+    assert.equal(stocked.version, created.version);
+    // An editor holding the product form can still save; stock comes from the ledger
+    const patched = await productPatch(
+      { id },
+      { featured: true, available: false },
+      null,
+      formatEtag(created.version)
+    );
+    assert.equal(patched.available, true);
+  });
+
+  it('keeps stock per variant SKU, matched case-insensitively', async () => {
+    const { id } = await productCreate({ ...product, ...withVariants('SOFA') });
+
+    const movement = await inventoryMovementCreate(
+      { productId: id, sku: 'sofa-lin', locationId: warehouse, type: 'entrada', quantity: 2 },
+      null
+    );
+    const { data } = await productGet({ id });
+
+    assert.equal(movement.sku, 'SOFA-LIN');
+    assert.deepEqual(
+      data.variants.map(({ sku, available }) => [sku, available]),
+      [
+        ['SOFA-LIN', true],
+        ['SOFA-VEL', false],
+      ]
+    );
+    await assert.rejects(
+      inventoryMovementCreate(
+        { productId: id, locationId: warehouse, type: 'entrada', quantity: 1 },
+        null
+      ),
+      { code: 'VALIDATION_ERROR' }
+    );
+  });
+
+  it('rejects removing a variant SKU that still has stock', async () => {
+    const { options, variants } = withVariants('POLTRONA');
+    const { id } = await productCreate({ ...product, options, variants });
+    await inventoryMovementCreate(
+      { productId: id, sku: 'POLTRONA-VEL', locationId: showroom, type: 'entrada', quantity: 1 },
+      null
+    );
+    const { version } = (await productGet({ id })).data;
+
+    await assert.rejects(
+      productPatch({ id }, { options, variants: variants.slice(0, 1) }, null, formatEtag(version)),
+      { code: 'CONFLICT', message: 'SKU still has stock' }
+    );
+  });
+});
@@ -0,0 +1,543 @@
+/**
+ * @summary
+ * Business logic for inventory.
+ * Manages stock locations, records stock movements in an append-only ledger and keeps
+ * per-location stock levels and product availability in step with it.
+ *
+ * @module services/inventory/inventoryService
+ */
+
+import { STOCK_LOCATION_SEED, STOCK_MOVEMENT_TYPES } from '@/constants';
+import {
+  productStore,
+  stockLevelStore,
+  stockLocationStore,
+  stockMovementStore,
+  ProductVariantRecord,
+  StockLocationRecord,
+} from '@/instances';
+import { ServiceError, slugify } from '@/utils';
+import {
+  ProductStock,
+  StockLocationEntity,
+  StockMovementEntity,
+  StockMovementListResponse,
+  StockSummary,
+} from './inventoryTypes';
+import {
+  locationCreateSchema,
+  locationUpdateSchema,
+  movementCreateSchema,
+  movementListQuerySchema,
+  paramsSchema,
+} from './inventoryValidation';
+
+/**
+ * Rejects a location code used by another location
+ */
+function assertUniqueCode(code: string, locationId?: number): void {
+  const existing = stockLocationStore.getByCode(code);
+  if (existing && existing.id !== locationId) {
+    throw new ServiceError('CONFLICT', 'Location code already in use', 409, [
+      { path: ['code'], message: 'Location code already in use' },
+    ]);
+  }
+}
+
+/**
+ * Builds a validation error for a single body field
+ */
+function invalidField(field: string, message: string): ServiceError {
+  return new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+    { path: [field], message },
+  ]);
+}
+
+/**
+ * Comparison key of a SKU; SKUs are matched case-insensitively
+ */
+const skuKey = (sku: string | null) => sku?.toLowerCase() ?? null;
+
+/**
+ * @summary
+ * Lists stock locations ordered by name.
+ *
+ * @function inventoryLocationList
+ * @module services/inventory
+ *
+ * @returns {Promise<StockLocationEntity[]>} All stock locations
+ */
+export async function inventoryLocationList(): Promise<StockLocationEntity[]> {
+  return stockLocationStore.getAll().sort((a, b) => a.name.localeCompare(b.name, 'pt-BR'));
+}
+
+/**
+ * @summary
+ * Creates a stock location. The code is derived from the name when omitted.
+ *
+ * @function inventoryLocationCreate
+ * @module services/inventory
+ *
+ * @param {unknown} body - Raw request body to validate against locationCreateSchema
+ * @returns {Promise<StockLocationEntity>} The newly created location
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation
+ * @throws {ServiceError} CONFLICT (409) - When the code is already in use
+ *
+ * @example
+ * const showroom = await inventoryLocationCreate({ name: 'Showroom Centro', type: 'showroom' });
+ * // Returns: { id: 3, code: 'showroom-centro', name: 'Showroom Centro', type: 'showroom', ... }
+ */
+export async function inventoryLocationCreate(body: unknown): Promise<StockLocationEntity> {
+  const validation = locationCreateSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+  const code = params.code ?? slugify(params.name);
+
+  if (!code) {
+    throw invalidField('code', 'A code could not be derived from the name');
+  }
+
+  assertUniqueCode(code);
+
+  const now = new Date().toISOString();
+  const location: StockLocationRecord = {
+    id: stockLocationStore.getNextId(),
+    code,
+    name: params.name,
+    type: params.type,
+    dateCreated: now,
+    dateModified: now,
+  };
+
+  return stockLocationStore.add(location);
+}
+
+/**
+ * @summary
+ * Updates a stock location.
+ *
+ * @function inventoryLocationUpdate
+ * @module services/inventory
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Raw request body with update data to validate
+ * @returns {Promise<StockLocationEntity>} The updated location
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation
+ * @throws {ServiceError} NOT_FOUND (404) - When location with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the code is already in use
+ */
+export async function inventoryLocationUpdate(
+  params: unknown,
+  body: unknown
+): Promise<StockLocationEntity> {
+  const paramsValidation = paramsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const bodyValidation = locationUpdateSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  const { id } = paramsValidation.data;
+
+  if (!stockLocationStore.getById(id)) {
+    throw new ServiceError('NOT_FOUND', 'Location not found', 404);
+  }
+
+  assertUniqueCode(bodyValidation.data.code, id);
+
+  const updated = stockLocationStore.update(id, {
+    ...bodyValidation.data,
+    dateModified: new Date().toISOString(),
+  });
+
+  if (!updated) {
+    throw new ServiceError('NOT_FOUND', 'Location not found', 404);
+  }
+
+  return updated;
+}
+
+/**
+ * @summary
+ * Deletes a stock location that has never had movements.
+ *
+ * @function inventoryLocationDelete
+ * @module services/inventory
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<{ message: string }>} Success confirmation
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When location with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the ledger references the location
+ */
+export async function inventoryLocationDelete(params: unknown): Promise<{ message: string }> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+
+  if (!stockLocationStore.getById(id)) {
+    throw new ServiceError('NOT_FOUND', 'Location not found', 404);
+  }
+
+  /**
+   * @rule {BR-029} The ledger is append-only, so locations it references stay
+   */
+  if (stockMovementStore.hasLocation(id)) {
+    throw new ServiceError('CONFLICT', 'Location has stock movements', 409);
+  }
+
+  stockLocationStore.delete(id);
+  return { message: 'Location deleted successfully' };
+}
+
+/**
+ * @summary
+ * Derives stock-driven product fields from the current stock levels: the total on hand
+ * and, per variant and overall, whether any unit is left. Returns null for products
+ * whose stock is not tracked yet (no movements recorded).
+ *
+ * @function inventoryResolveStock
+ * @module services/inventory
+ *
+ * @param {number} productId - Product ID
+ * @param {ProductVariantRecord[]} variants - Current variants of the product
+ * @returns {StockSummary | null} Stock-derived fields, or null when untracked
+ */
+export function inventoryResolveStock(
+  productId: number,
+  variants: ProductVariantRecord[]
+): StockSummary | null {
+  const levels = stockLevelStore.getByProduct(productId);
+  if (levels.length === 0) return null;
+
+  const quantityOf = (sku: string | null) =>
+    levels
+      .filter((level) => skuKey(level.sku) === skuKey(sku))
+      .reduce((sum, level) => sum + level.quantity, 0);
+
+  /**
+   * @rule {BR-018} Tracked products are available while units are in stock; with variants,
+   * each variant is available while its own SKU is in stock
+   */
+  if (variants.length === 0) {
+    const stockQuantity = quantityOf(null);
+    return { stockQuantity, available: stockQuantity > 0, variants };
+  }
+
+  const resolved = variants.map((variant) => ({
+    ...variant,
+    available: quantityOf(variant.sku) > 0,
+  }));
+
+  return {
+    stockQuantity: variants.reduce((sum, variant) => sum + quantityOf(variant.sku), 0),
+    available: resolved.some((variant) => variant.available),
+    variants: resolved,
+  };
+}
+
+/**
+ * @summary
+ * Rejects a change to a product's variants that would leave units in stock under a SKU the
+ * product no longer has (a renamed or removed variant, or variants added to a product
+ * stocked without them).
+ *
+ * @function inventoryAssertStockKept
+ * @module services/inventory
+ *
+ * @param {number} productId - Product ID
+ * @param {ProductVariantRecord[]} variants - Variants the product is about to have
+ *
+ * @throws {ServiceError} CONFLICT (409) - When a SKU that would be dropped still has stock
+ */
+export function inventoryAssertStockKept(
+  productId: number,
+  variants: ProductVariantRecord[]
+): void {
+  const skus = new Set(
+    variants.length > 0 ? variants.map((variant) => skuKey(variant.sku)) : [null]
+  );
+  const dropped = new Map<string | null, { sku: string | null; quantity: number }>();
+
+  stockLevelStore.getByProduct(productId).forEach((level) => {
+    const key = skuKey(level.sku);
+    if (level.quantity === 0 || skus.has(key)) return;
+    const entry = dropped.get(key) ?? { sku: level.sku, quantity: 0 };
+    entry.quantity += level.quantity;
+    dropped.set(key, entry);
+  });
+
+  /**
+   * @rule {BR-018} Stock levels and the movement ledger are kept per SKU, so a SKU cannot
+   * be renamed or removed while it still has units in stock
+   */
+  if (dropped.size > 0) {
+    throw new ServiceError(
+      'CONFLICT',
+      'SKU still has stock',
+      409,
+      [...dropped.values()].map(({ sku, quantity }) => {
+        const owner = sku === null ? 'Product' : `SKU ${sku}`;
+        return {
+          path: ['variants'],
+          message: `${owner} still has ${quantity} units in stock; move them out first`,
+        };
+      })
+    );
+  }
+}
+
+/**
+ * @summary
+ * Gets the stock of a product per location (and per variant).
+ *
+ * @function inventoryProductStock
+ * @module services/inventory
+ *
+ * @param {unknown} params - Raw request params containing the product ID to validate
+ * @returns {Promise<ProductStock>} Stock levels of the product
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ */
+export async function inventoryProductStock(params: unknown): Promise<ProductStock> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+  const product = productStore.getById(id);
+
+  if (!product) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  const levels = stockLevelStore.getByProduct(id);
+
+  return {
+    productId: id,
+    tracked: levels.length > 0,
+    stockQuantity: product.stockQuantity,
+    levels: levels.map((level) => {
+      const location = stockLocationStore.getById(level.locationId);
+      return {
+        locationId: level.locationId,
+        locationCode: location?.code ?? '',
+        locationName: location?.name ?? '',
+        sku: level.sku,
+        quantity: level.quantity,
+      };
+    }),
+  };
+}
+
+/**
+ * @summary
+ * Lists the stock movement ledger, newest first.
+ *
+ * @function inventoryMovementList
+ * @module services/inventory
+ *
+ * @param {unknown} query - Raw query parameters (productId, sku, locationId, type, page, pageSize)
+ * @returns {Promise<StockMovementListResponse>} Page of ledger entries
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ */
+export async function inventoryMovementList(query: unknown): Promise<StockMovementListResponse> {
+  const validation = movementListQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const filters = validation.data;
+  const movements = stockMovementStore
+    .getAll()
+    .filter(
+      (movement) =>
+        (filters.productId === undefined || movement.productId === filters.productId) &&
+        (filters.sku === undefined || movement.sku?.toLowerCase() === filters.sku.toLowerCase()) &&
+        (filters.locationId === undefined || movement.locationId === filters.locationId) &&
+        (filters.type === undefined || movement.type === filters.type)
+    )
+    .sort((a, b) => b.id - a.id);
+
+  const { page, pageSize } = filters;
+  const total = movements.length;
+  const totalPages = Math.ceil(total / pageSize);
+  const offset = (page - 1) * pageSize;
+
+  return {
+    items: movements.slice(offset, offset + pageSize),
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1,
+    },
+  };
+}
+
+/**
+ * @summary
+ * Records a stock movement, updates the stock level at the location and re-derives the
+ * product's availability from stock.
+ *
+ * @function inventoryMovementCreate
+ * @module services/inventory
+ *
+ * @param {unknown} body - Raw request body to validate against movementCreateSchema
+ * @param {number | null} userId - ID of the user recording the movement
+ * @returns {Promise<StockMovementEntity>} The recorded movement, with the resulting balance
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails validation, or the product,
+ * location or variant SKU does not exist
+ * @throws {ServiceError} INSUFFICIENT_STOCK (409) - When a saída exceeds the units on hand
+ *
+ * @example
+ * await inventoryMovementCreate({ productId: 1, locationId: 1, type: 'entrada', quantity: 10 }, 1);
+ * // Returns: { id: 1, type: 'entrada', quantity: 10, delta: 10, balance: 10, ... }
+ *
+ * @example
+ * await inventoryMovementCreate(
+ *   { productId: 2, sku: 'SOFA-LIN', locationId: 2, type: 'ajuste', quantity: 3, note: 'Contagem' },
+ *   1
+ * );
+ * // Returns: { ..., type: 'ajuste', quantity: 3, delta: -1, balance: 3 }
+ */
+export async function inventoryMovementCreate(
+  body: unknown,
+  userId: number | null
+): Promise<StockMovementEntity> {
+  const validation = movementCreateSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+  const product = productStore.getById(params.productId);
+
+  if (!product) {
+    throw invalidField('productId', 'Product not found');
+  }
+
+  if (!stockLocationStore.getById(params.locationId)) {
+    throw invalidField('locationId', 'Location not found');
+  }
+
+  /**
+   * @rule {BR-018} Products with variants keep stock per variant SKU
+   */
+  let sku: string | null = null;
+  if (product.variants.length > 0) {
+    const variant = product.variants.find(
+      (item) => item.sku.toLowerCase() === params.sku?.toLowerCase()
+    );
+    if (!variant) {
+      throw invalidField('sku', 'A variant SKU of the product is required');
+    }
+    sku = variant.sku;
+  } else if (params.sku !== null) {
+    throw invalidField('sku', 'Product has no variants');
+  }
+
+  const current = stockLevelStore.find(product.id, sku, params.locationId)?.quantity ?? 0;
+  let balance: number;
+
+  switch (params.type) {
+    case STOCK_MOVEMENT_TYPES.ENTRADA:
+      balance = current + params.quantity;
+      break;
+    case STOCK_MOVEMENT_TYPES.SAIDA:
+      if (params.quantity > current) {
+        throw new ServiceError('INSUFFICIENT_STOCK', 'Insufficient stock', 409, [
+          { path: ['quantity'], message: `Only ${current} units in stock at this location` },
+        ]);
+      }
+      balance = current - params.quantity;
+      break;
+    default:
+      balance = params.quantity;
+  }
+
+  stockLevelStore.set(product.id, sku, params.locationId, balance);
+
+  const movement = stockMovementStore.add({
+    id: stockMovementStore.getNextId(),
+    productId: product.id,
+    sku,
+    locationId: params.locationId,
+    type: params.type,
+    quantity: params.quantity,
+    delta: balance - current,
+    balance,
+    note: params.note,
+    userId,
+    dateCreated: new Date().toISOString(),
+  });
+
+  const stock = inventoryResolveStock(product.id, product.variants);
+  if (stock) {
+    productStore.update(product.id, { ...stock, dateModified: movement.dateCreated });
+  }
+
+  return movement;
+}
+
+/**
+ * @summary
+ * Seeds the default stock locations into an empty store.
+ *
+ * @function inventoryEnsureDefaults
+ * @module services/inventory
+ *
+ * @returns {Promise<{ created: number }>} Number of seeded locations
+ */
+export async function inventoryEnsureDefaults(): Promise<{ created: number }> {
+  if (stockLocationStore.count() > 0) return { created: 0 };
+
+  const now = new Date().toISOString();
+  STOCK_LOCATION_SEED.forEach((seed) => {
+    stockLocationStore.add({
+      id: stockLocationStore.getNextId(),
+      code: seed.code,
+      name: seed.name,
+      type: seed.type,
+      dateCreated: now,
+      dateModified: now,
+    });
+  });
+
+  return { created: STOCK_LOCATION_SEED.length };
+}
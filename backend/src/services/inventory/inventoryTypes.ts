@@ -0,0 +1,124 @@
+/**
+ * @summary
+ * Type definitions for inventory: stock locations, levels and the movement ledger.
+ *
+ * @module services/inventory/inventoryTypes
+ */
+
+import { StockLocationType, StockMovementType } from '@/constants';
+import { ProductVariant } from '@/services/product';
+
+/**
+ * @interface StockLocationEntity
+ * @description A warehouse or showroom where stock is kept
+ */
+export interface StockLocationEntity {
+  id: number;
+  code: string;
+  name: string;
+  type: StockLocationType;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface StockLevel
+ * @description Units of a product (or variant, by sku) at a location
+ */
+export interface StockLevel {
+  locationId: number;
+  locationCode: string;
+  locationName: string;
+  sku: string | null;
+  quantity: number;
+}
+
+/**
+ * @interface ProductStock
+ * @description Stock of a product across locations. Untracked products have no movements yet
+ * and keep their manual availability.
+ */
+export interface ProductStock {
+  productId: number;
+  tracked: boolean;
+  stockQuantity: number | null;
+  levels: StockLevel[];
+}
+
+/**
+ * @interface StockMovementEntity
+ * @description A ledger entry. `quantity` is the value sent (units moved, or the counted
+ * balance for an ajuste); `delta` is the resulting change and `balance` the level afterwards.
+ */
+export interface StockMovementEntity {
+  id: number;
+  productId: number;
+  sku: string | null;
+  locationId: number;
+  type: StockMovementType;
+  quantity: number;
+  delta: number;
+  balance: number;
+  note: string | null;
+  userId: number | null;
+  dateCreated: string;
+}
+
+/**
+ * @interface StockMovementListResponse
+ * @description Ledger page, newest movements first
+ */
+export interface StockMovementListResponse {
+  items: StockMovementEntity[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+  };
+}
+
+/**
+ * @interface StockSummary
+ * @description Product fields derived from stock levels
+ */
+export interface StockSummary {
+  stockQuantity: number;
+  available: boolean;
+  variants: ProductVariant[];
+}
+
+/**
+ * @interface StockLocationCreateRequest
+ * @description Request payload for creating a stock location
+ */
+export interface StockLocationCreateRequest {
+  name: string;
+  code?: string;
+  type: StockLocationType;
+}
+
+/**
+ * @interface StockLocationUpdateRequest
+ * @description Request payload for updating a stock location
+ */
+export interface StockLocationUpdateRequest {
+  name: string;
+  code: string;
+  type: StockLocationType;
+}
+
+/**
+ * @interface StockMovementCreateRequest
+ * @description Request payload for recording a stock movement
+ */
+export interface StockMovementCreateRequest {
+  productId: number;
+  sku?: string | null;
+  locationId: number;
+  type: StockMovementType;
+  quantity: number;
+  note?: string | null;
+}
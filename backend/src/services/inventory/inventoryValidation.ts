@@ -0,0 +1,104 @@
+/**
+ * @summary
+ * Validation schemas for inventory.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/inventory/inventoryValidation
+ */
+
+import { z } from 'zod';
+import { INVENTORY_LIMITS, STOCK_LOCATION_TYPES, STOCK_MOVEMENT_TYPES } from '@/constants';
+
+/**
+ * Schema for location codes (lowercase words joined by hyphens)
+ */
+const locationCodeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(INVENTORY_LIMITS.LOCATION_CODE_MAX_LENGTH)
+  .regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Code must contain lowercase letters, digits and hyphens');
+
+const locationTypeSchema = z.enum([STOCK_LOCATION_TYPES.WAREHOUSE, STOCK_LOCATION_TYPES.SHOWROOM]);
+
+const movementTypeSchema = z.enum([
+  STOCK_MOVEMENT_TYPES.ENTRADA,
+  STOCK_MOVEMENT_TYPES.SAIDA,
+  STOCK_MOVEMENT_TYPES.AJUSTE,
+]);
+
+/**
+ * Schema for location create request validation
+ */
+export const locationCreateSchema = z.object({
+  name: z.string().trim().min(1).max(INVENTORY_LIMITS.LOCATION_NAME_MAX_LENGTH),
+  code: locationCodeSchema.optional(),
+  type: locationTypeSchema,
+});
+
+/**
+ * Schema for location update request validation
+ */
+export const locationUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(INVENTORY_LIMITS.LOCATION_NAME_MAX_LENGTH),
+  code: locationCodeSchema,
+  type: locationTypeSchema,
+});
+
+/**
+ * Schema for movement create request validation.
+ * Entradas and saídas move at least one unit; an ajuste may count zero.
+ */
+export const movementCreateSchema = z
+  .object({
+    productId: z.number().int().positive(),
+    sku: z.string().trim().min(1).nullable().optional().default(null),
+    locationId: z.number().int().positive(),
+    type: movementTypeSchema,
+    quantity: z.number().int().nonnegative().max(INVENTORY_LIMITS.MAX_QUANTITY),
+    note: z
+      .string()
+      .trim()
+      .max(INVENTORY_LIMITS.NOTE_MAX_LENGTH)
+      .nullable()
+      .optional()
+      .default(null),
+  })
+  .refine((data) => data.type === STOCK_MOVEMENT_TYPES.AJUSTE || data.quantity > 0, {
+    message: 'Quantity must be greater than zero',
+    path: ['quantity'],
+  });
+
+/**
+ * Schema for ledger query parameters validation
+ */
+export const movementListQuerySchema = z.object({
+  productId: z.coerce.number().int().positive().optional(),
+  sku: z.string().trim().min(1).optional(),
+  locationId: z.coerce.number().int().positive().optional(),
+  type: movementTypeSchema.optional(),
+  page: z.coerce.number().int().positive().optional().default(1),
+  pageSize: z.coerce
+    .number()
+    .int()
+    .positive()
+    .max(INVENTORY_LIMITS.LEDGER_MAX_PAGE_SIZE)
+    .optional()
+    .default(INVENTORY_LIMITS.LEDGER_PAGE_SIZE),
+});
+
+/**
+ * Schema for ID parameter validation
+ */
+export const paramsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type LocationCreateInput = z.infer<typeof locationCreateSchema>;
+export type LocationUpdateInput = z.infer<typeof locationUpdateSchema>;
+export type MovementCreateInput = z.infer<typeof movementCreateSchema>;
+export type MovementListQueryInput = z.infer<typeof movementListQuerySchema>;
+export type ParamsInput = z.infer<typeof paramsSchema>;
@@ -0,0 +1,130 @@
+/**
+ * @summary
+ * File writing for Product exports.
+ * Streams products as CSV, XLSX (one row per product, nested fields flattened) or JSON
+ * (an array of product entities). Every format exports the regular price as price and the
+ * sale price as effectivePrice.
+ *
+ * @module services/product/productExportFile
+ */
+
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { stream as excelStream } from 'exceljs';
+import { PRODUCT_EXPORT, PRODUCT_IMPORT, ProductExportFormat } from '@/constants';
+import { formatCsvRow } from '@/utils';
+import { ProductEntity } from './productTypes';
+
+type ExportValue = string | number | boolean | null;
+
+/**
+ * Spreadsheet columns. Headers are the entity field names, so the import reads sku,
+ * names, images, prices and measurements back. price is the regular price, as the import
+ * reads it; the sale price goes in effectivePrice, which the import ignores.
+ */
+const EXPORT_COLUMNS: [string, (product: ProductEntity) => ExportValue][] = [
+  ['id', (p) => p.id],
+  ['externalSku', (p) => p.externalSku],
+  ['name', (p) => p.name],
+  ['description', (p) => p.description],
+  ['shortDescription', (p) => p.shortDescription],
+  ['mainImage', (p) => p.mainImage],
+  ['images', (p) => p.images.join(PRODUCT_IMPORT.LIST_SEPARATOR)],
+  ['price', (p) => p.originalPrice ?? p.price],
+  ['effectivePrice', (p) => p.price],
+  ['discountPercent', (p) => p.discountPercent],
+  ['category', (p) => p.category],
+  ['dimensions', (p) => p.dimensions],
+  ['width', (p) => p.measurements?.width ?? null],
+  ['depth', (p) => p.measurements?.depth ?? null],
+  ['height', (p) => p.measurements?.height ?? null],
+  ['weight', (p) => p.measurements?.weight ?? null],
+  ['featured', (p) => p.featured],
+  ['isNew', (p) => p.isNew],
+  ['launchDate', (p) => p.launchDate],
+  ['onSale', (p) => p.onSale],
+  ['saleDiscountPercent', (p) => p.sale?.discountPercent ?? null],
+  ['saleStartsAt', (p) => p.sale?.startsAt ?? null],
+  ['saleEndsAt', (p) => p.sale?.endsAt ?? null],
+  ['available', (p) => p.available],
+  ['stockQuantity', (p) => p.stockQuantity],
+  ['options', (p) => (p.options.length > 0 ? JSON.stringify(p.options) : null)],
+  ['variants', (p) => (p.variants.length > 0 ? JSON.stringify(p.variants) : null)],
+  ['dateCreated', (p) => p.dateCreated],
+  ['dateModified', (p) => p.dateModified],
+];
+
+const toRow = (product: ProductEntity) => EXPORT_COLUMNS.map(([, value]) => value(product));
+
+/**
+ * Text that spreadsheet apps would run as a formula is prefixed with a quote (removed
+ * again by the import)
+ */
+function escapeFormula(value: ExportValue): ExportValue {
+  return typeof value === 'string' && PRODUCT_EXPORT.FORMULA_PREFIX.test(value)
+    ? `'${value}`
+    : value;
+}
+
+function* csvChunks(products: ProductEntity[]): Generator<string> {
+  // The byte order mark makes spreadsheet apps read the file as UTF-8
+  yield '\uFEFF' + formatCsvRow(EXPORT_COLUMNS.map(([header]) => header));
+  for (const product of products) {
+    yield formatCsvRow(toRow(product).map(escapeFormula));
+  }
+}
+
+/**
+ * Product entity with the prices split like the spreadsheet columns
+ */
+function toJsonProduct(product: ProductEntity): ProductEntity & { effectivePrice: number | null } {
+  return {
+    ...product,
+    price: product.originalPrice ?? product.price,
+    effectivePrice: product.price,
+  };
+}
+
+function* jsonChunks(products: ProductEntity[]): Generator<string> {
+  yield '[';
+  for (const [index, product] of products.entries()) {
+    yield (index > 0 ? ',' : '') + JSON.stringify(toJsonProduct(product));
+  }
+  yield ']';
+}
+
+/**
+ * @summary
+ * Writes products to a stream in the requested format, respecting backpressure.
+ *
+ * @function writeProductExport
+ * @module services/product/productExportFile
+ *
+ * @param {ProductEntity[]} products - Products in export order
+ * @param {ProductExportFormat} format - csv | xlsx | json
+ * @param {Writable} output - Destination (e.g. the HTTP response); ended when done
+ * @returns {Promise<void>} Resolves once everything is written
+ *
+ * @throws {Error} When the destination fails or closes early
+ */
+export async function writeProductExport(
+  products: ProductEntity[],
+  format: ProductExportFormat,
+  output: Writable
+): Promise<void> {
+  if (format === 'csv') {
+    return pipeline(Readable.from(csvChunks(products)), output);
+  }
+  if (format === 'json') {
+    return pipeline(Readable.from(jsonChunks(products)), output);
+  }
+
+  const workbook = new excelStream.xlsx.WorkbookWriter({ stream: output });
+  const worksheet = workbook.addWorksheet('Produtos');
+  worksheet.columns = EXPORT_COLUMNS.map(([header]) => ({ header, key: header }));
+  for (const product of products) {
+    worksheet.addRow(toRow(product)).commit();
+  }
+  worksheet.commit();
+  await workbook.commit();
+}
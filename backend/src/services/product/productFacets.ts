@@ -0,0 +1,208 @@
+/**
+ * @summary
+ * Filtering and facet computation for Product listings.
+ * Each filter is a named predicate so facets can be counted against
+ * every active filter except their own.
+ *
+ * @module services/product/productFacets
+ */
+
+import { PRODUCT_FACETS } from '@/constants';
+import { CategoryRecord } from '@/instances';
+import { getCategorySubtree } from '@/services/category/categoryTree';
+import {
+  ProductBooleanFacet,
+  ProductEntity,
+  ProductFacets,
+  ProductPriceBucket,
+} from './productTypes';
+import { ListFiltersInput } from './productValidation';
+
+/**
+ * @type ProductFacetKey
+ * @description Filter keys; all but size have a matching facet
+ */
+export type ProductFacetKey =
+  | 'category'
+  | 'available'
+  | 'featured'
+  | 'onSale'
+  | 'isNew'
+  | 'price'
+  | 'size';
+
+type ProductPredicate = (product: ProductEntity) => boolean;
+
+/**
+ * @type ProductPredicates
+ * @description Active filter predicates keyed by facet (inactive filters are absent)
+ */
+export type ProductPredicates = Partial<Record<ProductFacetKey, ProductPredicate>>;
+
+/**
+ * @summary
+ * Builds one predicate per active list filter.
+ *
+ * @function buildProductPredicates
+ * @module services/product/productFacets
+ *
+ * @param {ListFiltersInput} filters - Validated list filters
+ * @returns {ProductPredicates} Predicates for the active filters
+ */
+export function buildProductPredicates(filters: ListFiltersInput): ProductPredicates {
+  const predicates: ProductPredicates = {};
+
+  // Filter by categories (any of; expected to already include subcategories)
+  const categories = filters.category;
+  if (categories) {
+    predicates.category = (p) => categories.some((category) => category === p.category);
+  }
+
+  // Filter by availability, featured, on sale and new flags
+  const { available, featured, onSale, isNew } = filters;
+  if (available !== undefined) {
+    predicates.available = (p) => p.available === available;
+  }
+  if (featured !== undefined) {
+    predicates.featured = (p) => p.featured === featured;
+  }
+  if (onSale !== undefined) {
+    predicates.onSale = (p) => p.onSale === onSale;
+  }
+  if (isNew !== undefined) {
+    predicates.isNew = (p) => p.isNew === isNew;
+  }
+
+  /**
+   * @rule {BR-014} Price range applies to priced items; "Sob consulta" (null price)
+   * items are kept unless includeOnRequest is false
+   * @rule {BR-020} Prices are the effective (sale) prices
+   */
+  const { minPrice, maxPrice, includeOnRequest } = filters;
+  if (minPrice !== undefined || maxPrice !== undefined || includeOnRequest === false) {
+    predicates.price = (p) => {
+      if (p.price === null) return includeOnRequest ?? true;
+      if (minPrice !== undefined && p.price < minPrice) return false;
+      if (maxPrice !== undefined && p.price > maxPrice) return false;
+      return true;
+    };
+  }
+
+  /**
+   * @rule {BR-019} "Fits my space": each dimension must be within its limit; products
+   * without structured measurements cannot be confirmed to fit and are left out
+   */
+  const { maxWidth, maxDepth, maxHeight } = filters;
+  if (maxWidth !== undefined || maxDepth !== undefined || maxHeight !== undefined) {
+    predicates.size = ({ measurements }) =>
+      measurements !== null &&
+      (maxWidth === undefined || measurements.width <= maxWidth) &&
+      (maxDepth === undefined || measurements.depth <= maxDepth) &&
+      (maxHeight === undefined || measurements.height <= maxHeight);
+  }
+
+  return predicates;
+}
+
+/**
+ * @summary
+ * Applies every active predicate, optionally skipping one facet.
+ *
+ * @function applyProductPredicates
+ * @module services/product/productFacets
+ *
+ * @param {ProductEntity[]} products - Products to filter
+ * @param {ProductPredicates} predicates - Active predicates
+ * @param {ProductFacetKey} [exclude] - Facet whose own filter is ignored
+ * @returns {ProductEntity[]} Matching products
+ */
+export function applyProductPredicates(
+  products: ProductEntity[],
+  predicates: ProductPredicates,
+  exclude?: ProductFacetKey
+): ProductEntity[] {
+  const active = (Object.keys(predicates) as ProductFacetKey[])
+    .filter((key) => key !== exclude)
+    .map((key) => predicates[key] as ProductPredicate);
+
+  return products.filter((p) => active.every((predicate) => predicate(p)));
+}
+
+/**
+ * Counts products by a boolean flag
+ */
+function countBoolean(
+  products: ProductEntity[],
+  read: (product: ProductEntity) => boolean
+): ProductBooleanFacet {
+  const trueCount = products.filter(read).length;
+  return { true: trueCount, false: products.length - trueCount };
+}
+
+/**
+ * Counts priced products into the configured buckets
+ */
+function countPriceBuckets(products: ProductEntity[]): ProductPriceBucket[] {
+  const boundaries = PRODUCT_FACETS.PRICE_BUCKET_BOUNDARIES;
+  const buckets: ProductPriceBucket[] = boundaries.map((max, index) => ({
+    min: index === 0 ? 0 : boundaries[index - 1],
+    max,
+    count: 0,
+  }));
+  buckets.push({ min: boundaries[boundaries.length - 1], max: null, count: 0 });
+
+  for (const product of products) {
+    const price = product.price;
+    if (price === null) continue;
+    const bucket = buckets.find((b) => price >= b.min && (b.max === null || price < b.max));
+    if (bucket) bucket.count += 1;
+  }
+
+  return buckets;
+}
+
+/**
+ * @summary
+ * Computes facet counts for a listing.
+ *
+ * @function computeProductFacets
+ * @module services/product/productFacets
+ *
+ * @param {ProductEntity[]} products - Products before list filters (search already applied)
+ * @param {ProductPredicates} predicates - Active filter predicates
+ * @param {CategoryRecord[]} categories - Categories to count, in display order
+ * @returns {ProductFacets} Facet counts
+ */
+export function computeProductFacets(
+  products: ProductEntity[],
+  predicates: ProductPredicates,
+  categories: CategoryRecord[]
+): ProductFacets {
+  const byCategory = applyProductPredicates(products, predicates, 'category');
+  const byPrice = applyProductPredicates(products, predicates, 'price');
+
+  return {
+    // A category counts the products of its subcategories too
+    categories: categories.map((category) => {
+      const slugs = new Set(getCategorySubtree(categories, category).map((c) => c.slug));
+      return {
+        value: category.slug,
+        count: byCategory.filter((p) => slugs.has(p.category)).length,
+      };
+    }),
+    available: countBoolean(
+      applyProductPredicates(products, predicates, 'available'),
+      (p) => p.available
+    ),
+    featured: countBoolean(
+      applyProductPredicates(products, predicates, 'featured'),
+      (p) => p.featured
+    ),
+    onSale: countBoolean(applyProductPredicates(products, predicates, 'onSale'), (p) => p.onSale),
+    isNew: countBoolean(applyProductPredicates(products, predicates, 'isNew'), (p) => p.isNew),
+    price: {
+      buckets: countPriceBuckets(byPrice),
+      onRequest: byPrice.filter((p) => p.price === null).length,
+    },
+  };
+}
@@ -0,0 +1,154 @@
+/**
+ * @summary
+ * Image processing for Product image uploads.
+ * Reads the format and size of an uploaded image, writes its WebP renditions to disk and
+ * finds and removes stored image directories.
+ *
+ * @module services/product/productImageFile
+ */
+
+import { mkdir, readdir, rm, stat } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { PRODUCT_IMAGE, ProductImageVariant } from '@/constants';
+
+/**
+ * Stored images are named by a random UUID; nothing else is ever read from or removed in the
+ * images directory
+ */
+const IMAGE_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+/**
+ * Pixel size of an image as displayed (EXIF orientation applied)
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * @summary
+ * Reads the format and displayed size of an image without decoding it.
+ *
+ * @function readImageInfo
+ * @module services/product/productImageFile
+ *
+ * @param {Buffer} file - Uploaded file contents
+ * @returns {Promise<(ImageSize & { format: string }) | null>} Format and size, or null when the
+ * file is not an image sharp can read
+ */
+export async function readImageInfo(
+  file: Buffer
+): Promise<(ImageSize & { format: string }) | null> {
+  try {
+    const metadata = await sharp(file, { limitInputPixels: PRODUCT_IMAGE.MAX_PIXELS }).metadata();
+    return { format: metadata.format, ...metadata.autoOrient };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @summary
+ * Writes the WebP renditions of an image (PRODUCT_IMAGE.VARIANTS) as `<variant>.webp` in a
+ * new directory. Nothing is left behind when a rendition fails.
+ *
+ * @function writeImageVariants
+ * @module services/product/productImageFile
+ *
+ * @param {Buffer} file - Uploaded file contents
+ * @param {string} dir - Directory to create
+ * @returns {Promise<Record<ProductImageVariant, ImageSize>>} Size of each rendition
+ */
+export async function writeImageVariants(
+  file: Buffer,
+  dir: string
+): Promise<Record<ProductImageVariant, ImageSize>> {
+  await mkdir(dir, { recursive: true });
+
+  try {
+    const variants = Object.entries(PRODUCT_IMAGE.VARIANTS) as [ProductImageVariant, number][];
+    const sizes = await Promise.all(
+      variants.map(async ([variant, width]) => {
+        const { width: outputWidth, height } = await sharp(file, {
+          limitInputPixels: PRODUCT_IMAGE.MAX_PIXELS,
+        })
+          .rotate()
+          .resize({ width, withoutEnlargement: true })
+          .webp({ quality: PRODUCT_IMAGE.WEBP_QUALITY })
+          .toFile(path.join(dir, `${variant}.webp`));
+        return [variant, { width: outputWidth, height }] as const;
+      })
+    );
+    return Object.fromEntries(sizes) as Record<ProductImageVariant, ImageSize>;
+  } catch (error) {
+    await rm(dir, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * @summary
+ * Reads the id of a stored image from one of its rendition URLs.
+ *
+ * @function imageIdOf
+ * @module services/product/productImageFile
+ *
+ * @param {string} url - Image URL
+ * @param {string} baseUrl - Public URL of the images directory
+ * @returns {string | null} Image id, or null for URLs of other images
+ *
+ * @example
+ * imageIdOf('http://localhost:3000/uploads/products/3f0c…/large.webp', 'http://localhost:3000/uploads/products');
+ * // Returns: '3f0c…'
+ */
+export function imageIdOf(url: string, baseUrl: string): string | null {
+  if (!url.startsWith(`${baseUrl}/`)) return null;
+  const [id] = url.slice(baseUrl.length + 1).split('/');
+  return IMAGE_ID_PATTERN.test(id) ? id : null;
+}
+
+/**
+ * @summary
+ * Lists the stored images in a directory with when each was written.
+ *
+ * @function listImageDirs
+ * @module services/product/productImageFile
+ *
+ * @param {string} root - Images directory
+ * @returns {Promise<{ id: string; modifiedAt: Date }[]>} Stored images (none before the first upload)
+ */
+export async function listImageDirs(root: string): Promise<{ id: string; modifiedAt: Date }[]> {
+  const entries = await readdir(root, { withFileTypes: true }).catch((error) => {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  });
+
+  return Promise.all(
+    entries
+      .filter((entry) => entry.isDirectory() && IMAGE_ID_PATTERN.test(entry.name))
+      .map(async (entry) => ({
+        id: entry.name,
+        modifiedAt: (await stat(path.join(root, entry.name))).mtime,
+      }))
+  );
+}
+
+/**
+ * @summary
+ * Removes stored images with all their renditions.
+ *
+ * @function removeImageDirs
+ * @module services/product/productImageFile
+ *
+ * @param {string} root - Images directory
+ * @param {string[]} ids - Image ids (see imageIdOf)
+ * @returns {Promise<void>} Resolves once every directory is gone
+ */
+export async function removeImageDirs(root: string, ids: string[]): Promise<void> {
+  await Promise.all(
+    ids
+      .filter((id) => IMAGE_ID_PATTERN.test(id))
+      .map((id) => rm(path.join(root, id), { recursive: true, force: true }))
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * @summary
+ * Spreadsheet reading for Product imports.
+ * Reads CSV and XLSX files into cells, maps their header to product fields and turns
+ * each row into a create request body for createSchema.
+ *
+ * @module services/product/productImportSheet
+ */
+
+import { CellValue, Workbook } from 'exceljs';
+import {
+  PRODUCT_EXPORT,
+  PRODUCT_IMPORT,
+  ProductImportColumn,
+  ProductImportFormat,
+} from '@/constants';
+import { normalizeText, parseCsv } from '@/utils';
+
+/**
+ * @type ImportCell
+ * @description A spreadsheet cell: CSV cells are strings, XLSX cells keep their type
+ */
+export type ImportCell = string | number | boolean | Date | null;
+
+/**
+ * @interface ImportHeader
+ * @description Field of each column (null when ignored) and the ignored headers
+ */
+export interface ImportHeader {
+  columns: (ProductImportColumn | null)[];
+  ignoredColumns: string[];
+}
+
+/**
+ * Plain value of an XLSX cell (formula results, rich text and hyperlink text)
+ */
+function toImportCell(value: CellValue): ImportCell {
+  if (value === null || value === undefined) return null;
+  if (typeof value !== 'object' || value instanceof Date) return value;
+  if ('result' in value) return toImportCell(value.result as CellValue);
+  if ('richText' in value) return value.richText.map((part) => part.text).join('');
+  if ('text' in value) return value.text;
+  return null;
+}
+
+/**
+ * @summary
+ * Reads the rows of a spreadsheet (the first worksheet of an XLSX file).
+ *
+ * @function readImportSheet
+ * @module services/product/productImportSheet
+ *
+ * @param {Buffer} file - Uploaded file
+ * @param {ProductImportFormat} format - File format
+ * @returns {Promise<ImportCell[][]>} Rows of cells; index 0 is the first line (the header)
+ *
+ * @throws {Error} When an XLSX file cannot be read
+ */
+export async function readImportSheet(
+  file: Buffer,
+  format: ProductImportFormat
+): Promise<ImportCell[][]> {
+  if (format === 'csv') {
+    return parseCsv(file.toString('utf8'));
+  }
+
+  const workbook = new Workbook();
+  await workbook.xlsx.load(file);
+  const worksheet = workbook.worksheets[0];
+  const rows: ImportCell[][] = [];
+
+  worksheet?.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    // row.values is 1-based and sparse
+    const values = Array.isArray(row.values) ? row.values.slice(1) : [];
+    rows[rowNumber - 1] = Array.from(values, (value) => toImportCell(value ?? null));
+  });
+
+  return Array.from(rows, (row) => row ?? []);
+}
+
+/**
+ * Header text compared without accents, case, spaces or punctuation
+ */
+function normalizeHeader(value: ImportCell): string {
+  return normalizeText(String(value ?? '')).replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * @summary
+ * Maps header cells to product fields using PRODUCT_IMPORT.COLUMNS. Unknown and repeated
+ * headers are ignored.
+ *
+ * @function mapImportHeader
+ * @module services/product/productImportSheet
+ *
+ * @param {ImportCell[]} header - First row of the sheet
+ * @returns {ImportHeader} Field of each column and the ignored headers
+ */
+export function mapImportHeader(header: ImportCell[]): ImportHeader {
+  const entries = Object.entries(PRODUCT_IMPORT.COLUMNS) as [
+    ProductImportColumn,
+    readonly string[],
+  ][];
+  const columns: (ProductImportColumn | null)[] = [];
+  const ignoredColumns: string[] = [];
+
+  header.forEach((cell) => {
+    const key = normalizeHeader(cell);
+    const column = entries.find(([, aliases]) => aliases.includes(key))?.[0] ?? null;
+
+    if (column && !columns.includes(column)) {
+      columns.push(column);
+    } else {
+      columns.push(null);
+      if (key) ignoredColumns.push(String(cell).trim());
+    }
+  });
+
+  return { columns, ignoredColumns };
+}
+
+/**
+ * Whether every cell of a row is empty
+ */
+export function isBlankImportRow(cells: ImportCell[]): boolean {
+  return cells.every((cell) => cell === null || String(cell).trim() === '');
+}
+
+/**
+ * Text cell; empty cells are null. The quote the export puts before formula-like text
+ * is removed, so exported files import back unchanged.
+ */
+function readText(cell: ImportCell): string | null {
+  if (cell === null) return null;
+  if (cell instanceof Date) return cell.toISOString();
+  let text = String(cell).trim();
+  if (text.startsWith("'") && PRODUCT_EXPORT.FORMULA_PREFIX.test(text.slice(1))) {
+    text = text.slice(1).trim();
+  }
+  return text === '' ? null : text;
+}
+
+/**
+ * Number cell; accepts "R$ 1.234,56" and "1234.56". Unreadable text is kept so
+ * validation reports it.
+ */
+function readNumber(cell: ImportCell): number | string | null {
+  if (typeof cell === 'number') return cell;
+  const text = readText(cell)?.replace(/^R\$\s*/i, '');
+  if (!text) return null;
+
+  const normalized = text.includes(',') ? text.replace(/\./g, '').replace(',', '.') : text;
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : text;
+}
+
+/**
+ * Yes/no cell; empty cells are undefined so defaults apply
+ */
+function readBoolean(cell: ImportCell): boolean | string | undefined {
+  if (typeof cell === 'boolean') return cell;
+  const text = readText(cell);
+  if (text === null) return undefined;
+
+  const key = normalizeText(text);
+  if (['true', '1', 'sim', 's', 'yes', 'x'].includes(key)) return true;
+  if (['false', '0', 'nao', 'n', 'no'].includes(key)) return false;
+  return text;
+}
+
+/**
+ * Date cell; "2026-11-27" and "27/11/2026" are read as midnight UTC, other text is
+ * kept for validation
+ */
+function readDate(cell: ImportCell): string | null {
+  if (cell instanceof Date) return cell.toISOString();
+  const text = readText(cell);
+  if (text === null) return null;
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}T00:00:00.000Z`;
+  const brazilian = /^(\d{2})\/(\d{2})\/(\d{4})$/.exec(text);
+  if (brazilian) return `${brazilian[3]}-${brazilian[2]}-${brazilian[1]}T00:00:00.000Z`;
+  return text;
+}
+
+/**
+ * List cell split by PRODUCT_IMPORT.LIST_SEPARATOR
+ */
+function readList(cell: ImportCell): string[] {
+  return (readText(cell) ?? '')
+    .split(PRODUCT_IMPORT.LIST_SEPARATOR)
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * @summary
+ * Builds a create request body from a row. Only fields with a column in the sheet are
+ * set (yes/no fields also need a value), so updates can keep the other fields.
+ *
+ * @function toImportRequest
+ * @module services/product/productImportSheet
+ *
+ * @param {ImportCell[]} cells - Row cells
+ * @param {(ProductImportColumn | null)[]} columns - Field of each column
+ * @returns {Record<string, unknown>} Request body to validate with createSchema
+ *
+ * @example
+ * toImportRequest(['SOFA-1', 'Sofá Luna', '2.499,90', ''], ['externalSku', 'name', 'price', 'width']);
+ * // Returns: { externalSku: 'SOFA-1', name: 'Sofá Luna', price: 2499.9, measurements: null }
+ */
+export function toImportRequest(
+  cells: ImportCell[],
+  columns: (ProductImportColumn | null)[]
+): Record<string, unknown> {
+  const values = new Map<ProductImportColumn, ImportCell>();
+  columns.forEach((column, index) => {
+    if (column) values.set(column, cells[index] ?? null);
+  });
+
+  const request: Record<string, unknown> = {};
+  const cell = (column: ProductImportColumn) => values.get(column) ?? null;
+
+  (
+    [
+      'externalSku',
+      'name',
+      'description',
+      'shortDescription',
+      'mainImage',
+      'category',
+      'dimensions',
+    ] as const
+  ).forEach((column) => {
+    if (values.has(column)) request[column] = readText(cell(column));
+  });
+
+  if (values.has('images')) request.images = readList(cell('images'));
+  if (values.has('price')) request.price = readNumber(cell('price'));
+  if (values.has('launchDate')) request.launchDate = readDate(cell('launchDate'));
+
+  (['featured', 'available'] as const).forEach((column) => {
+    const value = readBoolean(cell(column));
+    if (value !== undefined) request[column] = value;
+  });
+
+  const sizeColumns = ['width', 'depth', 'height', 'weight'] as const;
+  if (sizeColumns.some((column) => values.has(column))) {
+    const [width, depth, height, weight] = sizeColumns.map((column) => readNumber(cell(column)));
+    request.measurements =
+      width === null && depth === null && height === null && weight === null
+        ? null
+        : { width, depth, height, weight };
+  }
+
+  return request;
+}
@@ -0,0 +1,89 @@
+/**
+ * @summary
+ * Sale pricing for Product entity.
+ * Products are stored with their regular prices; the price customers pay, onSale and
+ * discountPercent are derived from the sale window every time a product is read.
+ *
+ * @module services/product/productPricing
+ */
+
+import { ProductRecord, ProductSaleRecord } from '@/instances';
+import { ProductEntity } from './productTypes';
+
+/**
+ * @type ProductPricing
+ * @description Product fields that depend on the sale window
+ */
+export type ProductPricing = Pick<
+  ProductEntity,
+  'price' | 'originalPrice' | 'discountPercent' | 'onSale' | 'variants'
+>;
+
+/**
+ * @summary
+ * Checks whether a sale is running at a given moment. The start is inclusive and the
+ * end exclusive; a missing date leaves that side open.
+ *
+ * @function isSaleActive
+ * @module services/product/productPricing
+ *
+ * @param {ProductSaleRecord | null} sale - Sale configuration
+ * @param {Date} now - Moment to check
+ * @returns {boolean} Whether the discount applies
+ */
+export function isSaleActive(sale: ProductSaleRecord | null, now: Date): sale is ProductSaleRecord {
+  if (!sale) return false;
+  if (sale.startsAt && now < new Date(sale.startsAt)) return false;
+  if (sale.endsAt && now >= new Date(sale.endsAt)) return false;
+  return true;
+}
+
+/**
+ * Applies a percentage discount, rounded to cents
+ */
+function applyDiscount(price: number, discountPercent: number): number {
+  return Math.round(price * (100 - discountPercent)) / 100;
+}
+
+/**
+ * @summary
+ * Derives the prices a product is sold at. While its sale is running, price (and each
+ * variant price) is discounted and originalPrice keeps the regular price; products
+ * priced "Sob consulta" are never on sale.
+ *
+ * @function resolveProductPricing
+ * @module services/product/productPricing
+ *
+ * @param {ProductRecord} product - Stored product with regular prices
+ * @param {Date} [now] - Moment to price at (defaults to the current time)
+ * @returns {ProductPricing} Effective prices and sale flags
+ *
+ * @example
+ * resolveProductPricing({ ..., price: 2500, sale: { discountPercent: 20, startsAt: null, endsAt: null } });
+ * // Returns: { price: 2000, originalPrice: 2500, discountPercent: 20, onSale: true, variants: [] }
+ */
+export function resolveProductPricing(
+  product: ProductRecord,
+  now: Date = new Date()
+): ProductPricing {
+  const discount =
+    isSaleActive(product.sale, now) && product.price !== null ? product.sale.discountPercent : null;
+
+  return {
+    price:
+      discount !== null && product.price !== null
+        ? applyDiscount(product.price, discount)
+        : product.price,
+    originalPrice: discount !== null ? product.price : null,
+    discountPercent: discount,
+    onSale: discount !== null,
+    variants: product.variants.map((variant) => ({
+      ...variant,
+      price:
+        discount !== null && variant.price !== null
+          ? applyDiscount(variant.price, discount)
+          : variant.price,
+      originalPrice: discount !== null ? variant.price : null,
+    })),
+  };
+}
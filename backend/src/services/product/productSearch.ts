@@ -0,0 +1,147 @@
+/**
+ * @summary
+ * Full-text search for Product entity.
+ * Matches query terms against the searchable text fields, accent- and
+ * case-insensitive, and builds relevance scores and highlighted snippets.
+ *
+ * @module services/product/productSearch
+ */
+
+import { PRODUCT_SEARCH, ProductSearchField } from '@/constants';
+import { ProductRecord } from '@/instances';
+import { normalizeTextWithOffsets, tokenize } from '@/utils';
+import { ProductSearchHighlight, ProductSearchMatchRange } from './productTypes';
+
+/**
+ * @interface ProductSearchMatch
+ * @description Result of matching a product against the search terms
+ */
+export interface ProductSearchMatch {
+  score: number;
+  highlights: ProductSearchHighlight[];
+}
+
+const SEARCHABLE_FIELDS = Object.keys(PRODUCT_SEARCH.FIELD_WEIGHTS) as ProductSearchField[];
+
+/**
+ * Checks whether the normalized char before an index is a word boundary
+ */
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+/**
+ * Sorts and merges overlapping ranges
+ */
+function mergeRanges(ranges: ProductSearchMatchRange[]): ProductSearchMatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: ProductSearchMatchRange[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Cuts a snippet around the first match, shifting match ranges accordingly
+ */
+function buildHighlight(
+  field: ProductSearchField,
+  value: string,
+  ranges: ProductSearchMatchRange[]
+): ProductSearchHighlight {
+  const length = PRODUCT_SEARCH.SNIPPET_LENGTH;
+
+  if (value.length <= length) {
+    return { field, snippet: value, matches: ranges };
+  }
+
+  const first = ranges[0];
+  let start = Math.max(0, first.start - Math.floor((length - (first.end - first.start)) / 2));
+  const end = Math.min(value.length, start + length);
+  start = Math.max(0, end - length);
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < value.length ? '…' : '';
+  const matches = ranges
+    .filter((range) => range.start >= start && range.end <= end)
+    .map((range) => ({
+      start: range.start - start + prefix.length,
+      end: range.end - start + prefix.length,
+    }));
+
+  return { field, snippet: `${prefix}${value.slice(start, end)}${suffix}`, matches };
+}
+
+/**
+ * @summary
+ * Splits a raw search query into normalized terms.
+ *
+ * @function parseSearchTerms
+ * @module services/product/productSearch
+ *
+ * @param {string | undefined} query - Raw search query
+ * @returns {string[]} Normalized unique terms (empty when there is nothing to search)
+ */
+export function parseSearchTerms(query: string | undefined): string[] {
+  return query ? tokenize(query) : [];
+}
+
+/**
+ * @summary
+ * Matches a product against search terms. Every term must appear in at least
+ * one searchable field; matches at the start of a word weigh double.
+ *
+ * @function matchProduct
+ * @module services/product/productSearch
+ *
+ * @param {ProductRecord} product - Product to match
+ * @param {string[]} terms - Normalized search terms
+ * @returns {ProductSearchMatch | null} Score and highlights, or null when not every term matches
+ *
+ * @example
+ * matchProduct(product, ['escritorio']);
+ * // Returns: { score: 8, highlights: [{ field: 'name', snippet: 'Mesa de Escritório', matches: [{ start: 8, end: 18 }] }] }
+ */
+export function matchProduct(product: ProductRecord, terms: string[]): ProductSearchMatch | null {
+  const matchedTerms = new Set<string>();
+  const highlights: ProductSearchHighlight[] = [];
+  let score = 0;
+
+  for (const field of SEARCHABLE_FIELDS) {
+    const value = product[field];
+    if (!value) {
+      continue;
+    }
+
+    const { text, offsets } = normalizeTextWithOffsets(value);
+    const ranges: ProductSearchMatchRange[] = [];
+
+    for (const term of terms) {
+      let index = text.indexOf(term);
+      while (index !== -1) {
+        matchedTerms.add(term);
+        score += PRODUCT_SEARCH.FIELD_WEIGHTS[field] * (isWordStart(text, index) ? 2 : 1);
+        ranges.push({ start: offsets[index], end: offsets[index + term.length] });
+        index = text.indexOf(term, index + term.length);
+      }
+    }
+
+    if (ranges.length > 0) {
+      highlights.push(buildHighlight(field, value, mergeRanges(ranges)));
+    }
+  }
+
+  if (matchedTerms.size < terms.length) {
+    return null;
+  }
+
+  return { score, highlights };
+}
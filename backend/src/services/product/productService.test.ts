@@ -0,0 +1,296 @@
+/**
+ * @summary
+ * Tests for the product service: optimistic concurrency with If-Match, merge patches,
+ * soft deletion and export round trips.
+ *
+ * @module services/product/productService.test
+ */
+
+import assert from 'node:assert/strict';
+import { Writable } from 'node:stream';
+import { before, beforeEach, describe, it } from 'node:test';
+import { productStore } from '@/instances';
+import { categoryEnsureDefaults } from '@/services/category';
+import { contentEtag, formatEtag } from '@/utils';
+import {
+  productCreate,
+  productDelete,
+  productExport,
+  productGet,
+  productImport,
+  productPatch,
+  productRestore,
+  productUpdate,
+} from './productService';
+import { ProductEntity } from './productTypes';
+
+const sofa = {
+  name: 'Sofá Luna',
+  description: 'Sofá de três lugares',
+  mainImage: 'https://example.com/sofa.jpg',
+  price: 2500,
+  category: 'sala-de-estar',
+  shortDescription: null,
+  dimensions: '220 x 90 x 85 cm',
+};
+
+/**
+ * Exports the products matching a query into a buffer
+ */
+async function exportToBuffer(query: Record<string, string>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const output = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  const file = await productExport(query);
+  await file.write(output);
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Update body that keeps the product as it is
+ */
+function toUpdateBody(product: ProductEntity) {
+  return {
+    name: product.name,
+    description: product.description,
+    mainImage: product.mainImage,
+    images: product.images,
+    price: product.originalPrice ?? product.price,
+    category: product.category,
+    shortDescription: product.shortDescription,
+    dimensions: product.dimensions,
+    featured: product.featured,
+    available: product.available,
+  };
+}
+
+describe('productService', () => {
+  let product: ProductEntity;
+
+  before(async () => {
+    await categoryEnsureDefaults();
+  });
+
+  beforeEach(async () => {
+    product = await productCreate(sofa);
+  });
+
+  describe('If-Match', () => {
+    it('tags a product read by its content', async () => {
+      const { etag } = await productGet({ id: product.id });
+
+      assert.equal(etag, contentEtag(product));
+    });
+
+    it('accepts the quoted version and bumps it', async () => {
+      const updated = await productUpdate(
+        { id: product.id },
+        { ...toUpdateBody(product), name: 'Sofá Luna II' },
+        null,
+        formatEtag(product.version)
+      );
+
+      assert.equal(updated.name, 'Sofá Luna II');
+      assert.equal(updated.version, product.version + 1);
+    });
+
+    it('accepts the ETag served by a read, until the product changes', async () => {
+      const { etag } = await productGet({ id: product.id });
+      const patched = await productPatch({ id: product.id }, { featured: true }, null, etag);
+
+      assert.equal(patched.featured, true);
+      await assert.rejects(productPatch({ id: product.id }, { featured: false }, null, etag), {
+        code: 'PRECONDITION_FAILED',
+      });
+      await assert.doesNotReject(
+        productPatch({ id: product.id }, { featured: false }, null, contentEtag(patched))
+      );
+    });
+
+    it('rejects a change based on an older version', async () => {
+      const etag = formatEtag(product.version);
+      await productPatch({ id: product.id }, { featured: true }, null, etag);
+
+      await assert.rejects(productPatch({ id: product.id }, { featured: false }, null, etag), {
+        code: 'PRECONDITION_FAILED',
+        statusCode: 412,
+      });
+      await assert.rejects(productDelete({ id: product.id }, null, etag), {
+        code: 'PRECONDITION_FAILED',
+      });
+    });
+
+    it('requires If-Match on every change', async () => {
+      const precondition = { code: 'PRECONDITION_REQUIRED', statusCode: 428 };
+
+      await assert.rejects(productUpdate({ id: product.id }, toUpdateBody(product)), precondition);
+      await assert.rejects(productPatch({ id: product.id }, { featured: true }), precondition);
+      await assert.rejects(productDelete({ id: product.id }), precondition);
+    });
+
+    it('accepts a list of tags and "*"', async () => {
+      const listed = await productPatch(
+        { id: product.id },
+        { featured: true },
+        null,
+        `"0", ${formatEtag(product.version)}`
+      );
+      const any = await productPatch({ id: product.id }, { featured: false }, null, '*');
+
+      assert.equal(listed.featured, true);
+      assert.equal(any.featured, false);
+    });
+
+    it('never matches a weak tag', async () => {
+      await assert.rejects(
+        productPatch(
+          { id: product.id },
+          { featured: true },
+          null,
+          `W/${formatEtag(product.version)}`
+        ),
+        { code: 'PRECONDITION_FAILED' }
+      );
+    });
+  });
+
+  describe('productUpdate', () => {
+    it('keeps the gallery when images are left out', async () => {
+      const withGallery = await productPatch(
+        { id: product.id },
+        { images: ['https://example.com/sofa-2.jpg'] },
+        null,
+        formatEtag(product.version)
+      );
+      const { images: _images, ...body } = toUpdateBody(withGallery);
+      const updated = await productUpdate(
+        { id: product.id },
+        { ...body, name: 'Sofá Luna II' },
+        null,
+        formatEtag(withGallery.version)
+      );
+
+      assert.deepEqual(updated.images, ['https://example.com/sofa-2.jpg']);
+    });
+
+    it('clears the gallery when images are sent empty', async () => {
+      const withGallery = await productPatch(
+        { id: product.id },
+        { images: ['https://example.com/sofa-2.jpg'] },
+        null,
+        formatEtag(product.version)
+      );
+      const updated = await productUpdate(
+        { id: product.id },
+        { ...toUpdateBody(withGallery), images: [] },
+        null,
+        formatEtag(withGallery.version)
+      );
+
+      assert.deepEqual(updated.images, []);
+    });
+  });
+
+  describe('productPatch', () => {
+    it('keeps omitted fields and clears fields patched to null', async () => {
+      const patched = await productPatch(
+        { id: product.id },
+        { description: null, featured: true },
+        null,
+        formatEtag(product.version)
+      );
+
+      assert.equal(patched.description, null);
+      assert.equal(patched.featured, true);
+      assert.equal(patched.name, sofa.name);
+      assert.equal(patched.dimensions, sofa.dimensions);
+    });
+
+    it('merges nested objects member by member', async () => {
+      const onSale = await productPatch(
+        { id: product.id },
+        { sale: { discountPercent: 20, startsAt: null, endsAt: '2099-01-01T00:00:00.000Z' } },
+        null,
+        formatEtag(product.version)
+      );
+      const patched = await productPatch(
+        { id: product.id },
+        { sale: { discountPercent: 10 } },
+        null,
+        formatEtag(onSale.version)
+      );
+
+      assert.deepEqual(patched.sale, {
+        discountPercent: 10,
+        startsAt: null,
+        endsAt: '2099-01-01T00:00:00.000Z',
+      });
+    });
+
+    it('rejects null for required fields', async () => {
+      await assert.rejects(
+        productPatch({ id: product.id }, { name: null }, null, formatEtag(product.version)),
+        { code: 'VALIDATION_ERROR', statusCode: 400 }
+      );
+      assert.equal(productStore.getById(product.id)?.version, product.version);
+    });
+  });
+
+  describe('productDelete', () => {
+    it('moves the product to the trash as a new version', async () => {
+      await productDelete({ id: product.id }, null, formatEtag(product.version));
+      const trashed = productStore.getByIdIncludingDeleted(product.id);
+
+      assert.ok(trashed?.deletedAt);
+      assert.equal(trashed.version, product.version + 1);
+      assert.equal(trashed.dateModified, trashed.deletedAt);
+      await assert.rejects(productGet({ id: product.id }), { code: 'NOT_FOUND' });
+    });
+
+    it('restores the product as a new version', async () => {
+      await productDelete({ id: product.id }, null, formatEtag(product.version));
+      const restored = await productRestore({ id: product.id });
+
+      assert.equal(restored.deletedAt, null);
+      assert.equal(restored.version, product.version + 2);
+      await assert.rejects(
+        productPatch({ id: product.id }, { featured: true }, null, formatEtag(product.version)),
+        { code: 'PRECONDITION_FAILED' }
+      );
+    });
+  });
+
+  describe('productExport', () => {
+    before(async () => {
+      await productCreate({
+        ...sofa,
+        externalSku: 'CADEIRA-1',
+        name: 'Cadeira Tulipa',
+        description: '- assento estofado',
+        price: 600,
+        sale: { discountPercent: 25, startsAt: null, endsAt: null },
+      });
+    });
+
+    it('imports an exported CSV back unchanged', async () => {
+      const csv = await exportToBuffer({ format: 'csv', q: 'tulipa' });
+      const report = await productImport(csv, 'text/csv', { dryRun: 'true' });
+
+      assert.ok(csv.toString('utf8').includes("'- assento estofado"));
+      assert.equal(report.totalRows, 1);
+      assert.equal(report.unchanged, 1);
+    });
+
+    it('exports the regular and sale prices as price and effectivePrice in JSON', async () => {
+      const json = await exportToBuffer({ format: 'json', q: 'tulipa' });
+      const [exported] = JSON.parse(json.toString('utf8'));
+
+      assert.equal(exported.price, 600);
+      assert.equal(exported.effectivePrice, 450);
+    });
+  });
+});
@@ -1,53 +1,597 @@
 /**
  * @summary
  * Business logic for Product entity.
- * Handles CRUD operations with filtering, sorting, and pagination using in-memory storage.
+ * Handles CRUD operations with filtering, sorting, and pagination using the configured product store.
  * All validation and business logic is centralized here.
  *
  * @module services/product/productService
  */
 
-import { PRODUCT_DEFAULTS } from '@/constants';
-import { productStore } from '@/instances';
-import { ServiceError } from '@/utils';
+import { randomUUID } from 'crypto';
+import path from 'path';
+import { isDeepStrictEqual } from 'util';
+import { config } from '@/config';
 import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITIES,
+  AuditAction,
+  PRODUCT_DEFAULTS,
+  PRODUCT_EXPORT,
+  PRODUCT_IMAGE,
+  PRODUCT_IMPORT,
+  PRODUCT_LIMITS,
+  ProductImportFormat,
+} from '@/constants';
+import {
+  categoryStore,
+  priceChangeStore,
+  productCache,
+  productImageStore,
+  productStore,
+  stockLevelStore,
+  userStore,
+  CategoryRecord,
+  ProductRecord,
+} from '@/instances';
+import {
+  applyMergePatch,
+  formatEtag,
+  isPlainObject,
+  isServiceError,
+  matchesIfMatch,
+  ServiceError,
+} from '@/utils';
+import { auditRecord } from '@/services/audit';
+import { categoryExpandSlugs, sortCategoriesDepthFirst } from '@/services/category';
+import { inventoryAssertStockKept, inventoryResolveStock } from '@/services/inventory';
+import {
+  ProductCachedResult,
   ProductEntity,
+  ProductVariant,
   ProductListResponse,
   ProductListItem,
   ProductListFilters,
+  ProductFacets,
+  ProductPriceHistory,
+  ProductImportReport,
+  ProductImportRowError,
+  ProductImportRowResult,
+  ProductExport,
+  ProductTrashResponse,
+  ProductImageUpload,
+  ProductImageVariants,
 } from './productTypes';
-import { createSchema, updateSchema, paramsSchema, listQuerySchema } from './productValidation';
+import {
+  createSchema,
+  updateSchema,
+  paramsSchema,
+  listQuerySchema,
+  priceHistoryQuerySchema,
+  importQuerySchema,
+  exportQuerySchema,
+  CreateInput,
+  UpdateInput,
+  ListFiltersInput,
+  ListQueryInput,
+} from './productValidation';
+import { matchProduct, parseSearchTerms, ProductSearchMatch } from './productSearch';
+import {
+  applyProductPredicates,
+  buildProductPredicates,
+  computeProductFacets,
+} from './productFacets';
+import { resolveProductPricing } from './productPricing';
+import {
+  ImportCell,
+  isBlankImportRow,
+  mapImportHeader,
+  readImportSheet,
+  toImportRequest,
+} from './productImportSheet';
+import { writeProductExport } from './productExportFile';
+import {
+  imageIdOf,
+  listImageDirs,
+  readImageInfo,
+  removeImageDirs,
+  writeImageVariants,
+} from './productImageFile';
 
 /**
- * @summary
- * Lists products with filtering, sorting, and pagination.
- *
- * @function productList
- * @module services/product
- *
- * @param {unknown} query - Raw query parameters to validate
- * @returns {Promise<ProductListResponse>} Paginated list of products
- *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
- *
- * @example
- * const result = await productList({ category: 'sala de estar', page: 1, pageSize: 12 });
- * // Returns: { items: [...], pagination: { page: 1, pageSize: 12, total: 50, ... } }
+ * Rejects a category slug that does not exist
  */
-export async function productList(query: unknown): Promise<ProductListResponse> {
-  const validation = listQuerySchema.safeParse(query);
+function assertCategoryExists(slug: string): void {
+  if (!categoryStore.getBySlug(slug)) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: ['category'], message: 'Category not found' },
+    ]);
+  }
+}
 
-  if (!validation.success) {
-    throw new ServiceError(
-      'VALIDATION_ERROR',
-      'Invalid query parameters',
-      400,
-      validation.error.errors
-    );
+/**
+ * Rejects variant SKUs already used by another product
+ */
+function assertVariantSkusAvailable(variants: ProductVariant[], productId?: number): void {
+  variants.forEach((variant, index) => {
+    const owner = productStore.getByVariantSku(variant.sku);
+    if (owner && owner.id !== productId) {
+      throw new ServiceError('CONFLICT', 'SKU already in use', 409, [
+        { path: ['variants', index, 'sku'], message: `SKU already used by product ${owner.id}` },
+      ]);
+    }
+  });
+}
+
+/**
+ * Rejects an external SKU already used by another product
+ */
+function assertExternalSkuAvailable(externalSku: string | null, productId?: number): void {
+  if (externalSku === null) return;
+
+  const owner = productStore.getByExternalSku(externalSku);
+  if (owner && owner.id !== productId) {
+    throw new ServiceError('CONFLICT', 'SKU already in use', 409, [
+      {
+        path: ['externalSku'],
+        message: `SKU already used by product ${owner.id}${owner.deletedAt ? ' (in the trash)' : ''}`,
+      },
+    ]);
   }
+}
 
-  const filters = validation.data;
-  let products = productStore.getAll();
+/**
+ * Rejects a change whose If-Match header names neither the current version (data.version,
+ * quoted) nor the ETag of the current product details
+ */
+function assertVersionMatches(product: ProductRecord, ifMatch: string | undefined): void {
+  /**
+   * @rule {BR-024} Changes must name the version they were based on, so concurrent edits
+   * are rejected instead of overwriting each other
+   */
+  if (ifMatch === undefined) {
+    throw new ServiceError('PRECONDITION_REQUIRED', 'If-Match header is required', 428);
+  }
+  if (
+    !matchesIfMatch(ifMatch, formatEtag(product.version)) &&
+    !matchesIfMatch(ifMatch, readProduct(product).etag)
+  ) {
+    throw new ServiceError('PRECONDITION_FAILED', 'Product was changed by someone else', 412, [
+      { path: ['version'], message: `Current version is ${product.version}` },
+    ]);
+  }
+}
+
+/**
+ * Product price and availability as seen by listings: with variants they summarize the
+ * variants (lowest price, any available), otherwise they are taken as sent
+ */
+function summarizeVariants(
+  variants: ProductVariant[],
+  price: number | null,
+  available: boolean
+): { price: number | null; available: boolean } {
+  if (variants.length === 0) return { price, available };
+
+  const prices = variants
+    .map((variant) => variant.price)
+    .filter((value): value is number => value !== null);
+
+  return {
+    price: prices.length > 0 ? Math.min(...prices) : null,
+    available: variants.some((variant) => variant.available),
+  };
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Start of a product's "Novo" window: its launch date, or its creation date
+ */
+function launchTime(product: ProductRecord): number {
+  return new Date(product.launchDate ?? product.dateCreated).getTime();
+}
+
+/**
+ * @rule {RU-012} A product is new for PRODUCT_DEFAULTS.NEW_WINDOW_DAYS after its launch
+ * date (or creation); a future launch date is not new yet
+ */
+function isProductNew(product: ProductRecord, now: Date): boolean {
+  const elapsed = now.getTime() - launchTime(product);
+  return elapsed >= 0 && elapsed <= PRODUCT_DEFAULTS.NEW_WINDOW_DAYS * DAY_MS;
+}
+
+/**
+ * Moments at which a product's derived fields change by themselves: its sale starts or
+ * ends (BR-020) and it enters or leaves the "Novo" window (RU-012)
+ */
+function scheduledChanges(product: ProductRecord): number[] {
+  const launch = launchTime(product);
+  // isNew still holds at the last millisecond of the window
+  const times = [launch, launch + PRODUCT_DEFAULTS.NEW_WINDOW_DAYS * DAY_MS + 1];
+  if (product.sale?.startsAt) times.push(new Date(product.sale.startsAt).getTime());
+  if (product.sale?.endsAt) times.push(new Date(product.sale.endsAt).getTime());
+  return times;
+}
+
+/**
+ * The latest scheduled change up to now and the first one after now, across products
+ */
+function scheduleBounds(now: number): { previous: number; next: number } {
+  let previous = -Infinity;
+  let next = Infinity;
+  productStore.getAll().forEach((product) =>
+    scheduledChanges(product).forEach((time) => {
+      if (time <= now) previous = Math.max(previous, time);
+      else next = Math.min(next, time);
+    })
+  );
+  return { previous, next };
+}
+
+/**
+ * @rule {BR-025} Product listings and details are served from the response cache until a
+ * product or category changes, the cache TTL runs out or a sale or "Novo" window opens or
+ * closes; Last-Modified accounts for those boundaries too
+ */
+function readCached<T>(key: string, compute: (now: Date) => T): ProductCachedResult<T> {
+  const now = Date.now();
+  let entry = productCache.get<T>(key, now);
+
+  if (!entry) {
+    const { previous, next } = scheduleBounds(now);
+    entry = productCache.set(key, compute(new Date(now)), {
+      lastModified: new Date(Math.max(productCache.lastModified.getTime(), previous)),
+      expiresAt: next,
+    });
+  }
+
+  return { data: entry.value, etag: entry.etag, lastModified: entry.lastModified };
+}
+
+/**
+ * Product details as served by productGet, through the response cache
+ */
+function readProduct(product: ProductRecord): ProductCachedResult<ProductEntity> {
+  return readCached(`product:${product.id}`, (now) => toProductEntity(product, now));
+}
+
+/**
+ * Cache key of a listing: the validated query with keys and category slugs in a fixed order
+ */
+function listCacheKey(query: ListQueryInput): string {
+  const entries = Object.entries(query)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, Array.isArray(value) ? [...value].sort() : value])
+    .sort(([a], [b]) => String(a).localeCompare(String(b)));
+  return `product:list:${JSON.stringify(entries)}`;
+}
+
+/**
+ * Builds the product returned by the API from its stored record. Sale prices and newness
+ * depend on the current time, so they are derived on every read.
+ */
+function toProductEntity(product: ProductRecord, now: Date = new Date()): ProductEntity {
+  return {
+    ...product,
+    ...resolveProductPricing(product, now),
+    isNew: isProductNew(product, now),
+  };
+}
+
+/**
+ * Appends the regular price changes between two versions of a product to the price
+ * history: the product price and each variant price, matched by SKU. Without a previous
+ * version every price is recorded as first set.
+ */
+function recordPriceChanges(
+  productId: number,
+  before: Pick<ProductRecord, 'price' | 'variants'> | null,
+  after: Pick<ProductRecord, 'price' | 'variants'>,
+  userId: number | null,
+  date: string
+): void {
+  const record = (sku: string | null, oldPrice: number | null, newPrice: number | null) => {
+    priceChangeStore.add({
+      id: priceChangeStore.getNextId(),
+      productId,
+      sku,
+      oldPrice,
+      newPrice,
+      userId,
+      dateCreated: date,
+    });
+  };
+
+  if (!before || before.price !== after.price) {
+    record(null, before?.price ?? null, after.price);
+  }
+
+  const previous = new Map(
+    (before?.variants ?? []).map((variant) => [variant.sku.toLowerCase(), variant.price])
+  );
+  after.variants.forEach((variant) => {
+    const key = variant.sku.toLowerCase();
+    if (!previous.has(key) || previous.get(key) !== variant.price) {
+      record(variant.sku, previous.get(key) ?? null, variant.price);
+    }
+  });
+}
+
+/**
+ * Records a product mutation in the audit log, labelled with the product name
+ */
+function auditProduct(
+  action: AuditAction,
+  before: ProductRecord | null,
+  after: ProductRecord | null,
+  userId: number | null
+): void {
+  const product = (after ?? before) as ProductRecord;
+
+  /**
+   * @rule {BR-027} Every product mutation is recorded with who made it and the
+   * fields it changed
+   */
+  auditRecord({
+    entity: AUDIT_ENTITIES.PRODUCT,
+    entityId: product.id,
+    label: product.name,
+    action,
+    before,
+    after,
+    userId,
+  });
+}
+
+/**
+ * Directory and public URL of the uploaded product images
+ */
+const imagesDir = () => path.join(config.uploads.dir, PRODUCT_IMAGE.DIRECTORY);
+const imagesUrl = () => `${config.uploads.publicUrl}/${PRODUCT_IMAGE.DIRECTORY}`;
+
+/**
+ * URLs and sizes of the renditions of an uploaded image
+ */
+function toImageVariants(
+  imageId: string,
+  sizes: Record<string, { width: number; height: number }>
+): ProductImageVariants {
+  return Object.fromEntries(
+    Object.entries(sizes).map(([variant, size]) => [
+      variant,
+      { url: `${imagesUrl()}/${imageId}/${variant}.webp`, ...size },
+    ])
+  );
+}
+
+/**
+ * Renditions of an image URL, when it is an uploaded image whose renditions are on record
+ */
+function imageVariantsOf(url: string): ProductImageVariants | null {
+  const imageId = imageIdOf(url, imagesUrl());
+  const image = imageId ? productImageStore.getByImageId(imageId) : undefined;
+  return image ? toImageVariants(image.imageId, image.variants) : null;
+}
+
+/**
+ * Removes stored images and their records
+ */
+async function removeImages(imageIds: string[]): Promise<void> {
+  await removeImageDirs(imagesDir(), imageIds);
+  productImageStore.deleteByImageIds(imageIds);
+}
+
+/**
+ * Ids of the uploaded images a product shows (main, gallery and variant images)
+ */
+function productImageIds(product: ProductRecord): string[] {
+  return [product.mainImage, ...product.images, ...product.variants.flatMap((v) => v.images)]
+    .map((url) => imageIdOf(url, imagesUrl()))
+    .filter((id): id is string => id !== null);
+}
+
+/**
+ * Ids of the uploaded images used anywhere: by any product (the trash included, so restored
+ * products keep their images) or category
+ */
+function referencedImageIds(): Set<string> {
+  const productIds = productStore.getAllIncludingDeleted().flatMap(productImageIds);
+  const categoryIds = categoryStore
+    .getAll()
+    .map((category) => (category.image ? imageIdOf(category.image, imagesUrl()) : null))
+    .filter((id): id is string => id !== null);
+  return new Set([...productIds, ...categoryIds]);
+}
+
+/**
+ * Removes the uploaded images a product no longer shows (replaced, or the product was
+ * purged) unless something else still uses them
+ */
+async function releaseProductImages(
+  before: ProductRecord,
+  after: ProductRecord | null
+): Promise<void> {
+  const kept = new Set(after ? productImageIds(after) : []);
+  const released = productImageIds(before).filter((id) => !kept.has(id));
+  if (released.length === 0) return;
+
+  const referenced = referencedImageIds();
+  await removeImages(released.filter((id) => !referenced.has(id)));
+}
+
+/**
+ * The editable fields of a stored product, shaped like a full update body
+ */
+function toUpdateDocument(product: ProductRecord): UpdateInput {
+  return {
+    externalSku: product.externalSku,
+    name: product.name,
+    description: product.description,
+    mainImage: product.mainImage,
+    images: product.images,
+    price: product.price,
+    category: product.category,
+    shortDescription: product.shortDescription,
+    dimensions: product.dimensions,
+    measurements: product.measurements,
+    featured: product.featured,
+    launchDate: product.launchDate,
+    sale: product.sale,
+    available: product.available,
+    options: product.options,
+    variants: product.variants,
+  };
+}
+
+/**
+ * Stores a validated new product (shared by create and import): checks the category and
+ * SKUs, derives price and availability and records the first prices
+ */
+function insertProduct(params: CreateInput, userId: number | null): ProductEntity {
+  assertCategoryExists(params.category);
+  assertExternalSkuAvailable(params.externalSku);
+  assertVariantSkusAvailable(params.variants);
+
+  const now = new Date().toISOString();
+  const id = productStore.getNextId();
+
+  /**
+   * @rule {BR-017} With variants, price is the lowest variant price and the product is
+   * available while any variant is
+   */
+  const summary = summarizeVariants(
+    params.variants,
+    params.price,
+    params.available ?? PRODUCT_DEFAULTS.AVAILABLE
+  );
+
+  const newProduct: ProductRecord = {
+    id,
+    externalSku: params.externalSku,
+    name: params.name,
+    description: params.description,
+    mainImage: params.mainImage,
+    images: params.images || [],
+    price: summary.price,
+    category: params.category,
+    shortDescription: params.shortDescription,
+    dimensions: params.dimensions,
+    measurements: params.measurements,
+    featured: params.featured ?? PRODUCT_DEFAULTS.FEATURED,
+    launchDate: params.launchDate,
+    sale: params.sale,
+    available: summary.available,
+    options: params.options,
+    variants: params.variants,
+    stockQuantity: null,
+    dateCreated: now,
+    dateModified: now,
+    deletedAt: null,
+    deletedBy: null,
+    version: 1,
+  };
+
+  productStore.add(newProduct);
+
+  /**
+   * @rule {BR-021} Every regular price change is recorded with who made it and when
+   */
+  recordPriceChanges(id, null, newProduct, userId, now);
+  auditProduct(AUDIT_ACTIONS.CREATE, null, newProduct, userId);
+
+  return toProductEntity(newProduct);
+}
+
+/**
+ * Applies a validated update to a stored product (shared by PUT, PATCH and import): checks the
+ * category and SKUs, re-derives price and availability and records price changes
+ */
+function applyProductUpdate(
+  existing: ProductRecord,
+  updateData: UpdateInput,
+  userId: number | null
+): ProductEntity {
+  assertCategoryExists(updateData.category);
+
+  const { id } = existing;
+  const externalSku =
+    updateData.externalSku === undefined ? existing.externalSku : updateData.externalSku;
+  assertExternalSkuAvailable(externalSku, id);
+  const options = updateData.options ?? existing.options;
+  const variants = updateData.variants ?? existing.variants;
+  assertVariantSkusAvailable(variants, id);
+  inventoryAssertStockKept(id, variants);
+
+  const now = new Date();
+
+  /**
+   * @rule {BR-017} With variants, price is the lowest variant price and the product is
+   * available while any variant is
+   */
+  const summary = summarizeVariants(variants, updateData.price, updateData.available);
+
+  /**
+   * @rule {BR-018} Once stock is tracked, availability follows the stock levels
+   */
+  const stock = inventoryResolveStock(id, variants);
+
+  const updated = productStore.update(id, {
+    externalSku,
+    name: updateData.name,
+    description: updateData.description,
+    mainImage: updateData.mainImage,
+    images: updateData.images === undefined ? existing.images : updateData.images,
+    price: summary.price,
+    category: updateData.category,
+    shortDescription: updateData.shortDescription,
+    dimensions: updateData.dimensions,
+    measurements:
+      updateData.measurements === undefined ? existing.measurements : updateData.measurements,
+    featured: updateData.featured,
+    launchDate: updateData.launchDate === undefined ? existing.launchDate : updateData.launchDate,
+    sale: updateData.sale === undefined ? existing.sale : updateData.sale,
+    available: stock?.available ?? summary.available,
+    options,
+    variants: stock?.variants ?? variants,
+    stockQuantity: stock?.stockQuantity ?? null,
+    dateModified: now.toISOString(),
+    version: existing.version + 1,
+  });
+
+  /**
+   * @rule {BR-021} Every regular price change is recorded with who made it and when
+   */
+  recordPriceChanges(id, existing, updated as ProductRecord, userId, now.toISOString());
+  auditProduct(AUDIT_ACTIONS.UPDATE, existing, updated as ProductRecord, userId);
+
+  /**
+   * @rule {BR-028} Replaced images are removed from disk; the update does not wait for it
+   */
+  releaseProductImages(existing, updated as ProductRecord).catch((error) =>
+    console.error(`Failed to remove replaced images of product ${id}:`, error)
+  );
+
+  return toProductEntity(updated as ProductRecord);
+}
+
+/**
+ * Products matching the search and filters in the requested order, with the search
+ * matches and facet counts (shared by listing and export)
+ */
+function selectProducts(
+  filters: ListFiltersInput,
+  now: Date = new Date()
+): {
+  products: ProductEntity[];
+  matches: Map<number, ProductSearchMatch>;
+  facets: ProductFacets;
+  categories: CategoryRecord[];
+} {
+  /**
+   * @rule {BR-020} Sale prices and onSale are derived from the sale window at request time
+   * @rule {RU-012} So is isNew, from the launch date
+   */
+  let products = productStore.getAll().map((p) => toProductEntity(p, now));
 
   /**
    * @rule {BR-001} Display all active products
@@ -55,30 +599,58 @@ export async function productList(query: unknown): Promise<ProductListResponse>
   // No filtering by active status needed - all products in store are active
 
   /**
-   * @rule {BR-009} Apply filters immediately
+   * @rule {BR-013} Full-text search on name, descriptions and dimensions,
+   * ignoring accents and case; every term must match
    */
-  // Filter by category
-  if (filters.category) {
-    products = products.filter((p) => p.category === filters.category);
-  }
+  const terms = parseSearchTerms(filters.q);
+  const matches = new Map<number, ProductSearchMatch>();
 
-  // Filter by availability
-  if (filters.available !== undefined) {
-    products = products.filter((p) => p.available === filters.available);
+  if (terms.length > 0) {
+    products = products.filter((p) => {
+      const match = matchProduct(p, terms);
+      if (match) {
+        matches.set(p.id, match);
+      }
+      return match !== null;
+    });
   }
 
-  // Filter by featured
-  if (filters.featured !== undefined) {
-    products = products.filter((p) => p.featured === filters.featured);
-  }
+  /**
+   * @rule {BR-009} Apply filters immediately
+   * @rule {BR-015} Facets count each option against all other active filters
+   * @rule {BR-016} A category filter includes its subcategories
+   */
+  const categories = sortCategoriesDepthFirst(categoryStore.getAll());
+  const predicates = buildProductPredicates({
+    ...filters,
+    category: filters.category && categoryExpandSlugs(filters.category),
+  });
+  const facets = computeProductFacets(products, predicates, categories);
+  products = applyProductPredicates(products, predicates);
 
   /**
    * @rule {BR-002} Featured products appear first
    * @rule {BR-012} Apply sorting
+   * @rule {BR-020} Price sorting uses the effective (sale) price
    */
-  // Sort products
-  const sortOrder = filters.sort || 'newest';
+  // Sort products (relevance only makes sense while searching)
+  const requestedSort = filters.sort ?? (terms.length > 0 ? 'relevance' : 'newest');
+  const sortOrder = requestedSort === 'relevance' && terms.length === 0 ? 'newest' : requestedSort;
   products.sort((a, b) => {
+    // Relevance ranks purely by score, featured and newest break ties
+    if (sortOrder === 'relevance') {
+      const scoreDiff = (matches.get(b.id)?.score ?? 0) - (matches.get(a.id)?.score ?? 0);
+      if (scoreDiff !== 0) return scoreDiff;
+      if (a.featured !== b.featured) return a.featured ? -1 : 1;
+      return new Date(b.dateCreated).getTime() - new Date(a.dateCreated).getTime();
+    }
+
+    // New arrivals rank new products first, latest launch first, regardless of featured
+    if (sortOrder === 'new-arrivals') {
+      if (a.isNew !== b.isNew) return a.isNew ? -1 : 1;
+      return launchTime(b) - launchTime(a);
+    }
+
     // Featured products always first
     if (a.featured && !b.featured) return -1;
     if (!a.featured && b.featured) return 1;
@@ -104,6 +676,62 @@ export async function productList(query: unknown): Promise<ProductListResponse>
     }
   });
 
+  return { products, matches, facets, categories };
+}
+
+/**
+ * @summary
+ * Lists products with filtering, sorting, and pagination.
+ *
+ * @function productList
+ * @module services/product
+ *
+ * @param {unknown} query - Raw query parameters to validate
+ * @returns {Promise<ProductCachedResult<ProductListResponse>>} Paginated list of products with
+ * facet counts, and its cache validators
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const { data } = await productList({ category: 'sala-de-estar', page: 1, pageSize: 12 });
+ * // data: { items: [...], facets: { categories: [...], ... }, pagination: { page: 1, pageSize: 12, total: 50, ... } }
+ *
+ * @example
+ * const { data } = await productList({ category: 'quarto,sala-de-estar', minPrice: '500', maxPrice: '2000' });
+ * // data: { items: [...], pagination: { ... } }
+ *
+ * @example
+ * const { data } = await productList({ category: 'sala-de-estar', maxWidth: '220' });
+ * // data: sofas and other living room products at most 220 cm wide
+ *
+ * @example
+ * const { data } = await productList({ q: 'escritorio', sort: 'relevance' });
+ * // data: { items: [{ ..., highlights: [{ field: 'name', snippet: 'Mesa de Escritório', ... }] }], ... }
+ */
+export async function productList(
+  query: unknown
+): Promise<ProductCachedResult<ProductListResponse>> {
+  const validation = listQuerySchema.safeParse(query);
+
+  if (!validation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
+  }
+
+  const filters = validation.data;
+  return readCached(listCacheKey(filters), (now) => listProducts(filters, now));
+}
+
+/**
+ * One page of the selected products, as list items
+ */
+function listProducts(filters: ListQueryInput, now: Date): ProductListResponse {
+  const { products, matches, facets, categories } = selectProducts(filters, now);
+
   /**
    * @rule {BR-004} Display 12 products per page in grid view
    * @rule {BR-011} Reset pagination when applying filters
@@ -115,50 +743,285 @@ export async function productList(query: unknown): Promise<ProductListResponse>
   const offset = (page - 1) * pageSize;
 
   const paginatedProducts = products.slice(offset, offset + pageSize);
+  const categoryNames = new Map(categories.map((c) => [c.slug, c.name]));
 
   const items: ProductListItem[] = paginatedProducts.map((p) => ({
     id: p.id,
     name: p.name,
     mainImage: p.mainImage,
+    mainImageVariants: imageVariantsOf(p.mainImage),
     price: p.price,
+    originalPrice: p.originalPrice,
+    discountPercent: p.discountPercent,
     category: p.category,
+    categoryName: categoryNames.get(p.category) ?? p.category,
+    measurements: p.measurements,
     featured: p.featured,
     isNew: p.isNew,
     onSale: p.onSale,
     available: p.available,
+    version: p.version,
+    ...(matches.has(p.id) && { highlights: matches.get(p.id)?.highlights }),
   }));
 
-  return {
-    items,
-    pagination: {
-      page,
-      pageSize,
-      total,
-      totalPages,
-      hasNext: page < totalPages,
-      hasPrevious: page > 1,
-    },
-  };
+  return {
+    items,
+    facets,
+    pagination: {
+      page,
+      pageSize,
+      total,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1,
+    },
+  };
+}
+
+/**
+ * @summary
+ * Retrieves a specific product by its unique identifier.
+ *
+ * @function productGet
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @returns {Promise<ProductCachedResult<ProductEntity>>} The found product entity, and its
+ * cache validators
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ *
+ * @example
+ * const { data } = await productGet({ id: '1' });
+ * // data: { id: 1, name: 'Sofá Moderno', ... }
+ */
+export async function productGet(params: unknown): Promise<ProductCachedResult<ProductEntity>> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+
+  const product = productStore.getById(id);
+
+  if (!product) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  return readProduct(product);
+}
+
+/**
+ * @summary
+ * Creates a new product entity with validated data.
+ *
+ * @function productCreate
+ * @module services/product
+ *
+ * @param {unknown} body - Raw request body to validate against createSchema
+ * @param {number | null} [userId] - Authenticated user, recorded in the price history
+ * @returns {Promise<ProductEntity>} The newly created product entity
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation or the category does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the external SKU or a variant SKU is used by another product
+ *
+ * @example
+ * const newProduct = await productCreate({
+ *   name: 'Sofá Moderno',
+ *   description: 'Sofá confortável',
+ *   mainImage: 'https://example.com/sofa.jpg',
+ *   price: 2500.00,
+ *   category: 'sala-de-estar'
+ * });
+ *
+ * @example
+ * const sofa = await productCreate({
+ *   ...,
+ *   options: [{ name: 'Tecido', values: ['Linho', 'Veludo'] }],
+ *   variants: [
+ *     { sku: 'SOFA-LIN', options: { Tecido: 'Linho' }, price: 2500, images: [], available: true },
+ *     { sku: 'SOFA-VEL', options: { Tecido: 'Veludo' }, price: 2900, images: [], available: false }
+ *   ]
+ * });
+ * // Returns: { ..., price: 2500, available: true, variants: [...] }
+ *
+ * @example
+ * const blackFriday = await productCreate({
+ *   ...,
+ *   price: 2500,
+ *   sale: { discountPercent: 20, startsAt: '2026-11-27T03:00:00Z', endsAt: '2026-12-01T03:00:00Z' }
+ * });
+ * // Returns: { ..., price: 2000, originalPrice: 2500, discountPercent: 20, onSale: true } during the window
+ */
+export async function productCreate(
+  body: unknown,
+  userId: number | null = null
+): Promise<ProductEntity> {
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  return insertProduct(validation.data, userId);
+}
+
+/**
+ * @summary
+ * Updates an existing product entity with new data.
+ *
+ * @function productUpdate
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Raw request body with update data to validate
+ * @param {number | null} [userId] - Authenticated user, recorded in the price history
+ * @param {string} [ifMatch] - If-Match header naming the version the update is based on
+ * @returns {Promise<ProductEntity>} The updated product entity
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation or the category does not exist
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the external SKU or a variant SKU is used by another product,
+ * or when a renamed or removed variant SKU still has stock
+ * @throws {ServiceError} PRECONDITION_FAILED (412) - When the product changed since that version
+ * @throws {ServiceError} PRECONDITION_REQUIRED (428) - When ifMatch is missing
+ *
+ * @example
+ * const updated = await productUpdate({ id: '1' }, { name: 'Sofá Atualizado', price: 2800.00 }, 1, '"4"');
+ */
+export async function productUpdate(
+  params: unknown,
+  body: unknown,
+  userId: number | null = null,
+  ifMatch?: string
+): Promise<ProductEntity> {
+  const paramsValidation = paramsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = productStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  assertVersionMatches(existing, ifMatch);
+
+  const bodyValidation = updateSchema.safeParse(body);
+
+  if (!bodyValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Validation failed',
+      400,
+      bodyValidation.error.errors
+    );
+  }
+
+  return applyProductUpdate(existing, bodyValidation.data, userId);
+}
+
+/**
+ * @summary
+ * Partially updates a product with JSON Merge Patch semantics (RFC 7386): omitted
+ * fields are kept, `null` clears nullable fields, nested objects (measurements, sale)
+ * are merged and arrays are replaced. The patched product is validated like a full
+ * update, so errors point at the patched fields.
+ *
+ * @function productPatch
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {unknown} body - Merge patch
+ * @param {number | null} [userId] - Authenticated user, recorded in the price history
+ * @param {string} [ifMatch] - If-Match header naming the version the patch is based on
+ * @returns {Promise<ProductEntity>} The updated product entity
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the ID is invalid, the body is not an object or the patched product fails validation
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} CONFLICT (409) - When the external SKU or a variant SKU is used by another product,
+ * or when a renamed or removed variant SKU still has stock
+ * @throws {ServiceError} PRECONDITION_FAILED (412) - When the product changed since that version
+ * @throws {ServiceError} PRECONDITION_REQUIRED (428) - When ifMatch is missing
+ *
+ * @example
+ * const updated = await productPatch({ id: '1' }, { featured: true }, 1, '"4"');
+ *
+ * @example
+ * const updated = await productPatch({ id: '1' }, { sale: { discountPercent: 15 }, dimensions: null }, 1, '"5"');
+ * // Keeps the sale dates, changes the discount and clears the free-text dimensions
+ */
+export async function productPatch(
+  params: unknown,
+  body: unknown,
+  userId: number | null = null,
+  ifMatch?: string
+): Promise<ProductEntity> {
+  const paramsValidation = paramsSchema.safeParse(params);
+
+  if (!paramsValidation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
+  }
+
+  if (!isPlainObject(body)) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: [], message: 'Patch must be a JSON object' },
+    ]);
+  }
+
+  const { id } = paramsValidation.data;
+  const existing = productStore.getById(id);
+
+  if (!existing) {
+    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  }
+
+  assertVersionMatches(existing, ifMatch);
+
+  // Nulls are kept so the schema clears nullable fields and rejects the rest
+  const patched = applyMergePatch(toUpdateDocument(existing), body, { keepNulls: true });
+  const validation = updateSchema.safeParse(patched);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  return applyProductUpdate(existing, validation.data, userId);
 }
 
 /**
  * @summary
- * Retrieves a specific product by its unique identifier.
+ * Moves a product to the trash. It disappears from listings and reads but keeps its
+ * stock levels and SKUs until it is restored or purged.
  *
- * @function productGet
+ * @function productDelete
  * @module services/product
  *
  * @param {unknown} params - Raw request params containing the ID to validate
- * @returns {Promise<ProductEntity>} The found product entity
+ * @param {number | null} [userId] - Authenticated user, recorded as deletedBy
+ * @param {string} [ifMatch] - If-Match header naming the version being deleted
+ * @returns {Promise<{ message: string }>} Success confirmation message
  *
  * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
- * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist or is already in the trash
+ * @throws {ServiceError} PRECONDITION_FAILED (412) - When the product changed since that version
+ * @throws {ServiceError} PRECONDITION_REQUIRED (428) - When ifMatch is missing
  *
  * @example
- * const product = await productGet({ id: '1' });
- * // Returns: { id: 1, name: 'Sofá Moderno', ... }
+ * const result = await productDelete({ id: '1' }, 3, '"2"');
+ * // Returns: { message: 'Product moved to trash' }
  */
-export async function productGet(params: unknown): Promise<ProductEntity> {
+export async function productDelete(
+  params: unknown,
+  userId: number | null = null,
+  ifMatch?: string
+): Promise<{ message: string }> {
   const validation = paramsSchema.safeParse(params);
 
   if (!validation.success) {
@@ -166,177 +1029,598 @@ export async function productGet(params: unknown): Promise<ProductEntity> {
   }
 
   const { id } = validation.data;
-  const product = productStore.getById(id);
+  const existing = productStore.getById(id);
 
-  if (!product) {
+  if (!existing) {
     throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
-  return product;
+  assertVersionMatches(existing, ifMatch);
+
+  /**
+   * @rule {BR-023} Deleting moves the product to the trash; it is purged after
+   * config.trash.retentionDays unless restored
+   */
+  const now = new Date().toISOString();
+  const deleted = productStore.update(id, {
+    deletedAt: now,
+    deletedBy: userId,
+    dateModified: now,
+    version: existing.version + 1,
+  });
+  auditProduct(AUDIT_ACTIONS.DELETE, existing, deleted as ProductRecord, userId);
+
+  return { message: 'Product moved to trash' };
+}
+
+/**
+ * When a product in the trash is due to be purged
+ */
+function purgeTime(product: ProductRecord): number {
+  return new Date(product.deletedAt ?? 0).getTime() + config.trash.retentionDays * DAY_MS;
 }
 
 /**
  * @summary
- * Creates a new product entity with validated data.
+ * Lists the products in the trash, most recently deleted first.
  *
- * @function productCreate
+ * @function productTrash
  * @module services/product
  *
- * @param {unknown} body - Raw request body to validate against createSchema
- * @returns {Promise<ProductEntity>} The newly created product entity
+ * @returns {Promise<ProductTrashResponse>} Products in the trash and the retention period
+ *
+ * @example
+ * const trash = await productTrash();
+ * // Returns: { items: [{ id: 4, name: 'Mesa', deletedAt: '...', deletedByName: 'Ana', purgeAt: '...' }], retentionDays: 30 }
+ */
+export async function productTrash(): Promise<ProductTrashResponse> {
+  const categoryNames = new Map(categoryStore.getAll().map((c) => [c.slug, c.name]));
+
+  const items = productStore
+    .getDeleted()
+    .sort((a, b) => (b.deletedAt ?? '').localeCompare(a.deletedAt ?? ''))
+    .map((product) => ({
+      id: product.id,
+      externalSku: product.externalSku,
+      name: product.name,
+      mainImage: product.mainImage,
+      price: product.price,
+      category: product.category,
+      categoryName: categoryNames.get(product.category) ?? product.category,
+      deletedAt: product.deletedAt as string,
+      deletedBy: product.deletedBy,
+      deletedByName:
+        product.deletedBy !== null ? (userStore.getById(product.deletedBy)?.name ?? null) : null,
+      purgeAt: new Date(purgeTime(product)).toISOString(),
+    }));
+
+  return { items, retentionDays: config.trash.retentionDays };
+}
+
+/**
+ * @summary
+ * Restores a product from the trash.
+ *
+ * @function productRestore
+ * @module services/product
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {number | null} [userId] - Authenticated user, recorded in the audit log
+ * @returns {Promise<ProductEntity>} The restored product entity
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} NOT_FOUND (404) - When no product with given ID is in the trash
  *
  * @example
- * const newProduct = await productCreate({
- *   name: 'Sofá Moderno',
- *   description: 'Sofá confortável',
- *   mainImage: 'https://example.com/sofa.jpg',
- *   price: 2500.00,
- *   category: 'sala de estar'
- * });
+ * const product = await productRestore({ id: '4' }, 1);
+ * // Returns: { id: 4, ..., deletedAt: null }
  */
-export async function productCreate(body: unknown): Promise<ProductEntity> {
-  const validation = createSchema.safeParse(body);
+export async function productRestore(
+  params: unknown,
+  userId: number | null = null
+): Promise<ProductEntity> {
+  const validation = paramsSchema.safeParse(params);
 
   if (!validation.success) {
-    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
   }
 
-  const params = validation.data;
-  const now = new Date().toISOString();
-  const id = productStore.getNextId();
+  const { id } = validation.data;
+  const product = productStore.getByIdIncludingDeleted(id);
+
+  if (!product || product.deletedAt === null) {
+    throw new ServiceError('NOT_FOUND', 'Product not found in trash', 404);
+  }
+
+  // SKUs of trashed products stay reserved and their category cannot be deleted,
+  // so the product can be restored as it was
+  const restored = productStore.update(id, {
+    deletedAt: null,
+    deletedBy: null,
+    dateModified: new Date().toISOString(),
+    version: product.version + 1,
+  });
+  auditProduct(AUDIT_ACTIONS.RESTORE, product, restored as ProductRecord, userId);
+
+  return toProductEntity(restored as ProductRecord);
+}
+
+/**
+ * @summary
+ * Permanently deletes the products that have been in the trash longer than
+ * config.trash.retentionDays, with the uploaded images only they used. Run periodically by
+ * the server.
+ *
+ * @function productPurgeTrash
+ * @module services/product
+ *
+ * @param {Date} [now] - Current time
+ * @returns {Promise<{ purged: number }>} Number of products deleted
+ *
+ * @example
+ * const { purged } = await productPurgeTrash();
+ */
+export async function productPurgeTrash(now: Date = new Date()): Promise<{ purged: number }> {
+  const expired = productStore
+    .getDeleted()
+    .filter((product) => purgeTime(product) <= now.getTime());
+
+  expired.forEach((product) => {
+    /**
+     * @rule {BR-029} Stock levels go with the product; its ledger entries,
+     * price history and audit entries are kept
+     */
+    stockLevelStore.deleteByProduct(product.id);
+    productStore.delete(product.id);
+    auditProduct(AUDIT_ACTIONS.PURGE, product, null, null);
+  });
 
   /**
-   * @rule {RU-012} Product is considered new if created in last 30 days
+   * @rule {BR-028} Uploaded images go with the purged product
    */
-  const isNew = true; // New products are always marked as new on creation
+  for (const product of expired) {
+    await releaseProductImages(product, null);
+  }
 
-  const newProduct: ProductEntity = {
-    id,
-    name: params.name,
-    description: params.description,
-    mainImage: params.mainImage,
-    images: params.images || [],
-    price: params.price,
-    category: params.category,
-    shortDescription: params.shortDescription,
-    dimensions: params.dimensions,
-    featured: params.featured ?? PRODUCT_DEFAULTS.FEATURED,
-    isNew,
-    onSale: params.onSale ?? PRODUCT_DEFAULTS.ON_SALE,
-    available: params.available ?? PRODUCT_DEFAULTS.AVAILABLE,
-    dateCreated: now,
-    dateModified: now,
-  };
+  return { purged: expired.length };
+}
 
-  productStore.add(newProduct);
-  return newProduct;
+/**
+ * @summary
+ * Removes uploaded images that no product (the trash included) or category uses, such as
+ * images uploaded in a form that was never saved. Only uploads older than
+ * config.uploads.orphanRetentionHours are removed, so forms still being filled keep theirs.
+ *
+ * @function productSweepImages
+ * @module services/product
+ *
+ * @param {Date} [now] - Current time
+ * @returns {Promise<{ removed: number }>} Number of images removed
+ *
+ * @example
+ * const { removed } = await productSweepImages();
+ */
+export async function productSweepImages(now: Date = new Date()): Promise<{ removed: number }> {
+  const cutoff = now.getTime() - config.uploads.orphanRetentionHours * 60 * 60 * 1000;
+  const stored = await listImageDirs(imagesDir());
+  const referenced = referencedImageIds();
+
+  const orphans = stored
+    .filter((image) => !referenced.has(image.id) && image.modifiedAt.getTime() <= cutoff)
+    .map((image) => image.id);
+  await removeImages(orphans);
+
+  return { removed: orphans.length };
 }
 
 /**
  * @summary
- * Updates an existing product entity with new data.
+ * Lists the price changes of a product, oldest first.
  *
- * @function productUpdate
+ * @function productPriceHistory
  * @module services/product
  *
  * @param {unknown} params - Raw request params containing the ID to validate
- * @param {unknown} body - Raw request body with update data to validate
- * @returns {Promise<ProductEntity>} The updated product entity
+ * @param {unknown} query - Raw query parameters (sku to only list one variant)
+ * @returns {Promise<ProductPriceHistory>} The product price changes
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or body fails validation
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID or query parameters are invalid
  * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
  *
  * @example
- * const updated = await productUpdate({ id: '1' }, { name: 'Sofá Atualizado', price: 2800.00 });
+ * const history = await productPriceHistory({ id: '1' }, {});
+ * // Returns: { productId: 1, changes: [{ sku: null, oldPrice: null, newPrice: 2500, userName: 'Ana', ... }, ...] }
  */
-export async function productUpdate(params: unknown, body: unknown): Promise<ProductEntity> {
+export async function productPriceHistory(
+  params: unknown,
+  query: unknown
+): Promise<ProductPriceHistory> {
   const paramsValidation = paramsSchema.safeParse(params);
 
   if (!paramsValidation.success) {
     throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, paramsValidation.error.errors);
   }
 
-  const bodyValidation = updateSchema.safeParse(body);
+  const queryValidation = priceHistoryQuerySchema.safeParse(query);
 
-  if (!bodyValidation.success) {
+  if (!queryValidation.success) {
     throw new ServiceError(
       'VALIDATION_ERROR',
-      'Validation failed',
+      'Invalid query parameters',
       400,
-      bodyValidation.error.errors
+      queryValidation.error.errors
     );
   }
 
   const { id } = paramsValidation.data;
-  const existing = productStore.getById(id);
+  const { sku } = queryValidation.data;
 
-  if (!existing) {
+  if (!productStore.exists(id)) {
     throw new ServiceError('NOT_FOUND', 'Product not found', 404);
   }
 
-  const updateData = bodyValidation.data;
+  const changes = priceChangeStore
+    .getByProduct(id)
+    .filter((change) => sku === undefined || change.sku?.toLowerCase() === sku.toLowerCase());
+
+  return {
+    productId: id,
+    changes: changes.map((change) => ({
+      id: change.id,
+      sku: change.sku,
+      oldPrice: change.oldPrice,
+      newPrice: change.newPrice,
+      userId: change.userId,
+      userName: change.userId !== null ? (userStore.getById(change.userId)?.name ?? null) : null,
+      dateCreated: change.dateCreated,
+    })),
+  };
+}
+
+/**
+ * Row errors from a ServiceError raised while storing an imported row
+ */
+function toImportRowErrors(error: ServiceError): ProductImportRowError[] {
+  return Array.isArray(error.details)
+    ? (error.details as ProductImportRowError[])
+    : [{ path: [], message: error.message }];
+}
+
+/**
+ * Whether an imported row leaves its product as it is (every field it sets already holds
+ * that value)
+ */
+function isUnchangedImport(existing: ProductRecord, data: CreateInput): boolean {
+  const current = createSchema.safeParse(toUpdateDocument(existing));
+  return current.success && isDeepStrictEqual(current.data, data);
+}
+
+/**
+ * Validates one imported row and, unless it is a dry run, creates or updates its product.
+ * seenSkus holds the SKUs of the previous rows (lowercased) and their lines.
+ */
+function importRow(
+  line: number,
+  request: Record<string, unknown>,
+  seenSkus: Map<string, number>,
+  dryRun: boolean,
+  userId: number | null
+): ProductImportRowResult {
+  const externalSku = typeof request.externalSku === 'string' ? request.externalSku : null;
+  const existing = externalSku ? productStore.getByExternalSku(externalSku) : undefined;
+
+  // Updates keep the fields without a column in the sheet; new products have no
+  // description, summary or dimensions unless the sheet has them
+  const validation = createSchema.safeParse(
+    existing
+      ? { ...toUpdateDocument(existing), ...request }
+      : { description: null, shortDescription: null, dimensions: null, ...request }
+  );
+
+  const result: ProductImportRowResult = {
+    row: line,
+    externalSku,
+    action: externalSku ? (existing ? 'update' : 'create') : null,
+    productId: existing?.id ?? null,
+    errors: validation.success
+      ? []
+      : validation.error.errors.map(({ path, message }) => ({ path, message })),
+  };
+
+  if (externalSku === null) {
+    result.errors.push({ path: ['externalSku'], message: 'SKU is required' });
+  } else {
+    const previousLine = seenSkus.get(externalSku.toLowerCase());
+    if (previousLine !== undefined) {
+      result.errors.push({
+        path: ['externalSku'],
+        message: `SKU repeated from row ${previousLine}`,
+      });
+    } else {
+      seenSkus.set(externalSku.toLowerCase(), line);
+    }
+  }
+
+  if (existing?.deletedAt) {
+    result.errors.push({
+      path: ['externalSku'],
+      message: `Product ${existing.id} with this SKU is in the trash; restore it first`,
+    });
+  }
+
+  if (!validation.success || result.errors.length > 0) return result;
+
+  const data = validation.data;
+  if (!categoryStore.getBySlug(data.category)) {
+    result.errors.push({ path: ['category'], message: 'Category not found' });
+    return result;
+  }
 
   /**
-   * @rule {RU-012} Check if product is still new (within 30 days)
+   * @rule {BR-022} A row that changes nothing is skipped, so re-importing a sheet does not
+   * bump versions and make open editors conflict
    */
-  const createdDate = new Date(existing.dateCreated);
-  const now = new Date();
-  const daysSinceCreation = Math.floor(
-    (now.getTime() - createdDate.getTime()) / (1000 * 60 * 60 * 24)
-  );
-  const isNew = daysSinceCreation <= 30;
+  if (existing && isUnchangedImport(existing, data)) {
+    result.action = 'unchanged';
+    return result;
+  }
 
-  const updated = productStore.update(id, {
-    name: updateData.name,
-    description: updateData.description,
-    mainImage: updateData.mainImage,
-    images: updateData.images || existing.images,
-    price: updateData.price,
-    category: updateData.category,
-    shortDescription: updateData.shortDescription,
-    dimensions: updateData.dimensions,
-    featured: updateData.featured,
-    isNew,
-    onSale: updateData.onSale,
-    available: updateData.available,
-    dateModified: now.toISOString(),
-  });
+  if (dryRun) return result;
+
+  try {
+    result.productId = existing
+      ? applyProductUpdate(existing, data, userId).id
+      : insertProduct(data, userId).id;
+  } catch (error) {
+    if (!isServiceError(error)) throw error;
+    result.errors = toImportRowErrors(error);
+  }
 
-  return updated as ProductEntity;
+  return result;
 }
 
 /**
  * @summary
- * Permanently deletes a product entity by its ID.
+ * Imports products from a CSV or XLSX spreadsheet. The first row is the header; columns
+ * are matched by name (PRODUCT_IMPORT.COLUMNS, in English or Portuguese) and unknown
+ * columns are ignored. Every row is validated with the create schema (a row for a known
+ * SKU only needs the columns to change); valid rows are imported, rows that change nothing
+ * are reported as unchanged and rows with errors are skipped and reported. Options and variants are not imported.
  *
- * @function productDelete
+ * @function productImport
  * @module services/product
  *
- * @param {unknown} params - Raw request params containing the ID to validate
- * @returns {Promise<{ message: string }>} Success confirmation message
+ * @param {unknown} file - Uploaded file contents (a Buffer)
+ * @param {string | undefined} contentType - Content type of the upload (text/csv or XLSX)
+ * @param {unknown} query - Raw query parameters (dryRun=true to only validate)
+ * @param {number | null} [userId] - Authenticated user, recorded in the price history
+ * @returns {Promise<ProductImportReport>} Per-row outcome with counts
  *
- * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
- * @throws {ServiceError} NOT_FOUND (404) - When product with given ID does not exist
+ * @throws {ServiceError} UNSUPPORTED_MEDIA_TYPE (415) - When the upload is not a CSV or XLSX file
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When the query is invalid, the file cannot be read, has no SKU column or too many rows
  *
  * @example
- * const result = await productDelete({ id: '1' });
- * // Returns: { message: 'Product deleted successfully' }
+ * const report = await productImport(csv, 'text/csv', { dryRun: 'true' });
+ * // Returns: { dryRun: true, totalRows: 2, created: 1, updated: 0, unchanged: 0, failed: 1, rows: [
+ * //   { row: 2, externalSku: 'SOFA-1', action: 'create', productId: null, errors: [] },
+ * //   { row: 3, externalSku: 'MESA-9', action: 'update', productId: 7, errors: [{ path: ['price'], message: '...' }] }
+ * // ], ... }
  */
-export async function productDelete(params: unknown): Promise<{ message: string }> {
-  const validation = paramsSchema.safeParse(params);
+export async function productImport(
+  file: unknown,
+  contentType: string | undefined,
+  query: unknown,
+  userId: number | null = null
+): Promise<ProductImportReport> {
+  const queryValidation = importQuerySchema.safeParse(query);
+
+  if (!queryValidation.success) {
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      queryValidation.error.errors
+    );
+  }
+
+  const mimeType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  const format = (PRODUCT_IMPORT.CONTENT_TYPES as Record<string, ProductImportFormat>)[mimeType];
+
+  if (!format || !Buffer.isBuffer(file)) {
+    throw new ServiceError('UNSUPPORTED_MEDIA_TYPE', 'Upload a CSV or XLSX file', 415);
+  }
+
+  let sheet: ImportCell[][];
+  try {
+    sheet = await readImportSheet(file, format);
+  } catch {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: [], message: `Could not read the ${format.toUpperCase()} file` },
+    ]);
+  }
+
+  const [header = [], ...lines] = sheet;
+  const { columns, ignoredColumns } = mapImportHeader(header);
+
+  if (!columns.includes('externalSku')) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: ['externalSku'], message: 'The sheet needs a SKU column' },
+    ]);
+  }
+
+  // Rows keep their line in the file (the header is line 1)
+  const rows = lines
+    .map((cells, index) => ({ line: index + 2, cells }))
+    .filter(({ cells }) => !isBlankImportRow(cells));
+
+  if (rows.length > PRODUCT_IMPORT.MAX_ROWS) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: [], message: `At most ${PRODUCT_IMPORT.MAX_ROWS} rows per file` },
+    ]);
+  }
+
+  const dryRun = queryValidation.data.dryRun ?? false;
+  const seenSkus = new Map<string, number>();
+
+  /**
+   * @rule {BR-022} Imported rows are matched to products by external SKU: a known SKU
+   * updates its product, an unknown one creates a product
+   */
+  const results = rows.map(({ line, cells }) =>
+    importRow(line, toImportRequest(cells, columns), seenSkus, dryRun, userId)
+  );
+  const succeeded = results.filter((result) => result.errors.length === 0);
+
+  return {
+    dryRun,
+    format,
+    totalRows: results.length,
+    created: succeeded.filter((result) => result.action === 'create').length,
+    updated: succeeded.filter((result) => result.action === 'update').length,
+    unchanged: succeeded.filter((result) => result.action === 'unchanged').length,
+    failed: results.length - succeeded.length,
+    ignoredColumns,
+    rows: results,
+  };
+}
+
+/**
+ * @summary
+ * Exports the catalog as CSV, XLSX or JSON. Accepts the same search, filter and sort
+ * parameters as productList, without pagination: every matching product is exported.
+ *
+ * @function productExport
+ * @module services/product
+ *
+ * @param {unknown} query - Raw query parameters (list filters plus format, default csv)
+ * @returns {Promise<ProductExport>} File metadata and a writer that streams the file
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When query parameters fail validation
+ *
+ * @example
+ * const file = await productExport({ format: 'xlsx', category: 'quarto', available: 'true' });
+ * res.setHeader('Content-Type', file.contentType);
+ * await file.write(res);
+ */
+export async function productExport(query: unknown): Promise<ProductExport> {
+  const validation = exportQuerySchema.safeParse(query);
 
   if (!validation.success) {
-    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+    throw new ServiceError(
+      'VALIDATION_ERROR',
+      'Invalid query parameters',
+      400,
+      validation.error.errors
+    );
   }
 
-  const { id } = validation.data;
+  const { format, ...filters } = validation.data;
+  const { products } = selectProducts(filters);
+  const date = new Date().toISOString().slice(0, 10);
 
-  if (!productStore.exists(id)) {
-    throw new ServiceError('NOT_FOUND', 'Product not found', 404);
+  return {
+    format,
+    contentType: PRODUCT_EXPORT.CONTENT_TYPES[format],
+    filename: `${PRODUCT_EXPORT.FILENAME_PREFIX}-${date}.${format}`,
+    total: products.length,
+    write: (output) => writeProductExport(products, format, output),
+  };
+}
+
+/**
+ * @summary
+ * Stores an uploaded product image as WebP renditions (thumbnail, medium and large) on the
+ * uploads disk and returns their URLs, which product create and update accept like any
+ * other image URL.
+ *
+ * @function productImageUpload
+ * @module services/product
+ *
+ * @param {unknown} file - Uploaded file contents (a Buffer)
+ * @param {string | undefined} contentType - Content type of the upload (JPEG, PNG or WebP)
+ * @returns {Promise<ProductImageUpload>} Image id, URLs and sizes
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When no file was sent, it cannot be read or it is too small
+ * @throws {ServiceError} UNSUPPORTED_MEDIA_TYPE (415) - When the file is not a JPEG, PNG or WebP image
+ * @throws {ServiceError} PAYLOAD_TOO_LARGE (413) - When the file is over PRODUCT_LIMITS.IMAGE_MAX_SIZE_MB
+ *
+ * @example
+ * const image = await productImageUpload(buffer, 'image/jpeg');
+ * // Returns: { id: '3f0c…', url: 'http://localhost:3000/uploads/products/3f0c…/large.webp', width: 2400, height: 1600,
+ * //   variants: { placeholder: {...}, thumbnail: { url: '…/thumbnail.webp', width: 320, height: 213 }, medium: {...}, large: {...} } }
+ */
+export async function productImageUpload(
+  file: unknown,
+  contentType: string | undefined
+): Promise<ProductImageUpload> {
+  if (!Buffer.isBuffer(file)) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      {
+        path: [PRODUCT_IMAGE.FIELD_NAME],
+        message: `Send the image file in the "${PRODUCT_IMAGE.FIELD_NAME}" field`,
+      },
+    ]);
+  }
+
+  const mimeType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  const acceptedFormats: string[] = Object.values(PRODUCT_IMAGE.CONTENT_TYPES);
+
+  if (!(mimeType in PRODUCT_IMAGE.CONTENT_TYPES)) {
+    throw new ServiceError('UNSUPPORTED_MEDIA_TYPE', 'Upload a JPEG, PNG or WebP image', 415);
+  }
+
+  /**
+   * @rule {BR-026} Product images are at most PRODUCT_LIMITS.IMAGE_MAX_SIZE_MB and at least
+   * IMAGE_MIN_WIDTH x IMAGE_MIN_HEIGHT pixels
+   */
+  if (file.length > PRODUCT_LIMITS.IMAGE_MAX_SIZE_MB * 1024 * 1024) {
+    throw new ServiceError(
+      'PAYLOAD_TOO_LARGE',
+      `Images are limited to ${PRODUCT_LIMITS.IMAGE_MAX_SIZE_MB} MB`,
+      413
+    );
+  }
+
+  const info = await readImageInfo(file);
+
+  if (!info) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      { path: [PRODUCT_IMAGE.FIELD_NAME], message: 'Could not read the image' },
+    ]);
   }
 
-  productStore.delete(id);
-  return { message: 'Product deleted successfully' };
+  // The content type is only a claim; the file itself must be an accepted format
+  if (!acceptedFormats.includes(info.format)) {
+    throw new ServiceError('UNSUPPORTED_MEDIA_TYPE', 'Upload a JPEG, PNG or WebP image', 415);
+  }
+
+  if (
+    info.width < PRODUCT_LIMITS.IMAGE_MIN_WIDTH ||
+    info.height < PRODUCT_LIMITS.IMAGE_MIN_HEIGHT
+  ) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, [
+      {
+        path: [PRODUCT_IMAGE.FIELD_NAME],
+        message: `The image must be at least ${PRODUCT_LIMITS.IMAGE_MIN_WIDTH}x${PRODUCT_LIMITS.IMAGE_MIN_HEIGHT} pixels (it is ${info.width}x${info.height})`,
+      },
+    ]);
+  }
+
+  // A new directory per upload, so a stored file never changes and can be cached for good
+  const id = randomUUID();
+  const sizes = await writeImageVariants(file, path.join(imagesDir(), id));
+
+  // The rendition sizes are kept so listings can offer them for responsive images
+  productImageStore.add({
+    id: productImageStore.getNextId(),
+    imageId: id,
+    width: info.width,
+    height: info.height,
+    variants: sizes,
+    dateCreated: new Date().toISOString(),
+  });
+
+  const variants = toImageVariants(id, sizes) as ProductImageUpload['variants'];
+
+  return { id, url: variants.large.url, width: info.width, height: info.height, variants };
 }
@@ -5,26 +5,119 @@
  * @module services/product/productTypes
  */
 
+import { Writable } from 'stream';
+import { ProductExportFormat, ProductImageVariant, ProductImportFormat } from '@/constants';
+
+/**
+ * @interface ProductOption
+ * @description A choice offered on a product (e.g. cor, tecido, acabamento) and its values
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * @interface ProductVariant
+ * @description A purchasable combination of option values with its own SKU, price and images.
+ * `options` maps every option name of the product to one of its values.
+ */
+export interface ProductVariant {
+  sku: string;
+  options: Record<string, string>;
+  price: number | null;
+  images: string[];
+  available: boolean;
+}
+
+/**
+ * @interface ProductMeasurements
+ * @description Structured size of a product: width, depth and height in centimetres,
+ * weight in kilograms (optional)
+ */
+export interface ProductMeasurements {
+  width: number;
+  depth: number;
+  height: number;
+  weight: number | null;
+}
+
+/**
+ * @interface ProductVariantEntity
+ * @description A variant as returned by the API: price is what the customer pays now and
+ * originalPrice the regular price while a sale is running (null otherwise)
+ */
+export interface ProductVariantEntity extends ProductVariant {
+  originalPrice: number | null;
+}
+
+/**
+ * @interface ProductSale
+ * @description A percentage discount, optionally limited to a time window
+ * (a null start or end leaves that side open)
+ */
+export interface ProductSale {
+  discountPercent: number;
+  startsAt: string | null;
+  endsAt: string | null;
+}
+
 /**
  * @interface ProductEntity
- * @description Represents a product entity in the catalog
+ * @description Represents a product entity in the catalog. When the product has variants,
+ * price and available summarize them (lowest variant price, any variant available).
+ * Once stock is tracked (stockQuantity not null), availability follows the stock levels.
+ * While the sale window is open, price is the discounted price and originalPrice the
+ * regular one; onSale and discountPercent are derived from the sale. isNew is derived
+ * from launchDate (or dateCreated).
  */
 export interface ProductEntity {
   id: number;
+  externalSku: string | null;
   name: string;
   description: string | null;
   mainImage: string;
   images: string[];
   price: number | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
   category: string;
   shortDescription: string | null;
   dimensions: string | null;
+  measurements: ProductMeasurements | null;
   featured: boolean;
   isNew: boolean;
+  launchDate: string | null;
   onSale: boolean;
+  sale: ProductSale | null;
   available: boolean;
+  options: ProductOption[];
+  variants: ProductVariantEntity[];
+  stockQuantity: number | null;
   dateCreated: string;
   dateModified: string;
+  deletedAt: string | null;
+  deletedBy: number | null;
+  version: number;
+}
+
+/**
+ * @interface ProductSearchMatchRange
+ * @description Position of a search match inside a highlight snippet (end exclusive)
+ */
+export interface ProductSearchMatchRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * @interface ProductSearchHighlight
+ * @description Snippet of a searchable field with the ranges that matched the query
+ */
+export interface ProductSearchHighlight {
+  field: 'name' | 'shortDescription' | 'description' | 'dimensions';
+  snippet: string;
+  matches: ProductSearchMatchRange[];
 }
 
 /**
@@ -35,12 +128,66 @@ export interface ProductListItem {
   id: number;
   name: string;
   mainImage: string;
+  /** Renditions of an uploaded main image, for responsive images; null for other images */
+  mainImageVariants: ProductImageVariants | null;
   price: number | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
   category: string;
+  categoryName: string;
+  measurements: ProductMeasurements | null;
   featured: boolean;
   isNew: boolean;
   onSale: boolean;
   available: boolean;
+  /** Sent back in If-Match by list actions (e.g. toggling featured) */
+  version: number;
+  highlights?: ProductSearchHighlight[];
+}
+
+/**
+ * @interface ProductFacetValue
+ * @description Number of products matching a facet option
+ */
+export interface ProductFacetValue {
+  value: string;
+  count: number;
+}
+
+/**
+ * @interface ProductBooleanFacet
+ * @description Number of products for each value of a boolean flag
+ */
+export interface ProductBooleanFacet {
+  true: number;
+  false: number;
+}
+
+/**
+ * @interface ProductPriceBucket
+ * @description Number of products within a price range (max null means no upper bound)
+ */
+export interface ProductPriceBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+/**
+ * @interface ProductFacets
+ * @description Facet counts for a listing. Each facet is computed against the current
+ * filter set excluding that facet's own filter.
+ */
+export interface ProductFacets {
+  categories: ProductFacetValue[];
+  available: ProductBooleanFacet;
+  featured: ProductBooleanFacet;
+  onSale: ProductBooleanFacet;
+  isNew: ProductBooleanFacet;
+  price: {
+    buckets: ProductPriceBucket[];
+    onRequest: number;
+  };
 }
 
 /**
@@ -49,6 +196,7 @@ export interface ProductListItem {
  */
 export interface ProductListResponse {
   items: ProductListItem[];
+  facets: ProductFacets;
   pagination: {
     page: number;
     pageSize: number;
@@ -59,11 +207,89 @@ export interface ProductListResponse {
   };
 }
 
+/**
+ * @interface ProductCachedResult
+ * @description A product read served through the response cache, with the validators
+ * controllers send for conditional GETs
+ */
+export interface ProductCachedResult<T> {
+  data: T;
+  /** Strong entity tag of the data */
+  etag: string;
+  /** Last product or category change, or the last sale or "Novo" window boundary */
+  lastModified: Date;
+}
+
+/**
+ * @interface ProductPriceChange
+ * @description A change of the regular product price (sku null) or of a variant price.
+ * oldPrice is null when the price was first set; null prices are "Sob consulta".
+ */
+export interface ProductPriceChange {
+  id: number;
+  sku: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  userId: number | null;
+  userName: string | null;
+  dateCreated: string;
+}
+
+/**
+ * @interface ProductPriceHistory
+ * @description Price changes of a product, oldest first
+ */
+export interface ProductPriceHistory {
+  productId: number;
+  changes: ProductPriceChange[];
+}
+
+/**
+ * @interface ProductImportRowError
+ * @description A problem with one field of an imported row (same shape as validation details)
+ */
+export interface ProductImportRowError {
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * @interface ProductImportRowResult
+ * @description Outcome of one spreadsheet row. row is the line in the file (the header is
+ * line 1); action is what the row does (or would do on a dry run) and is null without a SKU.
+ * Rows with errors are not imported; unchanged rows match their product and are skipped.
+ */
+export interface ProductImportRowResult {
+  row: number;
+  externalSku: string | null;
+  action: 'create' | 'update' | 'unchanged' | null;
+  productId: number | null;
+  errors: ProductImportRowError[];
+}
+
+/**
+ * @interface ProductImportReport
+ * @description Result of a spreadsheet import; on a dry run nothing is stored and the
+ * counts tell what the import would do
+ */
+export interface ProductImportReport {
+  dryRun: boolean;
+  format: ProductImportFormat;
+  totalRows: number;
+  created: number;
+  updated: number;
+  unchanged: number;
+  failed: number;
+  ignoredColumns: string[];
+  rows: ProductImportRowResult[];
+}
+
 /**
  * @interface ProductCreateRequest
  * @description Request payload for creating a product
  */
 export interface ProductCreateRequest {
+  externalSku?: string | null;
   name: string;
   description: string | null;
   mainImage: string;
@@ -72,9 +298,13 @@ export interface ProductCreateRequest {
   category: string;
   shortDescription: string | null;
   dimensions: string | null;
+  measurements?: ProductMeasurements | null;
   featured?: boolean;
-  onSale?: boolean;
+  launchDate?: string | null;
+  sale?: ProductSale | null;
   available?: boolean;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
 }
 
 /**
@@ -82,6 +312,7 @@ export interface ProductCreateRequest {
  * @description Request payload for updating a product
  */
 export interface ProductUpdateRequest {
+  externalSku?: string | null;
   name: string;
   description: string | null;
   mainImage: string;
@@ -90,9 +321,13 @@ export interface ProductUpdateRequest {
   category: string;
   shortDescription: string | null;
   dimensions: string | null;
+  measurements?: ProductMeasurements | null;
   featured: boolean;
-  onSale: boolean;
+  launchDate?: string | null;
+  sale?: ProductSale | null;
   available: boolean;
+  options?: ProductOption[];
+  variants?: ProductVariant[];
 }
 
 /**
@@ -100,10 +335,97 @@ export interface ProductUpdateRequest {
  * @description Filters for product listing
  */
 export interface ProductListFilters {
-  category?: string;
-  sort?: 'newest' | 'name-asc' | 'name-desc' | 'price-asc' | 'price-desc';
+  q?: string;
+  category?: string[];
+  sort?:
+    | 'relevance'
+    | 'newest'
+    | 'new-arrivals'
+    | 'name-asc'
+    | 'name-desc'
+    | 'price-asc'
+    | 'price-desc';
   page?: number;
   pageSize?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  includeOnRequest?: boolean;
+  maxWidth?: number;
+  maxDepth?: number;
+  maxHeight?: number;
   available?: boolean;
   featured?: boolean;
+  onSale?: boolean;
+  isNew?: boolean;
+}
+
+/**
+ * @interface ProductTrashItem
+ * @description A product in the trash. price is the regular price; purgeAt is when it
+ * will be permanently deleted.
+ */
+export interface ProductTrashItem {
+  id: number;
+  externalSku: string | null;
+  name: string;
+  mainImage: string;
+  price: number | null;
+  category: string;
+  categoryName: string;
+  deletedAt: string;
+  deletedBy: number | null;
+  deletedByName: string | null;
+  purgeAt: string;
+}
+
+/**
+ * @interface ProductTrashResponse
+ * @description Products in the trash, most recently deleted first
+ */
+export interface ProductTrashResponse {
+  items: ProductTrashItem[];
+  retentionDays: number;
+}
+
+/**
+ * @interface ProductExport
+ * @description A catalog export ready to be sent: write streams the file to the output
+ * and ends it
+ */
+export interface ProductExport {
+  format: ProductExportFormat;
+  contentType: string;
+  filename: string;
+  total: number;
+  write: (output: Writable) => Promise<void>;
+}
+
+/**
+ * @interface ProductImageRendition
+ * @description A stored WebP rendition of an uploaded image
+ */
+export interface ProductImageRendition {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * @type ProductImageVariants
+ * @description The stored renditions of an uploaded image, by variant name
+ */
+export type ProductImageVariants = Partial<Record<ProductImageVariant, ProductImageRendition>>;
+
+/**
+ * @interface ProductImageUpload
+ * @description An uploaded product image. url (the large rendition) goes in mainImage or
+ * images; the renditions share its directory, named after the variant.
+ */
+export interface ProductImageUpload {
+  id: string;
+  url: string;
+  /** Size of the uploaded original */
+  width: number;
+  height: number;
+  variants: Record<ProductImageVariant, ProductImageRendition>;
 }
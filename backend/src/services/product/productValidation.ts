@@ -7,55 +7,283 @@
  */
 
 import { z } from 'zod';
-import { PRODUCT_LIMITS, PRODUCT_CATEGORIES } from '@/constants';
+import { CATEGORY_LIMITS, PRODUCT_LIMITS, PRODUCT_VARIANT_LIMITS } from '@/constants';
+import { normalizeText } from '@/utils';
 
 /**
- * Schema for create request validation
+ * Schema for product category validation (a category slug; existence is checked by the service)
  */
-export const createSchema = z.object({
-  name: z.string().min(1).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
-  description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
-  mainImage: z.string().url(),
-  images: z.array(z.string().url()).optional().default([]),
+export const categorySchema = z.string().trim().min(1).max(CATEGORY_LIMITS.SLUG_MAX_LENGTH);
+
+/**
+ * Splits comma-separated query values into an array (repeated params already arrive as arrays)
+ */
+function splitQueryList(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+  return value;
+}
+
+/**
+ * Schema for boolean query flags ("true" | "false")
+ */
+const queryBooleanSchema = z
+  .string()
+  .transform((val) => val === 'true')
+  .optional();
+
+/**
+ * Schema for one measurement in centimetres
+ */
+const centimetresSchema = z.number().positive().max(PRODUCT_LIMITS.MEASUREMENT_MAX_CM);
+
+/**
+ * Schema for structured measurements (width/depth/height in cm, weight in kg)
+ */
+const measurementsSchema = z
+  .object({
+    width: centimetresSchema,
+    depth: centimetresSchema,
+    height: centimetresSchema,
+    weight: z
+      .number()
+      .positive()
+      .max(PRODUCT_LIMITS.WEIGHT_MAX_KG)
+      .nullable()
+      .optional()
+      .default(null),
+  })
+  .nullable();
+
+/**
+ * Schema for a sale: a percentage discount with an optional time window
+ */
+const saleSchema = z
+  .object({
+    discountPercent: z
+      .number()
+      .min(PRODUCT_LIMITS.SALE_DISCOUNT_MIN_PERCENT)
+      .max(PRODUCT_LIMITS.SALE_DISCOUNT_MAX_PERCENT),
+    startsAt: z.string().datetime({ offset: true }).nullable().optional().default(null),
+    endsAt: z.string().datetime({ offset: true }).nullable().optional().default(null),
+  })
+  .refine(
+    (sale) =>
+      sale.startsAt === null ||
+      sale.endsAt === null ||
+      new Date(sale.startsAt) < new Date(sale.endsAt),
+    { message: 'endsAt must be after startsAt', path: ['endsAt'] }
+  )
+  .nullable();
+
+/**
+ * Schema for the launch date that starts the "Novo" window
+ */
+const launchDateSchema = z.string().datetime({ offset: true }).nullable();
+
+/**
+ * Schema for "fits my space" query limits in centimetres
+ */
+const queryCentimetresSchema = z.coerce.number().positive().max(PRODUCT_LIMITS.MEASUREMENT_MAX_CM);
+
+/**
+ * Schema for a product option (e.g. { name: 'Cor', values: ['Cinza', 'Azul'] })
+ */
+const optionSchema = z.object({
+  name: z.string().trim().min(1).max(PRODUCT_VARIANT_LIMITS.OPTION_NAME_MAX_LENGTH),
+  values: z
+    .array(z.string().trim().min(1).max(PRODUCT_VARIANT_LIMITS.OPTION_VALUE_MAX_LENGTH))
+    .min(1)
+    .max(PRODUCT_VARIANT_LIMITS.MAX_OPTION_VALUES),
+});
+
+/**
+ * Schema for a SKU (variant SKUs and the supplier's external SKU)
+ */
+const skuSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(PRODUCT_VARIANT_LIMITS.SKU_MAX_LENGTH)
+  .regex(PRODUCT_VARIANT_LIMITS.SKU_PATTERN, {
+    message: 'SKU may only contain letters, digits, ".", "_" and "-"',
+  });
+
+/**
+ * Schema for a product variant
+ */
+const variantSchema = z.object({
+  sku: skuSchema,
+  options: z.record(z.string().trim()),
   price: z.number().positive().nullable(),
-  category: z.enum([
-    PRODUCT_CATEGORIES.LIVING_ROOM,
-    PRODUCT_CATEGORIES.BEDROOM,
-    PRODUCT_CATEGORIES.KITCHEN,
-    PRODUCT_CATEGORIES.OFFICE,
-    PRODUCT_CATEGORIES.BATHROOM,
-    PRODUCT_CATEGORIES.OUTDOOR,
-  ]),
-  shortDescription: z.string().max(PRODUCT_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH).nullable(),
-  dimensions: z.string().max(PRODUCT_LIMITS.DIMENSIONS_MAX_LENGTH).nullable(),
-  featured: z.boolean().optional().default(false),
-  onSale: z.boolean().optional().default(false),
+  images: z.array(z.string().url()).optional().default([]),
   available: z.boolean().optional().default(true),
 });
 
+const optionsSchema = z.array(optionSchema).max(PRODUCT_VARIANT_LIMITS.MAX_OPTIONS);
+const variantsSchema = z.array(variantSchema).max(PRODUCT_VARIANT_LIMITS.MAX_VARIANTS);
+
+/**
+ * Cross-field checks for options and variants: option names and values are unique,
+ * every variant picks exactly one listed value per option, and SKUs and value
+ * combinations are not repeated.
+ */
+function refineVariants(
+  data: {
+    options?: z.infer<typeof optionsSchema>;
+    variants?: z.infer<typeof variantsSchema>;
+  },
+  ctx: z.RefinementCtx
+): void {
+  const options = data.options ?? [];
+  const variants = data.variants ?? [];
+
+  if (options.length > 0 && variants.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Products with options need at least one variant',
+      path: ['variants'],
+    });
+  }
+  if (variants.length > 0 && options.length === 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'Variants require at least one option',
+      path: ['options'],
+    });
+    return;
+  }
+
+  const optionNames = new Set<string>();
+  options.forEach((option, index) => {
+    const key = normalizeText(option.name);
+    if (optionNames.has(key)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Option names must be unique',
+        path: ['options', index, 'name'],
+      });
+    }
+    optionNames.add(key);
+
+    const values = option.values.map(normalizeText);
+    if (new Set(values).size !== values.length) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Option values must be unique',
+        path: ['options', index, 'values'],
+      });
+    }
+  });
+
+  const skus = new Set<string>();
+  const combinations = new Set<string>();
+  variants.forEach((variant, index) => {
+    const sku = variant.sku.toLowerCase();
+    if (skus.has(sku)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'SKUs must be unique',
+        path: ['variants', index, 'sku'],
+      });
+    }
+    skus.add(sku);
+
+    const unknown = Object.keys(variant.options).filter(
+      (name) => !options.some((option) => option.name === name)
+    );
+    if (unknown.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Unknown options: ${unknown.join(', ')}`,
+        path: ['variants', index, 'options'],
+      });
+    }
+
+    options.forEach((option) => {
+      const value = variant.options[option.name];
+      if (value === undefined || !option.values.includes(value)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Value must be one of: ${option.values.join(', ')}`,
+          path: ['variants', index, 'options', option.name],
+        });
+      }
+    });
+
+    const combination = options.map((option) => variant.options[option.name]).join('\u0000');
+    if (combinations.has(combination)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Another variant already has these option values',
+        path: ['variants', index, 'options'],
+      });
+    }
+    combinations.add(combination);
+  });
+}
+
+/**
+ * Schema for create request validation
+ */
+export const createSchema = z
+  .object({
+    externalSku: skuSchema.nullable().optional().default(null),
+    name: z.string().min(1).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
+    description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
+    mainImage: z.string().url(),
+    images: z.array(z.string().url()).optional().default([]),
+    price: z.number().positive().nullable(),
+    category: categorySchema,
+    shortDescription: z.string().max(PRODUCT_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH).nullable(),
+    dimensions: z.string().max(PRODUCT_LIMITS.DIMENSIONS_MAX_LENGTH).nullable(),
+    measurements: measurementsSchema.optional().default(null),
+    featured: z.boolean().optional().default(false),
+    launchDate: launchDateSchema.optional().default(null),
+    sale: saleSchema.optional().default(null),
+    available: z.boolean().optional().default(true),
+    options: optionsSchema.optional().default([]),
+    variants: variantsSchema.optional().default([]),
+  })
+  .superRefine(refineVariants);
+
 /**
  * Schema for update request validation
  */
-export const updateSchema = z.object({
-  name: z.string().min(1).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
-  description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
-  mainImage: z.string().url(),
-  images: z.array(z.string().url()).optional().default([]),
-  price: z.number().positive().nullable(),
-  category: z.enum([
-    PRODUCT_CATEGORIES.LIVING_ROOM,
-    PRODUCT_CATEGORIES.BEDROOM,
-    PRODUCT_CATEGORIES.KITCHEN,
-    PRODUCT_CATEGORIES.OFFICE,
-    PRODUCT_CATEGORIES.BATHROOM,
-    PRODUCT_CATEGORIES.OUTDOOR,
-  ]),
-  shortDescription: z.string().max(PRODUCT_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH).nullable(),
-  dimensions: z.string().max(PRODUCT_LIMITS.DIMENSIONS_MAX_LENGTH).nullable(),
-  featured: z.boolean(),
-  onSale: z.boolean(),
-  available: z.boolean(),
-});
+export const updateSchema = z
+  .object({
+    // Omit to keep the current external SKU
+    externalSku: skuSchema.nullable().optional(),
+    name: z.string().min(1).max(PRODUCT_LIMITS.NAME_MAX_LENGTH),
+    description: z.string().max(PRODUCT_LIMITS.DESCRIPTION_MAX_LENGTH).nullable(),
+    mainImage: z.string().url(),
+    // Omit to keep the current gallery
+    images: z.array(z.string().url()).optional(),
+    price: z.number().positive().nullable(),
+    category: categorySchema,
+    shortDescription: z.string().max(PRODUCT_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH).nullable(),
+    dimensions: z.string().max(PRODUCT_LIMITS.DIMENSIONS_MAX_LENGTH).nullable(),
+    // Omit to keep the current measurements
+    measurements: measurementsSchema.optional(),
+    featured: z.boolean(),
+    // Omit to keep the current launch date
+    launchDate: launchDateSchema.optional(),
+    // Omit to keep the current sale
+    sale: saleSchema.optional(),
+    available: z.boolean(),
+    // Omit both to keep the current options and variants
+    options: optionsSchema.optional(),
+    variants: variantsSchema.optional(),
+  })
+  .refine((data) => (data.options === undefined) === (data.variants === undefined), {
+    message: 'options and variants must be sent together',
+    path: ['variants'],
+  })
+  .superRefine(refineVariants);
 
 /**
  * Schema for ID parameter validation
@@ -65,37 +293,92 @@ export const paramsSchema = z.object({
 });
 
 /**
- * Schema for list query parameters validation
+ * Search, filter and sort query parameters shared by listing and export
  */
-export const listQuerySchema = z.object({
-  category: z
+const listFiltersSchema = z.object({
+  q: z.string().trim().max(PRODUCT_LIMITS.SEARCH_QUERY_MAX_LENGTH).optional(),
+  category: z.preprocess(splitQueryList, z.array(categorySchema).min(1)).optional(),
+  sort: z
     .enum([
-      PRODUCT_CATEGORIES.LIVING_ROOM,
-      PRODUCT_CATEGORIES.BEDROOM,
-      PRODUCT_CATEGORIES.KITCHEN,
-      PRODUCT_CATEGORIES.OFFICE,
-      PRODUCT_CATEGORIES.BATHROOM,
-      PRODUCT_CATEGORIES.OUTDOOR,
+      'relevance',
+      'newest',
+      'new-arrivals',
+      'name-asc',
+      'name-desc',
+      'price-asc',
+      'price-desc',
     ])
     .optional(),
-  sort: z.enum(['newest', 'name-asc', 'name-desc', 'price-asc', 'price-desc']).optional(),
-  page: z.coerce.number().int().positive().optional().default(1),
-  pageSize: z.coerce
-    .number()
-    .int()
-    .refine((val) => [12, 24, 36, 48].includes(val), {
-      message: 'Page size must be 12, 24, 36, or 48',
-    })
-    .optional()
-    .default(12),
-  available: z
-    .string()
-    .transform((val) => val === 'true')
-    .optional(),
-  featured: z
-    .string()
-    .transform((val) => val === 'true')
-    .optional(),
+  minPrice: z.coerce.number().nonnegative().optional(),
+  maxPrice: z.coerce.number().nonnegative().optional(),
+  includeOnRequest: queryBooleanSchema,
+  maxWidth: queryCentimetresSchema.optional(),
+  maxDepth: queryCentimetresSchema.optional(),
+  maxHeight: queryCentimetresSchema.optional(),
+  available: queryBooleanSchema,
+  featured: queryBooleanSchema,
+  onSale: queryBooleanSchema,
+  isNew: queryBooleanSchema,
+});
+
+/**
+ * Rejects a price range whose minimum is above its maximum
+ */
+function refinePriceRange(
+  query: { minPrice?: number; maxPrice?: number },
+  ctx: z.RefinementCtx
+): void {
+  if (
+    query.minPrice !== undefined &&
+    query.maxPrice !== undefined &&
+    query.minPrice > query.maxPrice
+  ) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: 'minPrice must be less than or equal to maxPrice',
+      path: ['maxPrice'],
+    });
+  }
+}
+
+/**
+ * Schema for list query parameters validation
+ */
+export const listQuerySchema = listFiltersSchema
+  .extend({
+    page: z.coerce.number().int().positive().optional().default(1),
+    pageSize: z.coerce
+      .number()
+      .int()
+      .refine((val) => [12, 24, 36, 48].includes(val), {
+        message: 'Page size must be 12, 24, 36, or 48',
+      })
+      .optional()
+      .default(12),
+  })
+  .superRefine(refinePriceRange);
+
+/**
+ * Schema for export query parameters validation: the list filters, without pagination
+ */
+export const exportQuerySchema = listFiltersSchema
+  .extend({
+    format: z.enum(['csv', 'xlsx', 'json']).optional().default('csv'),
+  })
+  .superRefine(refinePriceRange);
+
+/**
+ * Schema for price history query parameters validation
+ */
+export const priceHistoryQuerySchema = z.object({
+  sku: z.string().trim().min(1).max(PRODUCT_VARIANT_LIMITS.SKU_MAX_LENGTH).optional(),
+});
+
+/**
+ * Schema for import query parameters validation
+ */
+export const importQuerySchema = z.object({
+  dryRun: queryBooleanSchema,
 });
 
 /**
@@ -104,4 +387,8 @@ export const listQuerySchema = z.object({
 export type CreateInput = z.infer<typeof createSchema>;
 export type UpdateInput = z.infer<typeof updateSchema>;
 export type ParamsInput = z.infer<typeof paramsSchema>;
+export type ListFiltersInput = z.infer<typeof listFiltersSchema>;
 export type ListQueryInput = z.infer<typeof listQuerySchema>;
+export type ExportQueryInput = z.infer<typeof exportQuerySchema>;
+export type PriceHistoryQueryInput = z.infer<typeof priceHistoryQuerySchema>;
+export type ImportQueryInput = z.infer<typeof importQuerySchema>;
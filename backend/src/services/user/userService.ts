@@ -0,0 +1,162 @@
+/**
+ * @summary
+ * Business logic for User entity.
+ * Handles account management and password hashing using the configured user store.
+ *
+ * @module services/user/userService
+ */
+
+import bcrypt from 'bcryptjs';
+import { config } from '@/config';
+import { USER_ROLES } from '@/constants';
+import { refreshTokenStore, userStore, UserRecord } from '@/instances';
+import { ServiceError } from '@/utils';
+import { UserEntity } from './userTypes';
+import { createSchema, paramsSchema } from './userValidation';
+
+/**
+ * Strips the password hash from a stored user
+ */
+function toUserEntity(record: UserRecord): UserEntity {
+  const { passwordHash, ...user } = record;
+  return user;
+}
+
+/**
+ * @summary
+ * Hashes a plain-text password with the configured bcrypt cost.
+ *
+ * @function userHashPassword
+ * @module services/user
+ *
+ * @param {string} password - Plain-text password
+ * @returns {Promise<string>} bcrypt hash
+ */
+export async function userHashPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, config.security.bcryptRounds);
+}
+
+/**
+ * @summary
+ * Lists all user accounts.
+ *
+ * @function userList
+ * @module services/user
+ *
+ * @returns {Promise<UserEntity[]>} Users ordered by id
+ */
+export async function userList(): Promise<UserEntity[]> {
+  return userStore
+    .getAll()
+    .sort((a, b) => a.id - b.id)
+    .map(toUserEntity);
+}
+
+/**
+ * @summary
+ * Creates a new user account.
+ *
+ * @function userCreate
+ * @module services/user
+ *
+ * @param {unknown} body - Raw request body to validate against createSchema
+ * @returns {Promise<UserEntity>} The newly created user
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When body fails schema validation
+ * @throws {ServiceError} CONFLICT (409) - When the email is already registered
+ *
+ * @example
+ * const user = await userCreate({ name: 'Ana', email: 'ana@example.com', password: 's3cret-pass', role: 'editor' });
+ */
+export async function userCreate(body: unknown): Promise<UserEntity> {
+  const validation = createSchema.safeParse(body);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Validation failed', 400, validation.error.errors);
+  }
+
+  const params = validation.data;
+
+  if (userStore.getByEmail(params.email)) {
+    throw new ServiceError('CONFLICT', 'Email already registered', 409);
+  }
+
+  const now = new Date().toISOString();
+  const record = userStore.add({
+    id: userStore.getNextId(),
+    name: params.name,
+    email: params.email,
+    passwordHash: await userHashPassword(params.password),
+    role: params.role,
+    dateCreated: now,
+    dateModified: now,
+  });
+
+  return toUserEntity(record);
+}
+
+/**
+ * @summary
+ * Deletes a user account and revokes its refresh tokens.
+ *
+ * @function userDelete
+ * @module services/user
+ *
+ * @param {unknown} params - Raw request params containing the ID to validate
+ * @param {number} currentUserId - ID of the user performing the deletion
+ * @returns {Promise<{ message: string }>} Success confirmation
+ *
+ * @throws {ServiceError} VALIDATION_ERROR (400) - When ID parameter is invalid
+ * @throws {ServiceError} FORBIDDEN (403) - When deleting your own account
+ * @throws {ServiceError} NOT_FOUND (404) - When user with given ID does not exist
+ */
+export async function userDelete(
+  params: unknown,
+  currentUserId: number
+): Promise<{ message: string }> {
+  const validation = paramsSchema.safeParse(params);
+
+  if (!validation.success) {
+    throw new ServiceError('VALIDATION_ERROR', 'Invalid ID', 400, validation.error.errors);
+  }
+
+  const { id } = validation.data;
+
+  /**
+   * @rule {BR-033} Admins cannot remove themselves, so at least one admin remains
+   */
+  if (id === currentUserId) {
+    throw new ServiceError('FORBIDDEN', 'You cannot delete your own account', 403);
+  }
+
+  if (!userStore.delete(id)) {
+    throw new ServiceError('NOT_FOUND', 'User not found', 404);
+  }
+
+  refreshTokenStore.deleteByUser(id);
+  return { message: 'User deleted successfully' };
+}
+
+/**
+ * @summary
+ * Creates the initial admin account from ADMIN_EMAIL/ADMIN_PASSWORD when no users exist.
+ *
+ * @function userEnsureAdmin
+ * @module services/user
+ *
+ * @returns {Promise<UserEntity | null>} The created admin, or null when nothing was created
+ */
+export async function userEnsureAdmin(): Promise<UserEntity | null> {
+  const { adminEmail, adminPassword } = config.auth;
+
+  if (userStore.count() > 0 || !adminEmail || !adminPassword) {
+    return null;
+  }
+
+  return userCreate({
+    name: 'Administrator',
+    email: adminEmail,
+    password: adminPassword,
+    role: USER_ROLES.ADMIN,
+  });
+}
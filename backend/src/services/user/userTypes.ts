@@ -0,0 +1,32 @@
+/**
+ * @summary
+ * Type definitions for User entity.
+ *
+ * @module services/user/userTypes
+ */
+
+import { UserRole } from '@/constants';
+
+/**
+ * @interface UserEntity
+ * @description Public representation of a user account (never includes the password hash)
+ */
+export interface UserEntity {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+  dateCreated: string;
+  dateModified: string;
+}
+
+/**
+ * @interface UserCreateRequest
+ * @description Request payload for creating a user account
+ */
+export interface UserCreateRequest {
+  name: string;
+  email: string;
+  password: string;
+  role?: UserRole;
+}
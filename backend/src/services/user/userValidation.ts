@@ -0,0 +1,48 @@
+/**
+ * @summary
+ * Validation schemas for User entity.
+ * Centralizes all Zod validation logic for the service.
+ *
+ * @module services/user/userValidation
+ */
+
+import { z } from 'zod';
+import { USER_DEFAULTS, USER_LIMITS, USER_ROLES } from '@/constants';
+
+/**
+ * Schema for user role validation
+ */
+export const roleSchema = z.enum([USER_ROLES.ADMIN, USER_ROLES.EDITOR, USER_ROLES.VIEWER]);
+
+/**
+ * Schema for email validation (stored lowercase)
+ */
+export const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email()
+  .max(USER_LIMITS.EMAIL_MAX_LENGTH);
+
+/**
+ * Schema for create request validation
+ */
+export const createSchema = z.object({
+  name: z.string().trim().min(1).max(USER_LIMITS.NAME_MAX_LENGTH),
+  email: emailSchema,
+  password: z.string().min(USER_LIMITS.PASSWORD_MIN_LENGTH).max(USER_LIMITS.PASSWORD_MAX_LENGTH),
+  role: roleSchema.optional().default(USER_DEFAULTS.ROLE),
+});
+
+/**
+ * Schema for ID parameter validation
+ */
+export const paramsSchema = z.object({
+  id: z.coerce.number().int().positive(),
+});
+
+/**
+ * Inferred types from schemas
+ */
+export type CreateInput = z.infer<typeof createSchema>;
+export type ParamsInput = z.infer<typeof paramsSchema>;
@@ -0,0 +1,113 @@
+/**
+ * @summary
+ * CSV (RFC 4180) utilities.
+ * Fields may be quoted with double quotes; quoted fields can contain the delimiter,
+ * line breaks and escaped quotes ("").
+ *
+ * @module utils/csv
+ */
+
+/**
+ * Delimiter of the header line: spreadsheets saved with a Brazilian locale use ";"
+ * because "," is the decimal separator
+ */
+function detectDelimiter(text: string): ',' | ';' {
+  let commas = 0;
+  let semicolons = 0;
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && char === ',') commas++;
+    else if (!quoted && char === ';') semicolons++;
+  }
+
+  return semicolons > commas ? ';' : ',';
+}
+
+/**
+ * @summary
+ * Parses CSV text into rows of fields.
+ *
+ * @function parseCsv
+ * @module utils/csv
+ *
+ * @param {string} text - CSV text (a leading byte order mark is ignored)
+ * @param {string} [delimiter] - Field delimiter; detected from the first line when omitted
+ * @returns {string[][]} Rows of fields; a blank line is a row with one empty field
+ *
+ * @example
+ * parseCsv('sku;nome\nSOFA-1;"Sofá ""Luna"""');
+ * // Returns: [['sku', 'nome'], ['SOFA-1', 'Sofá "Luna"']]
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+  const source = text.replace(/^\uFEFF/, '');
+  const separator = delimiter ?? detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+
+    if (quoted) {
+      if (char !== '"') field += char;
+      else if (source[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else quoted = false;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[index + 1] === '\n') index++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * @summary
+ * Formats one CSV line (with the trailing CRLF). Fields containing the delimiter, quotes
+ * or line breaks are quoted; null is an empty field.
+ *
+ * @function formatCsvRow
+ * @module utils/csv
+ *
+ * @param {(string | number | boolean | null)[]} values - Field values
+ * @param {string} [delimiter=','] - Field delimiter
+ * @returns {string} CSV line
+ *
+ * @example
+ * formatCsvRow(['SOFA-1', 'Sofá "Luna"', 2499.9, null]);
+ * // Returns: 'SOFA-1,"Sofá ""Luna""",2499.9,\r\n'
+ */
+export function formatCsvRow(
+  values: (string | number | boolean | null)[],
+  delimiter: string = ','
+): string {
+  const fields = values.map((value) => {
+    const field = value === null ? '' : String(value);
+    return field.includes(delimiter) || /["\r\n]/.test(field)
+      ? `"${field.replace(/"/g, '""')}"`
+      : field;
+  });
+  return `${fields.join(delimiter)}\r\n`;
+}
@@ -0,0 +1,111 @@
+/**
+ * @summary
+ * Entity tag and conditional request (RFC 9110) utilities.
+ * ETags identify a version of a resource; clients send them back in If-Match to make a
+ * change conditional on the version they saw, and in If-None-Match (with If-Modified-Since
+ * for Last-Modified) to revalidate a copy they already have.
+ *
+ * @module utils/etag
+ */
+
+import { createHash } from 'crypto';
+import { Response } from 'express';
+
+/**
+ * @interface CacheValidators
+ * @description Validators of a response, compared by Express (req.fresh) against the
+ * conditional headers of a GET
+ */
+export interface CacheValidators {
+  etag: string;
+  lastModified: Date;
+}
+
+/**
+ * @summary
+ * Formats a strong entity tag.
+ *
+ * @function formatEtag
+ * @module utils/etag
+ *
+ * @param {string | number} value - Version identifier
+ * @returns {string} Quoted entity tag
+ *
+ * @example
+ * formatEtag(3);
+ * // Returns: '"3"'
+ */
+export function formatEtag(value: string | number): string {
+  return `"${value}"`;
+}
+
+/**
+ * @summary
+ * Formats a strong entity tag identifying a response body: a hash of its JSON, so it
+ * changes whenever anything in the body does.
+ *
+ * @function contentEtag
+ * @module utils/etag
+ *
+ * @param {unknown} value - Response data
+ * @returns {string} Quoted entity tag
+ *
+ * @example
+ * contentEtag({ id: 1, name: 'Sofá' });
+ * // Returns: '"kM3f..."'
+ */
+export function contentEtag(value: unknown): string {
+  return formatEtag(createHash('sha1').update(JSON.stringify(value)).digest('base64url'));
+}
+
+/**
+ * @summary
+ * Checks an If-Match header against the current entity tag. The header may list several
+ * tags or be "*" (any current version); weak tags never match.
+ *
+ * @function matchesIfMatch
+ * @module utils/etag
+ *
+ * @param {string} header - If-Match header value
+ * @param {string} etag - Current entity tag (see formatEtag)
+ * @returns {boolean} Whether the precondition holds
+ *
+ * @example
+ * matchesIfMatch('"2", "3"', formatEtag(3));
+ * // Returns: true
+ */
+export function matchesIfMatch(header: string, etag: string): boolean {
+  const tags = header.split(',').map((tag) => tag.trim());
+  return tags.includes('*') || tags.includes(etag);
+}
+
+/**
+ * @summary
+ * Sets the validators of a GET response. Clients must revalidate before reusing the
+ * response (Cache-Control no-cache); check req.fresh afterwards to answer 304 Not Modified.
+ *
+ * @function setCacheValidators
+ * @module utils/etag
+ *
+ * @param {Response} res - Express response
+ * @param {CacheValidators} validators - Entity tag and last change of the response data
+ * @param {boolean} [isPrivate] - Keep shared caches from storing the response
+ *
+ * @example
+ * setCacheValidators(res, { etag, lastModified });
+ * if (req.fresh) {
+ *   res.status(304).end();
+ *   return;
+ * }
+ */
+export function setCacheValidators(
+  res: Response,
+  validators: CacheValidators,
+  isPrivate: boolean = false
+): void {
+  res.set({
+    ETag: validators.etag,
+    'Last-Modified': validators.lastModified.toUTCString(),
+    'Cache-Control': isPrivate ? 'private, no-cache' : 'no-cache',
+  });
+}
@@ -10,3 +10,7 @@ export * from './response';
 export * from './validation';
 export * from './serviceResult';
 export * from './serviceError';
+export * from './text';
+export * from './mergePatch';
+export * from './csv';
+export * from './etag';
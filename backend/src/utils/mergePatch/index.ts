@@ -0,0 +1,69 @@
+/**
+ * @summary
+ * JSON Merge Patch (RFC 7386) utilities.
+ * A patch lists only the members to change: objects merge recursively, `null`
+ * removes (clears) a member and any other value, arrays included, replaces it.
+ *
+ * @module utils/mergePatch
+ */
+
+/**
+ * @summary
+ * Checks whether a value is a plain JSON object (not null, not an array).
+ *
+ * @function isPlainObject
+ * @module utils/mergePatch
+ *
+ * @param {unknown} value - Value to check
+ * @returns {boolean} Whether the value is a plain object
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * @summary
+ * Applies a merge patch to a JSON document without mutating it.
+ *
+ * RFC 7386 removes `null` members (the default). Documents whose members are all
+ * required can keep them as `null` instead (`keepNulls`), so that validating the result
+ * clears nullable fields and rejects nulls for the others.
+ *
+ * @function applyMergePatch
+ * @module utils/mergePatch
+ *
+ * @param {unknown} target - Current document
+ * @param {unknown} patch - Merge patch
+ * @param {object} [options] - Options
+ * @param {boolean} [options.keepNulls=false] - Keep `null` members instead of removing them
+ * @returns {unknown} Patched document
+ *
+ * @example
+ * applyMergePatch({ a: 1, b: { c: 2, d: 3 } }, { b: { c: null }, e: [1] });
+ * // Returns: { a: 1, b: { d: 3 }, e: [1] }
+ *
+ * @example
+ * applyMergePatch({ a: 1, b: 'x' }, { b: null }, { keepNulls: true });
+ * // Returns: { a: 1, b: null }
+ */
+export function applyMergePatch(
+  target: unknown,
+  patch: unknown,
+  options: { keepNulls?: boolean } = {}
+): unknown {
+  if (!isPlainObject(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = isPlainObject(target) ? { ...target } : {};
+
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null && !options.keepNulls) {
+      delete result[key];
+    } else {
+      result[key] = value === null ? null : applyMergePatch(result[key], value, options);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,107 @@
+/**
+ * @summary
+ * Text normalization utilities.
+ * Provides accent- and case-insensitive comparison helpers for Portuguese content.
+ *
+ * @module utils/text
+ */
+
+/**
+ * @summary
+ * Normalizes text for comparison: removes diacritics and lowercases.
+ *
+ * @function normalizeText
+ * @module utils/text
+ *
+ * @param {string} value - Text to normalize
+ * @returns {string} Normalized text
+ *
+ * @example
+ * normalizeText('Escritório'); // 'escritorio'
+ */
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+}
+
+/**
+ * @interface NormalizedTextMap
+ * @description Normalized text plus the position of each normalized char in the original text
+ *
+ * @property {string} text - Normalized text
+ * @property {number[]} offsets - Original index for every normalized char (plus a trailing end index)
+ */
+export interface NormalizedTextMap {
+  text: string;
+  offsets: number[];
+}
+
+/**
+ * @summary
+ * Normalizes text keeping track of original positions, so matches found in the
+ * normalized text can be mapped back to the original string.
+ *
+ * @function normalizeTextWithOffsets
+ * @module utils/text
+ *
+ * @param {string} value - Text to normalize
+ * @returns {NormalizedTextMap} Normalized text with offsets
+ */
+export function normalizeTextWithOffsets(value: string): NormalizedTextMap {
+  let text = '';
+  const offsets: number[] = [];
+  let index = 0;
+
+  for (const char of value) {
+    const normalized = normalizeText(char);
+    for (let i = 0; i < normalized.length; i++) {
+      offsets.push(index);
+    }
+    text += normalized;
+    index += char.length;
+  }
+  offsets.push(index);
+
+  return { text, offsets };
+}
+
+/**
+ * @summary
+ * Splits free text into unique normalized terms.
+ *
+ * @function tokenize
+ * @module utils/text
+ *
+ * @param {string} value - Free text
+ * @returns {string[]} Unique normalized terms
+ *
+ * @example
+ * tokenize('Mesa  de Escritório'); // ['mesa', 'de', 'escritorio']
+ */
+export function tokenize(value: string): string[] {
+  const terms = normalizeText(value)
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0);
+  return Array.from(new Set(terms));
+}
+
+/**
+ * @summary
+ * Builds a URL-safe slug: accents removed, lowercase, words joined by hyphens.
+ *
+ * @function slugify
+ * @module utils/text
+ *
+ * @param {string} value - Text to convert
+ * @returns {string} Slug
+ *
+ * @example
+ * slugify('Área externa'); // 'area-externa'
+ */
+export function slugify(value: string): string {
+  return normalizeText(value)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
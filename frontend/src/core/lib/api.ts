@@ -13,16 +13,88 @@ export const apiConfig = {
 export const publicClient = axios.create({ baseURL: apiConfig.externalUrl });
 export const authenticatedClient = axios.create({ baseURL: apiConfig.internalUrl });
 
+/**
+ * Access and refresh tokens, kept in localStorage so sessions survive reloads
+ */
+export const authTokens = {
+  getAccessToken: () => localStorage.getItem('auth_token'),
+  getRefreshToken: () => localStorage.getItem('refresh_token'),
+  set: ({ accessToken, refreshToken }: { accessToken: string; refreshToken: string }) => {
+    localStorage.setItem('auth_token', accessToken);
+    localStorage.setItem('refresh_token', refreshToken);
+  },
+  clear: () => {
+    localStorage.removeItem('auth_token');
+    localStorage.removeItem('refresh_token');
+  },
+};
+
 authenticatedClient.interceptors.request.use((config) => {
-  const token = localStorage.getItem('auth_token');
+  const token = authTokens.getAccessToken();
   if (token) config.headers.Authorization = `Bearer ${token}`;
   return config;
 });
 
+// Shared by concurrent 401s so the single-use refresh token is only spent once
+let refreshRequest: Promise<string> | null = null;
+
+const refreshAccessToken = async (): Promise<string> => {
+  const refreshToken = authTokens.getRefreshToken();
+  if (!refreshToken) throw new Error('No refresh token');
+
+  const { data } = await publicClient.post('/auth/refresh', { refreshToken });
+  authTokens.set(data.data);
+  return data.data.accessToken;
+};
+
+const redirectToLogin = () => {
+  authTokens.clear();
+  const redirect = `${window.location.pathname}${window.location.search}`;
+  window.location.href = `/login?redirect=${encodeURIComponent(redirect)}`;
+};
+
 authenticatedClient.interceptors.response.use(
   (res) => res,
-  (error) => {
-    if (error.response?.status === 401) window.location.href = '/login';
-    return Promise.reject(error);
+  async (error) => {
+    const request = error.config;
+    if (error.response?.status !== 401 || !request || request._retried) {
+      return Promise.reject(error);
+    }
+
+    try {
+      refreshRequest ??= refreshAccessToken().finally(() => {
+        refreshRequest = null;
+      });
+      const token = await refreshRequest;
+
+      request._retried = true;
+      request.headers.Authorization = `Bearer ${token}`;
+      return authenticatedClient(request);
+    } catch {
+      redirectToLogin();
+      return Promise.reject(error);
+    }
   },
 );
+
+/**
+ * Reads the backend error code (e.g. NOT_FOUND, VALIDATION_ERROR) from a failed request
+ */
+export const getApiErrorCode = (error: unknown): string | undefined =>
+  axios.isAxiosError(error) ? error.response?.data?.error?.code : undefined;
+
+/**
+ * Reads the backend error message from a failed request, falling back to the given text
+ */
+export const getApiErrorMessage = (error: unknown, fallback: string): string =>
+  (axios.isAxiosError(error) ? error.response?.data?.error?.message : undefined) ?? fallback;
+
+/**
+ * Reads the backend validation details (field paths and messages) from a failed request
+ */
+export const getApiErrorDetails = (
+  error: unknown,
+): { path?: (string | number)[]; message: string }[] => {
+  const details = axios.isAxiosError(error) ? error.response?.data?.error?.details : undefined;
+  return Array.isArray(details) ? details : [];
+};
@@ -0,0 +1,24 @@
+/**
+ * Audit domain module exports
+ * Central export point for the audit log of product changes
+ */
+
+// Components
+export * from './components';
+
+// Services
+export * from './services';
+
+// Hooks
+export * from './hooks';
+
+// Types
+export type {
+  AuditEntity,
+  AuditAction,
+  AuditFieldChange,
+  AuditEntry,
+  AuditFilters,
+  AuditPagination,
+  AuditListResponse,
+} from './types';
@@ -0,0 +1,96 @@
+/**
+ * Audit Log Table Component
+ * Recorded mutations with who made them and, for updates, each field before and after
+ */
+
+import { format } from 'date-fns';
+import { cn } from '@/core/lib/utils';
+import { Badge } from '@/core/components/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/core/components/table';
+import type { AuditEntry } from '../../types/models';
+import type { AuditLogTableProps } from './types';
+import { AUDIT_ACTION_LABELS, AUDIT_FIELD_LABELS } from './types';
+
+const formatDate = (date: string) => format(new Date(date), 'dd/MM/yyyy HH:mm');
+
+/**
+ * Short text for a stored value; lists and objects are summarized
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (Array.isArray(value)) return value.length === 0 ? '—' : `${value.length} itens`;
+  if (typeof value === 'object') return JSON.stringify(value);
+  const text = String(value);
+  return text.length > 60 ? `${text.slice(0, 60)}…` : text;
+}
+
+function AuditChanges({ entry }: { entry: AuditEntry }) {
+  // Creations and deletions list every field; only the count is useful there
+  if (entry.action !== 'update') {
+    return (
+      <span className="text-muted-foreground text-sm">
+        {entry.changes.length} {entry.changes.length === 1 ? 'campo' : 'campos'}
+      </span>
+    );
+  }
+
+  return (
+    <ul className="flex flex-col gap-1 text-sm">
+      {entry.changes.map((change) => (
+        <li key={change.field}>
+          <span className="font-medium">{AUDIT_FIELD_LABELS[change.field] ?? change.field}:</span>{' '}
+          <span className="text-muted-foreground line-through">{formatValue(change.before)}</span> →{' '}
+          <span>{formatValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function AuditLogTable({ entries, className }: AuditLogTableProps) {
+  return (
+    <Table className={cn(className)}>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-36">Data</TableHead>
+          <TableHead>Usuário</TableHead>
+          <TableHead>Registro</TableHead>
+          <TableHead>Ação</TableHead>
+          <TableHead>Alterações</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map((entry) => (
+          <TableRow key={entry.id}>
+            <TableCell className="tabular-nums">{formatDate(entry.dateCreated)}</TableCell>
+            <TableCell>
+              {entry.userName ?? (entry.userId === null ? 'Sistema' : 'Usuário removido')}
+            </TableCell>
+            <TableCell className="font-medium">
+              {entry.label}
+              <span className="text-muted-foreground block text-xs">#{entry.entityId}</span>
+            </TableCell>
+            <TableCell>
+              <Badge variant={entry.action === 'update' ? 'outline' : 'secondary'}>
+                {AUDIT_ACTION_LABELS[entry.action]}
+              </Badge>
+            </TableCell>
+            <TableCell className="whitespace-normal">
+              <AuditChanges entry={entry} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export { AuditLogTable };
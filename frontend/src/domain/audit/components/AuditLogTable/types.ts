@@ -0,0 +1,37 @@
+import type { AuditAction, AuditEntry } from '../../types/models';
+
+export interface AuditLogTableProps {
+  entries: AuditEntry[];
+  className?: string;
+}
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  create: 'Criado',
+  update: 'Alterado',
+  delete: 'Excluído',
+  restore: 'Restaurado',
+  purge: 'Apagado da lixeira',
+};
+
+/** Field names shown in place of the stored ones; others are shown as stored */
+export const AUDIT_FIELD_LABELS: Record<string, string> = {
+  externalSku: 'SKU',
+  name: 'Nome',
+  description: 'Descrição',
+  shortDescription: 'Resumo',
+  mainImage: 'Imagem principal',
+  images: 'Imagens',
+  price: 'Preço',
+  category: 'Categoria',
+  dimensions: 'Dimensões',
+  measurements: 'Medidas',
+  featured: 'Destaque',
+  launchDate: 'Lançamento',
+  sale: 'Promoção',
+  available: 'Disponível',
+  options: 'Opções',
+  variants: 'Variações',
+  stockQuantity: 'Estoque',
+  deletedAt: 'Excluído em',
+  deletedBy: 'Excluído por',
+};
@@ -0,0 +1,27 @@
+/**
+ * Audit log hook with React Query integration
+ * Keyed under ['products'] so product mutations refresh the activity
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { auditService } from '../../services/auditService';
+import type { UseAuditLogOptions } from './types';
+
+export const useAuditLog = (options: UseAuditLogOptions = {}) => {
+  const { filters = {}, page = 1, pageSize = 24, enabled = true } = options;
+
+  const query = useQuery({
+    queryKey: ['products', 'audit', { filters, page, pageSize }],
+    queryFn: () => auditService.list({ ...filters, page, pageSize }),
+    placeholderData: keepPreviousData, // Keep the table mounted while paging
+    enabled,
+  });
+
+  return {
+    entries: query.data?.items ?? [],
+    pagination: query.data?.pagination,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  };
+};
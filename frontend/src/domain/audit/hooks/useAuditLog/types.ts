@@ -0,0 +1,8 @@
+import type { AuditFilters } from '../../types/models';
+
+export interface UseAuditLogOptions {
+  filters?: AuditFilters;
+  page?: number;
+  pageSize?: number;
+  enabled?: boolean;
+}
@@ -0,0 +1,22 @@
+/**
+ * @service Audit Service
+ * @domain audit
+ * @type REST API Integration
+ *
+ * Reads the audit log of product (and init-example) mutations from the internal API
+ */
+
+import { authenticatedClient } from '@/core/lib/api';
+import type { AuditFilters, AuditListResponse } from '../types/models';
+
+export const auditService = {
+  /**
+   * Get a page of audit entries, newest first
+   */
+  async list(
+    params: AuditFilters & { page?: number; pageSize?: number }
+  ): Promise<AuditListResponse> {
+    const { data } = await authenticatedClient.get('/audit', { params });
+    return data.data;
+  },
+};
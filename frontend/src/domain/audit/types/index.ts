@@ -0,0 +1,9 @@
+export type {
+  AuditEntity,
+  AuditAction,
+  AuditFieldChange,
+  AuditEntry,
+  AuditFilters,
+  AuditPagination,
+  AuditListResponse,
+} from './models';
@@ -0,0 +1,53 @@
+/**
+ * Audit log models, mirroring the internal API
+ */
+
+export type AuditEntity = 'product' | 'init-example';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'restore' | 'purge';
+
+export interface AuditFieldChange {
+  field: string;
+  /** Values as stored; null when the field was absent */
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditEntry {
+  id: number;
+  entity: AuditEntity;
+  entityId: number;
+  /** Entity name when the entry was recorded */
+  label: string;
+  action: AuditAction;
+  changes: AuditFieldChange[];
+  /** Null for changes made by the system (e.g. the trash purge) */
+  userId: number | null;
+  userName: string | null;
+  dateCreated: string;
+}
+
+export interface AuditFilters {
+  entity?: AuditEntity;
+  entityId?: number;
+  action?: AuditAction;
+  userId?: number;
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface AuditPagination {
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrevious: boolean;
+}
+
+export interface AuditListResponse {
+  /** Newest first */
+  items: AuditEntry[];
+  pagination: AuditPagination;
+}
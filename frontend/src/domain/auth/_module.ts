@@ -0,0 +1,19 @@
+/**
+ * Auth domain module exports
+ * Central export point for all auth-related functionality
+ */
+
+// Components
+export * from './components';
+
+// Services
+export * from './services';
+
+// Hooks
+export * from './hooks';
+
+// Stores
+export * from './stores';
+
+// Types
+export type { UserRole, AuthUser, AuthSession, LoginCredentials } from './types';
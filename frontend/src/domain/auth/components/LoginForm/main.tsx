@@ -0,0 +1,97 @@
+/**
+ * Login Form Component
+ * Email and password sign-in
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { cn } from '@/core/lib/utils';
+import { getApiErrorCode, getApiErrorMessage } from '@/core/lib/api';
+import { Alert, AlertDescription } from '@/core/components/alert';
+import { Button } from '@/core/components/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { Input } from '@/core/components/input';
+import { useLogin } from '../../hooks/useLogin';
+import type { LoginFormProps } from './types';
+
+const loginSchema = z.object({
+  email: z.email('Informe um e-mail válido'),
+  password: z.string().min(1, 'Informe a senha'),
+});
+
+type LoginFormValues = z.infer<typeof loginSchema>;
+
+function LoginForm({ onSuccess, className }: LoginFormProps) {
+  const login = useLogin();
+  const form = useForm<LoginFormValues>({
+    resolver: zodResolver(loginSchema),
+    defaultValues: { email: '', password: '' },
+  });
+
+  const handleSubmit = (values: LoginFormValues) => {
+    login.mutate(values, { onSuccess });
+  };
+
+  const errorMessage =
+    getApiErrorCode(login.error) === 'INVALID_CREDENTIALS'
+      ? 'E-mail ou senha incorretos.'
+      : getApiErrorMessage(login.error, 'Não foi possível entrar. Tente novamente.');
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className={cn('flex flex-col gap-4', className)}
+        noValidate
+      >
+        {login.isError && (
+          <Alert variant="destructive">
+            <AlertDescription>{errorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>E-mail</FormLabel>
+              <FormControl>
+                <Input type="email" autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Senha</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="current-password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" disabled={login.isPending}>
+          {login.isPending ? 'Entrando...' : 'Entrar'}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+export { LoginForm };
@@ -0,0 +1,4 @@
+export interface LoginFormProps {
+  onSuccess: () => void;
+  className?: string;
+}
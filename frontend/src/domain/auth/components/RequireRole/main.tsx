@@ -0,0 +1,44 @@
+/**
+ * Require Role Component
+ * Sends anonymous visitors to the login page and blocks users without one of the roles
+ */
+
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldXIcon } from 'lucide-react';
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/core/components/empty';
+import { useAuth } from '../../hooks/useAuth';
+import type { RequireRoleProps } from './types';
+
+function RequireRole({ roles, children }: RequireRoleProps) {
+  const { isAuthenticated, hasRole } = useAuth();
+  const location = useLocation();
+
+  if (!isAuthenticated) {
+    const redirect = `${location.pathname}${location.search}`;
+    return <Navigate to={`/login?redirect=${encodeURIComponent(redirect)}`} replace />;
+  }
+
+  if (!hasRole(...roles)) {
+    return (
+      <Empty>
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <ShieldXIcon />
+          </EmptyMedia>
+          <EmptyTitle>Acesso negado</EmptyTitle>
+          <EmptyDescription>Sua conta não tem permissão para acessar esta página.</EmptyDescription>
+        </EmptyHeader>
+      </Empty>
+    );
+  }
+
+  return children;
+}
+
+export { RequireRole };
@@ -0,0 +1,7 @@
+import type { ReactNode } from 'react';
+import type { UserRole } from '../../types/models';
+
+export interface RequireRoleProps {
+  roles: UserRole[];
+  children: ReactNode;
+}
@@ -0,0 +1,73 @@
+/**
+ * User Menu Component
+ * Shows the logged-in user with links to the admin area and logout
+ */
+
+import { Link, useNavigate } from 'react-router-dom';
+import { LogOutIcon, UserIcon } from 'lucide-react';
+import { Button } from '@/core/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/core/components/dropdown-menu';
+import { useAuth } from '../../hooks/useAuth';
+import type { UserMenuProps } from './types';
+
+const ROLE_LABELS = {
+  admin: 'Administrador',
+  editor: 'Editor',
+  viewer: 'Leitor',
+} as const;
+
+function UserMenu({ className }: UserMenuProps) {
+  const { user, hasRole, logout } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) {
+    return (
+      <Button variant="ghost" size="sm" className={className} asChild>
+        <Link to="/login">Entrar</Link>
+      </Button>
+    );
+  }
+
+  const handleLogout = async () => {
+    await logout();
+    navigate('/');
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className={className}>
+          <UserIcon />
+          {user.name}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="flex flex-col">
+          <span>{user.email}</span>
+          <span className="text-muted-foreground text-xs font-normal">
+            {ROLE_LABELS[user.role]}
+          </span>
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {hasRole('admin', 'editor') && (
+          <DropdownMenuItem asChild>
+            <Link to="/admin/products">Gerenciar produtos</Link>
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onSelect={handleLogout}>
+          <LogOutIcon />
+          Sair
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export { UserMenu };
@@ -0,0 +1,3 @@
+export interface UserMenuProps {
+  className?: string;
+}
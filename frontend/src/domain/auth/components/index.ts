@@ -0,0 +1,3 @@
+export * from './LoginForm';
+export * from './RequireRole';
+export * from './UserMenu';
@@ -0,0 +1,2 @@
+export * from './useAuth';
+export * from './useLogin';
@@ -0,0 +1,34 @@
+/**
+ * Auth hook
+ * Current user, role checks and logout
+ */
+
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { authService } from '../../services/authService';
+import { useAuthStore } from '../../stores/authStore';
+import type { UserRole } from '../../types/models';
+
+export const useAuth = () => {
+  const { user, setUser } = useAuthStore();
+  const queryClient = useQueryClient();
+
+  const hasRole = useCallback(
+    (...roles: UserRole[]) => user !== null && roles.includes(user.role),
+    [user]
+  );
+
+  const logout = useCallback(async () => {
+    setUser(null);
+    queryClient.clear();
+    // The local session is gone even if revoking the token fails
+    await authService.logout().catch(() => undefined);
+  }, [setUser, queryClient]);
+
+  return {
+    user,
+    isAuthenticated: user !== null,
+    hasRole,
+    logout,
+  };
+};
@@ -0,0 +1,18 @@
+/**
+ * Login hook with React Query integration
+ * Stores the session user on success
+ */
+
+import { useMutation } from '@tanstack/react-query';
+import { authService } from '../../services/authService';
+import { useAuthStore } from '../../stores/authStore';
+import type { LoginCredentials } from '../../types/models';
+
+export const useLogin = () => {
+  const setUser = useAuthStore((state) => state.setUser);
+
+  return useMutation({
+    mutationFn: (credentials: LoginCredentials) => authService.login(credentials),
+    onSuccess: (session) => setUser(session.user),
+  });
+};
@@ -0,0 +1,38 @@
+/**
+ * @service Auth Service
+ * @domain auth
+ * @type REST API Integration
+ *
+ * Handles login, logout and the current user
+ */
+
+import { authenticatedClient, authTokens, publicClient } from '@/core/lib/api';
+import type { AuthSession, AuthUser, LoginCredentials } from '../types/models';
+
+export const authService = {
+  /**
+   * Log in and store the issued tokens
+   */
+  async login(credentials: LoginCredentials): Promise<AuthSession> {
+    const { data } = await publicClient.post('/auth/login', credentials);
+    authTokens.set(data.data);
+    return data.data;
+  },
+
+  /**
+   * Revoke the refresh token and forget the stored tokens
+   */
+  async logout(): Promise<void> {
+    const refreshToken = authTokens.getRefreshToken();
+    authTokens.clear();
+    if (refreshToken) await publicClient.post('/auth/logout', { refreshToken });
+  },
+
+  /**
+   * Get the user behind the current access token
+   */
+  async me(): Promise<AuthUser> {
+    const { data } = await authenticatedClient.get('/auth/me');
+    return data.data;
+  },
+};
@@ -0,0 +1,31 @@
+/**
+ * Auth store
+ * Keeps the logged-in user; tokens live in localStorage (see core/lib/api)
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { authTokens } from '@/core/lib/api';
+import type { AuthUser } from '../types/models';
+
+interface AuthStore {
+  user: AuthUser | null;
+  setUser: (user: AuthUser | null) => void;
+}
+
+export const useAuthStore = create<AuthStore>()(
+  persist(
+    (set) => ({
+      user: null,
+      setUser: (user) => set({ user }),
+    }),
+    {
+      name: 'auth-store',
+      // Tokens are cleared when a session expires, so drop the user with them
+      merge: (persisted, current) => ({
+        ...current,
+        user: authTokens.getRefreshToken() ? ((persisted as AuthStore)?.user ?? null) : null,
+      }),
+    }
+  )
+);
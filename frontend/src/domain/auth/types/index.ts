@@ -0,0 +1 @@
+export type { UserRole, AuthUser, AuthSession, LoginCredentials } from './models';
@@ -0,0 +1,26 @@
+/**
+ * Auth domain type definitions
+ * Represents user sessions and roles
+ */
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface AuthUser {
+  id: number;
+  name: string;
+  email: string;
+  role: UserRole;
+}
+
+export interface AuthSession {
+  user: AuthUser;
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+export interface LoginCredentials {
+  email: string;
+  password: string;
+}
@@ -0,0 +1,16 @@
+/**
+ * Category domain module exports
+ * Central export point for all category-related functionality
+ */
+
+// Services
+export * from './services';
+
+// Hooks
+export * from './hooks';
+
+// Utils
+export * from './utils';
+
+// Types
+export type { Category, CategoryOption } from './types';
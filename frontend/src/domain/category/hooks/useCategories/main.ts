@@ -0,0 +1,28 @@
+/**
+ * Category tree hook with React Query integration
+ * Exposes the tree plus a flattened option list for filters and forms
+ */
+
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { categoryService } from '../../services/categoryService';
+import { flattenCategories } from '../../utils/categoryTree';
+
+export const useCategories = () => {
+  const query = useQuery({
+    queryKey: ['categories'],
+    queryFn: () => categoryService.tree(),
+    staleTime: 1000 * 60 * 10, // 10 minutes
+  });
+
+  const categories = useMemo(() => query.data ?? [], [query.data]);
+  const options = useMemo(() => flattenCategories(categories), [categories]);
+
+  return {
+    categories,
+    options,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  };
+};
@@ -0,0 +1,20 @@
+/**
+ * @service Category Service
+ * @domain category
+ * @type REST API Integration
+ *
+ * Loads the category tree from the public catalog API
+ */
+
+import { publicClient } from '@/core/lib/api';
+import type { Category } from '../types/models';
+
+export const categoryService = {
+  /**
+   * Get the category tree, ordered for display
+   */
+  async tree(): Promise<Category[]> {
+    const { data } = await publicClient.get('/catalog/categories');
+    return data.data;
+  },
+};
@@ -0,0 +1 @@
+export type { Category, CategoryOption } from './models';
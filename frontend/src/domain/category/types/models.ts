@@ -0,0 +1,27 @@
+/**
+ * Category domain type definitions
+ * Categories form a tree; products reference them by slug
+ */
+
+export interface Category {
+  id: number;
+  slug: string;
+  name: string;
+  parentId: number | null;
+  order: number;
+  image: string | null;
+  /** Includes products of subcategories */
+  productCount: number;
+  children: Category[];
+}
+
+/**
+ * Flattened tree entry for selects and checkbox lists
+ */
+export interface CategoryOption {
+  value: string;
+  label: string;
+  /** Full path, e.g. "Sala de estar › Sofás" */
+  path: string;
+  depth: number;
+}
@@ -0,0 +1,26 @@
+/**
+ * Category tree helpers
+ */
+
+import type { Category, CategoryOption } from '../types/models';
+
+export const CATEGORY_PATH_SEPARATOR = ' › ';
+
+/**
+ * Flatten the tree depth-first, keeping parents before their children
+ */
+export function flattenCategories(
+  categories: Category[],
+  depth = 0,
+  parentPath = ''
+): CategoryOption[] {
+  return categories.flatMap((category) => {
+    const path = parentPath
+      ? `${parentPath}${CATEGORY_PATH_SEPARATOR}${category.name}`
+      : category.name;
+    return [
+      { value: category.slug, label: category.name, path, depth },
+      ...flattenCategories(category.children, depth + 1, path),
+    ];
+  });
+}
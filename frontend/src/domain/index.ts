@@ -1,2 +1,5 @@
 // Domain modules export
 export * as product from './product/_module';
+export * as auth from './auth/_module';
+export * as category from './category/_module';
+export * as audit from './audit/_module';
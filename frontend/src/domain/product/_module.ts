@@ -15,15 +15,39 @@ export * from './hooks';
 // Stores
 export * from './stores';
 
+// Utils
+export * from './utils';
+
 // Types (explicit exports with renames to avoid collisions)
 export type {
   Product,
+  ProductOption,
+  ProductVariant,
+  ProductMeasurements,
+  ProductSale,
+  ProductPriceChange,
+  ProductPriceHistory,
+  ProductImportRowError,
+  ProductImportRow,
+  ProductImportReport,
+  ProductTrashItem,
+  ProductTrash,
+  ProductImageRendition,
+  ProductImageVariants,
+  ProductImageUpload,
+  ProductInput,
   ProductListItem,
+  AdminProductListItem,
+  ProductSearchHighlight,
   ProductFilters as ProductFiltersType,
   ProductSort,
   PaginationParams,
   PaginationMeta,
+  ProductFacets,
+  ProductPriceBucket,
   ProductListResponse,
   ViewMode,
+  ProductExportFormat,
   CatalogState,
+  CatalogUrlState,
 } from './types';
@@ -3,30 +3,101 @@
  * Provides filtering options for the product catalog
  */
 
+import { useEffect, useState } from 'react';
 import { cn } from '@/core/lib/utils';
 import { Button } from '@/core/components/button';
 import { Checkbox } from '@/core/components/checkbox';
+import { Input } from '@/core/components/input';
 import { Label } from '@/core/components/label';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/core/components/select';
 import { Separator } from '@/core/components/separator';
+import { Slider } from '@/core/components/slider';
 import { XIcon } from 'lucide-react';
-import type { CatalogFiltersProps } from './types';
-import { CATEGORIES } from './types';
+import type { ProductFilters } from '../../types/models';
+import { formatPrice } from '../../utils';
+import type { CatalogFiltersProps, SizeFilterKey } from './types';
+import { FLAG_FILTERS, PRICE_RANGE, SIZE_FILTERS, SIZE_RANGE } from './types';
+
+const toSizeDraft = (filters: Pick<ProductFilters, SizeFilterKey>) =>
+  Object.fromEntries(
+    SIZE_FILTERS.map(({ key }) => [key, filters[key] !== undefined ? String(filters[key]) : ''])
+  ) as Record<SizeFilterKey, string>;
+
+/**
+ * Muted facet count shown next to a filter option
+ */
+function FacetCount({ count }: { count?: number }) {
+  if (count === undefined) return null;
+  return <span className="text-muted-foreground ml-auto text-xs tabular-nums">{count}</span>;
+}
 
 function CatalogFilters({
   filters,
+  facets,
+  categories,
   onFiltersChange,
   onClearFilters,
   className,
 }: CatalogFiltersProps) {
   const hasActiveFilters = Object.values(filters).some((value) => value !== undefined);
 
+  // Slider position while dragging; filters are only applied on commit
+  const [priceRange, setPriceRange] = useState<number[]>([
+    filters.minPrice ?? PRICE_RANGE.min,
+    filters.maxPrice ?? PRICE_RANGE.max,
+  ]);
+
+  useEffect(() => {
+    setPriceRange([filters.minPrice ?? PRICE_RANGE.min, filters.maxPrice ?? PRICE_RANGE.max]);
+  }, [filters.minPrice, filters.maxPrice]);
+
+  // Typed size limits; applied on blur or Enter so each keystroke doesn't refetch
+  const [sizeDraft, setSizeDraft] = useState(() => toSizeDraft(filters));
+
+  useEffect(() => {
+    setSizeDraft(
+      toSizeDraft({
+        maxWidth: filters.maxWidth,
+        maxDepth: filters.maxDepth,
+        maxHeight: filters.maxHeight,
+      })
+    );
+  }, [filters.maxWidth, filters.maxDepth, filters.maxHeight]);
+
+  const toggleCategory = (category: string, checked: boolean) => {
+    const current = filters.categories ?? [];
+    const categories = checked
+      ? [...current, category]
+      : current.filter((value) => value !== category);
+
+    onFiltersChange({
+      ...filters,
+      categories: categories.length > 0 ? categories : undefined,
+    });
+  };
+
+  const categoryCount = (slug: string) =>
+    facets?.categories.find((facet) => facet.value === slug)?.count;
+
+  const commitPriceRange = ([min, max]: number[]) => {
+    onFiltersChange({
+      ...filters,
+      minPrice: min > PRICE_RANGE.min ? min : undefined,
+      maxPrice: max < PRICE_RANGE.max ? max : undefined,
+    });
+  };
+
+  const commitSize = (key: SizeFilterKey) => {
+    const raw = sizeDraft[key].trim();
+    const value = raw === '' ? undefined : Number(raw);
+
+    if (value !== undefined && !(value >= SIZE_RANGE.min && value <= SIZE_RANGE.max)) {
+      // Out of range: restore the applied limit
+      setSizeDraft((draft) => ({ ...draft, [key]: toSizeDraft(filters)[key] }));
+      return;
+    }
+    if (value !== filters[key]) onFiltersChange({ ...filters, [key]: value });
+  };
+
   return (
     <div
       className={cn('flex flex-col gap-6 rounded-lg border p-6', className)}
@@ -51,68 +122,151 @@ function CatalogFilters({
       <Separator />
 
       {/* Category Filter */}
+      <fieldset className="flex flex-col gap-3">
+        <legend className="mb-3 text-sm font-medium">Categorias</legend>
+        {categories.map((category) => {
+          const id = `category-filter-${category.value}`;
+          return (
+            <div
+              key={category.value}
+              className="flex items-center gap-2"
+              style={{ paddingLeft: `${category.depth * 1.25}rem` }}
+            >
+              <Checkbox
+                id={id}
+                checked={filters.categories?.includes(category.value) ?? false}
+                onCheckedChange={(checked) => toggleCategory(category.value, checked === true)}
+                aria-label={category.path}
+              />
+              <Label htmlFor={id} className="cursor-pointer font-normal">
+                {category.label}
+              </Label>
+              <FacetCount count={categoryCount(category.value)} />
+            </div>
+          );
+        })}
+      </fieldset>
+
+      <Separator />
+
+      {/* Price Filter */}
       <div className="flex flex-col gap-3">
-        <Label htmlFor="category-filter">Categoria</Label>
-        <Select
-          value={filters.category ?? 'all'}
-          onValueChange={(value) =>
-            onFiltersChange({
-              ...filters,
-              category: value === 'all' ? undefined : value,
-            })
-          }
-        >
-          <SelectTrigger id="category-filter" aria-label="Selecionar categoria">
-            <SelectValue placeholder="Todas as categorias" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">Todas as categorias</SelectItem>
-            {CATEGORIES.map((category) => (
-              <SelectItem key={category} value={category}>
-                {category}
-              </SelectItem>
+        <Label id="price-filter-label">Preço</Label>
+        <Slider
+          min={PRICE_RANGE.min}
+          max={PRICE_RANGE.max}
+          step={PRICE_RANGE.step}
+          value={priceRange}
+          onValueChange={setPriceRange}
+          onValueCommit={commitPriceRange}
+          aria-labelledby="price-filter-label"
+        />
+        <div className="text-muted-foreground flex justify-between text-sm">
+          <span>{formatPrice(priceRange[0])}</span>
+          <span>
+            {formatPrice(priceRange[1])}
+            {priceRange[1] >= PRICE_RANGE.max && '+'}
+          </span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="on-request-filter"
+            checked={filters.includeOnRequest ?? true}
+            onCheckedChange={(checked) =>
+              onFiltersChange({
+                ...filters,
+                includeOnRequest: checked === true ? undefined : false,
+              })
+            }
+            aria-label="Incluir produtos com preço sob consulta"
+          />
+          <Label htmlFor="on-request-filter" className="cursor-pointer font-normal">
+            Incluir &quot;Sob consulta&quot;
+          </Label>
+          <FacetCount count={facets?.price.onRequest} />
+        </div>
+        {facets && (
+          <ul className="flex flex-col gap-1" aria-label="Faixas de preço">
+            {facets.price.buckets.map((bucket) => (
+              <li key={bucket.min}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full justify-start font-normal"
+                  disabled={bucket.count === 0}
+                  onClick={() => commitPriceRange([bucket.min, bucket.max ?? PRICE_RANGE.max])}
+                >
+                  {bucket.max === null
+                    ? `Acima de ${formatPrice(bucket.min)}`
+                    : `${formatPrice(bucket.min)} a ${formatPrice(bucket.max)}`}
+                  <FacetCount count={bucket.count} />
+                </Button>
+              </li>
             ))}
-          </SelectContent>
-        </Select>
+          </ul>
+        )}
       </div>
 
       <Separator />
 
-      {/* Availability Filter */}
-      <div className="flex items-center gap-2">
-        <Checkbox
-          id="available-filter"
-          checked={filters.available ?? false}
-          onCheckedChange={(checked) =>
-            onFiltersChange({
-              ...filters,
-              available: checked === true ? true : undefined,
-            })
-          }
-          aria-label="Filtrar apenas produtos disponíveis"
-        />
-        <Label htmlFor="available-filter" className="cursor-pointer">
-          Apenas disponíveis
-        </Label>
-      </div>
+      {/* Size Filter */}
+      <fieldset className="flex flex-col gap-3">
+        <legend className="mb-3 text-sm font-medium">Cabe no meu espaço</legend>
+        {SIZE_FILTERS.map((size) => {
+          const id = `${size.key}-filter`;
+          return (
+            <div key={size.key} className="flex items-center gap-2">
+              <Label htmlFor={id} className="flex-1 font-normal">
+                {size.label}
+              </Label>
+              <Input
+                id={id}
+                type="number"
+                inputMode="numeric"
+                min={SIZE_RANGE.min}
+                max={SIZE_RANGE.max}
+                placeholder="cm"
+                className="w-24"
+                value={sizeDraft[size.key]}
+                onChange={(event) =>
+                  setSizeDraft((draft) => ({ ...draft, [size.key]: event.target.value }))
+                }
+                onBlur={() => commitSize(size.key)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') commitSize(size.key);
+                }}
+                aria-label={size.ariaLabel}
+              />
+            </div>
+          );
+        })}
+      </fieldset>
 
-      {/* Featured Filter */}
-      <div className="flex items-center gap-2">
-        <Checkbox
-          id="featured-filter"
-          checked={filters.featured ?? false}
-          onCheckedChange={(checked) =>
-            onFiltersChange({
-              ...filters,
-              featured: checked === true ? true : undefined,
-            })
-          }
-          aria-label="Filtrar apenas produtos em destaque"
-        />
-        <Label htmlFor="featured-filter" className="cursor-pointer">
-          Apenas destaques
-        </Label>
-      </div>
+      <Separator />
+
+      {/* Flag Filters */}
+      {FLAG_FILTERS.map((flag) => {
+        const id = `${flag.key}-filter`;
+        return (
+          <div key={flag.key} className="flex items-center gap-2">
+            <Checkbox
+              id={id}
+              checked={filters[flag.key] ?? false}
+              onCheckedChange={(checked) =>
+                onFiltersChange({
+                  ...filters,
+                  [flag.key]: checked === true ? true : undefined,
+                })
+              }
+              aria-label={flag.ariaLabel}
+            />
+            <Label htmlFor={id} className="cursor-pointer">
+              {flag.label}
+            </Label>
+            <FacetCount count={facets?.[flag.key].true} />
+          </div>
+        );
+      })}
     </div>
   );
 }
@@ -1,17 +1,71 @@
-import type { ProductFilters } from '../../types/models';
+import type { CategoryOption } from '@/domain/category/_module';
+import type { ProductFacets, ProductFilters } from '../../types/models';
 
 export interface CatalogFiltersProps {
   filters: ProductFilters;
+  facets?: ProductFacets;
+  /** Flattened category tree, parents before children */
+  categories: CategoryOption[];
   onFiltersChange: (filters: ProductFilters) => void;
   onClearFilters: () => void;
   className?: string;
 }
 
-export const CATEGORIES = [
-  'Sala de estar',
-  'Quarto',
-  'Cozinha',
-  'Escritório',
-  'Banheiro',
-  'Área externa',
-] as const;
+export const PRICE_RANGE = {
+  min: 0,
+  max: 10000,
+  step: 100,
+} as const;
+
+export type FlagFilterKey = 'available' | 'featured' | 'onSale' | 'isNew';
+
+export const FLAG_FILTERS: readonly { key: FlagFilterKey; label: string; ariaLabel: string }[] = [
+  {
+    key: 'available',
+    label: 'Apenas disponíveis',
+    ariaLabel: 'Filtrar apenas produtos disponíveis',
+  },
+  {
+    key: 'featured',
+    label: 'Apenas destaques',
+    ariaLabel: 'Filtrar apenas produtos em destaque',
+  },
+  {
+    key: 'onSale',
+    label: 'Em promoção',
+    ariaLabel: 'Filtrar apenas produtos em promoção',
+  },
+  {
+    key: 'isNew',
+    label: 'Novidades',
+    ariaLabel: 'Filtrar apenas produtos novos',
+  },
+];
+
+export type SizeFilterKey = 'maxWidth' | 'maxDepth' | 'maxHeight';
+
+/**
+ * "Fits my space" inputs: products larger than any filled limit are hidden
+ */
+export const SIZE_FILTERS: readonly { key: SizeFilterKey; label: string; ariaLabel: string }[] = [
+  {
+    key: 'maxWidth',
+    label: 'Largura máx.',
+    ariaLabel: 'Largura máxima em centímetros',
+  },
+  {
+    key: 'maxDepth',
+    label: 'Profundidade máx.',
+    ariaLabel: 'Profundidade máxima em centímetros',
+  },
+  {
+    key: 'maxHeight',
+    label: 'Altura máx.',
+    ariaLabel: 'Altura máxima em centímetros',
+  },
+];
+
+export const SIZE_RANGE = {
+  min: 1,
+  max: 1000,
+} as const;
@@ -21,7 +21,7 @@ import {
   SelectValue,
 } from '@/core/components/select';
 import type { CatalogPaginationProps } from './types';
-import { PAGE_SIZE_OPTIONS } from './types';
+import { PAGE_SIZE_OPTIONS } from '../../utils/catalogSearchParams';
 
 function CatalogPagination({
   pagination,
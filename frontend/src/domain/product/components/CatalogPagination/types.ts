@@ -6,5 +6,3 @@ export interface CatalogPaginationProps {
   onPageSizeChange: (pageSize: number) => void;
   className?: string;
 }
-
-export const PAGE_SIZE_OPTIONS = [12, 24, 36, 48] as const;
@@ -0,0 +1,65 @@
+/**
+ * Catalog Search Component
+ * Debounced full-text search input for the product catalog
+ */
+
+import { useEffect, useState } from 'react';
+import { SearchIcon, XIcon } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import {
+  InputGroup,
+  InputGroupAddon,
+  InputGroupButton,
+  InputGroupInput,
+} from '@/core/components/input-group';
+import type { CatalogSearchProps } from './types';
+import { SEARCH_DEBOUNCE_MS } from './types';
+
+function CatalogSearch({ value, onSearchChange, className }: CatalogSearchProps) {
+  const [search, setSearch] = useState(value ?? '');
+
+  // Keep input in sync when the query is cleared or changed elsewhere
+  useEffect(() => {
+    setSearch(value ?? '');
+  }, [value]);
+
+  // Only notify after the user stops typing
+  useEffect(() => {
+    const next = search.trim() || undefined;
+    if (next === value) return;
+
+    const timeout = setTimeout(() => onSearchChange(next), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [search, value, onSearchChange]);
+
+  return (
+    <InputGroup className={cn('w-full sm:max-w-sm', className)} role="search">
+      <InputGroupAddon>
+        <SearchIcon />
+      </InputGroupAddon>
+      <InputGroupInput
+        type="search"
+        value={search}
+        onChange={(event) => setSearch(event.target.value)}
+        placeholder="Buscar produtos..."
+        aria-label="Buscar produtos"
+      />
+      {search && (
+        <InputGroupAddon align="inline-end">
+          <InputGroupButton
+            size="icon-xs"
+            onClick={() => {
+              setSearch('');
+              onSearchChange(undefined);
+            }}
+            aria-label="Limpar busca"
+          >
+            <XIcon />
+          </InputGroupButton>
+        </InputGroupAddon>
+      )}
+    </InputGroup>
+  );
+}
+
+export { CatalogSearch };
@@ -0,0 +1,7 @@
+export interface CatalogSearchProps {
+  value?: string;
+  onSearchChange: (q: string | undefined) => void;
+  className?: string;
+}
+
+export const SEARCH_DEBOUNCE_MS = 300;
@@ -15,7 +15,10 @@ import {
 import type { CatalogSortProps } from './types';
 import { SORT_OPTIONS } from './types';
 
-function CatalogSort({ sort, onSortChange, className }: CatalogSortProps) {
+function CatalogSort({ sort, onSortChange, searching = false, className }: CatalogSortProps) {
+  // Relevance ordering only applies while a search query is active
+  const options = SORT_OPTIONS.filter((option) => searching || option.value !== 'relevance');
+
   return (
     <div
       className={cn('flex items-center gap-3', className)}
@@ -33,7 +36,7 @@ function CatalogSort({ sort, onSortChange, className }: CatalogSortProps) {
           <SelectValue />
         </SelectTrigger>
         <SelectContent>
-          {SORT_OPTIONS.map((option) => (
+          {options.map((option) => (
             <SelectItem key={option.value} value={option.value}>
               {option.label}
             </SelectItem>
@@ -1,11 +1,16 @@
+import type { ProductSort } from '../../types/models';
+
 export interface CatalogSortProps {
-  sort: 'newest' | 'name-asc' | 'name-desc' | 'price-asc' | 'price-desc';
+  sort: NonNullable<ProductSort['sort']>;
   onSortChange: (sort: CatalogSortProps['sort']) => void;
+  searching?: boolean;
   className?: string;
 }
 
 export const SORT_OPTIONS = [
+  { value: 'relevance', label: 'Relevância' },
   { value: 'newest', label: 'Mais recentes' },
+  { value: 'new-arrivals', label: 'Lançamentos' },
   { value: 'name-asc', label: 'Nome (A-Z)' },
   { value: 'name-desc', label: 'Nome (Z-A)' },
   { value: 'price-asc', label: 'Preço (menor-maior)' },
@@ -0,0 +1,74 @@
+/**
+ * Delete Product Dialog Component
+ * Confirms and moves a product to the trash
+ */
+
+import type { MouseEvent } from 'react';
+import { toast } from 'sonner';
+import { getApiErrorCode, getApiErrorMessage } from '@/core/lib/api';
+import { buttonVariants } from '@/core/components/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { useDeleteProduct } from '../../hooks/useProductMutations';
+import type { DeleteProductDialogProps } from './types';
+
+function DeleteProductDialog({ product, onOpenChange, onDeleted }: DeleteProductDialogProps) {
+  const { mutate, isPending } = useDeleteProduct();
+
+  const handleConfirm = (event: MouseEvent) => {
+    if (!product) return;
+    // Keep the dialog open until the request settles
+    event.preventDefault();
+
+    mutate(product, {
+      onSuccess: () => {
+        toast.success(`"${product.name}" foi movido para a lixeira`);
+        onOpenChange(false);
+        onDeleted?.();
+      },
+      onError: (error) => {
+        if (getApiErrorCode(error) === 'PRECONDITION_FAILED') {
+          // The list is refreshed; confirm again against the current product
+          toast.error(`"${product.name}" foi alterado por outra pessoa. Confira antes de excluir.`);
+          onOpenChange(false);
+          return;
+        }
+        toast.error(getApiErrorMessage(error, 'Não foi possível excluir o produto'));
+      },
+    });
+  };
+
+  return (
+    <AlertDialog open={product !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Excluir produto?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {product?.name} será removido do catálogo e movido para a lixeira, de onde pode ser
+            restaurado.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancelar</AlertDialogCancel>
+          <AlertDialogAction
+            className={buttonVariants({ variant: 'destructive' })}
+            disabled={isPending}
+            onClick={handleConfirm}
+          >
+            Excluir
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export { DeleteProductDialog };
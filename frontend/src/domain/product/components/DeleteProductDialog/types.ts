@@ -0,0 +1,6 @@
+export interface DeleteProductDialogProps {
+  /** The version shown to the user; deletion fails if the product changed since */
+  product: { id: number; name: string; version: number } | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted?: () => void;
+}
@@ -0,0 +1,145 @@
+/**
+ * Price History Chart Component
+ * Step chart of the regular product price over time, followed by the latest changes
+ * (product and variant prices) with who made them
+ */
+
+import { format } from 'date-fns';
+import { cn } from '@/core/lib/utils';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/core/components/table';
+import { formatPrice } from '../../utils';
+import type { PriceHistoryChartProps } from './types';
+import { CHART_SIZE, RECENT_CHANGES_LIMIT } from './types';
+
+const formatDate = (date: string | number) => format(new Date(date), 'dd/MM/yyyy HH:mm');
+
+function PriceHistoryChart({ changes, className }: PriceHistoryChartProps) {
+  // The chart follows the product price; variant prices are only listed
+  const points = changes
+    .filter((change) => change.sku === null)
+    .map((change) => ({ time: new Date(change.dateCreated).getTime(), price: change.newPrice }));
+  const prices = points
+    .map((point) => point.price)
+    .filter((price): price is number => price !== null);
+
+  const now = Date.now();
+  const start = points[0]?.time ?? now;
+  const end = Math.max(now, start + 1);
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+
+  const { width, height, padding } = CHART_SIZE;
+  const x = (time: number) => padding + ((time - start) / (end - start)) * (width - padding * 2);
+  const y = (price: number) =>
+    // A flat history is drawn in the middle of the chart
+    max === min ? height / 2 : padding + ((max - price) / (max - min)) * (height - padding * 2);
+
+  // Steps hold each price until the next change; "Sob consulta" periods leave a gap
+  let path = '';
+  points.forEach((point, index) => {
+    if (point.price === null) return;
+    const next = points[index + 1]?.time ?? end;
+    const previous = points[index - 1];
+    path +=
+      previous && previous.price !== null
+        ? ` V ${y(point.price)} H ${x(next)}`
+        : ` M ${x(point.time)} ${y(point.price)} H ${x(next)}`;
+  });
+
+  const recent = [...changes].reverse().slice(0, RECENT_CHANGES_LIMIT);
+  // The first change of each price sets it; a null oldPrice later means "Sob consulta"
+  const firstChangeIds = new Set(
+    changes
+      .filter((change, index) => changes.findIndex((other) => other.sku === change.sku) === index)
+      .map((change) => change.id)
+  );
+
+  if (changes.length === 0) {
+    return (
+      <p className={cn('text-muted-foreground text-sm', className)}>
+        Nenhuma alteração de preço registrada.
+      </p>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      {prices.length > 0 && (
+        <figure className="flex flex-col gap-1">
+          <div className="text-muted-foreground flex justify-between text-xs tabular-nums">
+            <span>Mín. {formatPrice(min)}</span>
+            <span>Máx. {formatPrice(max)}</span>
+          </div>
+          <svg
+            viewBox={`0 0 ${width} ${height}`}
+            className="bg-muted/30 h-auto w-full rounded-md border"
+            role="img"
+            aria-label={`Preço de ${formatPrice(min)} a ${formatPrice(max)} desde ${formatDate(start)}`}
+          >
+            <path
+              d={path}
+              fill="none"
+              stroke="currentColor"
+              strokeWidth={2}
+              className="text-primary"
+            />
+            {points.map(
+              (point, index) =>
+                point.price !== null && (
+                  <circle
+                    key={index}
+                    cx={x(point.time)}
+                    cy={y(point.price)}
+                    r={4}
+                    className="fill-primary"
+                  >
+                    <title>{`${formatDate(point.time)}: ${formatPrice(point.price)}`}</title>
+                  </circle>
+                )
+            )}
+          </svg>
+          <figcaption className="text-muted-foreground flex justify-between text-xs">
+            <span>{formatDate(start)}</span>
+            <span>Hoje</span>
+          </figcaption>
+        </figure>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Data</TableHead>
+            <TableHead>SKU</TableHead>
+            <TableHead className="text-right">De</TableHead>
+            <TableHead className="text-right">Para</TableHead>
+            <TableHead>Por</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {recent.map((change) => (
+            <TableRow key={change.id}>
+              <TableCell className="tabular-nums">{formatDate(change.dateCreated)}</TableCell>
+              <TableCell>{change.sku ?? 'Produto'}</TableCell>
+              <TableCell className="text-muted-foreground text-right tabular-nums">
+                {firstChangeIds.has(change.id) ? '—' : formatPrice(change.oldPrice)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {formatPrice(change.newPrice)}
+              </TableCell>
+              <TableCell>{change.userName ?? '—'}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export { PriceHistoryChart };
@@ -0,0 +1,16 @@
+import type { ProductPriceChange } from '../../types/models';
+
+export interface PriceHistoryChartProps {
+  /** Oldest first */
+  changes: ProductPriceChange[];
+  className?: string;
+}
+
+export const CHART_SIZE = {
+  width: 600,
+  height: 160,
+  padding: 8,
+} as const;
+
+/** Most recent changes listed below the chart */
+export const RECENT_CHANGES_LIMIT = 10;
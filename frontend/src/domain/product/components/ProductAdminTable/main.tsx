@@ -0,0 +1,113 @@
+/**
+ * Product Admin Table Component
+ * Product listing for the admin area with featured toggle, edit and delete actions
+ */
+
+import { Link } from 'react-router-dom';
+import { PencilIcon, StarIcon, Trash2Icon } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { Badge } from '@/core/components/badge';
+import { Button } from '@/core/components/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/core/components/table';
+import { formatDiscount, formatPrice } from '../../utils/price';
+import type { ProductAdminTableProps } from './types';
+
+function ProductAdminTable({
+  products,
+  onDelete,
+  onToggleFeatured,
+  className,
+}: ProductAdminTableProps) {
+  return (
+    <Table className={cn(className)}>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Imagem</TableHead>
+          <TableHead>Nome</TableHead>
+          <TableHead>Categoria</TableHead>
+          <TableHead className="text-right">Preço</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead className="w-32 text-right">Ações</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {products.map((product) => (
+          <TableRow key={product.id}>
+            <TableCell>
+              <img
+                src={product.mainImage}
+                alt=""
+                className="size-10 rounded object-cover"
+                loading="lazy"
+              />
+            </TableCell>
+            <TableCell className="font-medium">
+              <Link to={`/catalog/${product.id}`} className="hover:underline">
+                {product.name}
+              </Link>
+            </TableCell>
+            <TableCell>{product.categoryName}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatPrice(product.price)}</TableCell>
+            <TableCell>
+              <div className="flex gap-1">
+                {!product.available && <Badge variant="secondary">Indisponível</Badge>}
+                {product.featured && <Badge variant="outline">Destaque</Badge>}
+                {product.onSale && (
+                  <Badge variant="destructive">
+                    Promoção
+                    {product.discountPercent !== null &&
+                      ` ${formatDiscount(product.discountPercent)}`}
+                  </Badge>
+                )}
+              </div>
+            </TableCell>
+            <TableCell className="text-right">
+              {onToggleFeatured && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onToggleFeatured(product)}
+                  aria-pressed={product.featured}
+                  aria-label={
+                    product.featured
+                      ? `Remover ${product.name} dos destaques`
+                      : `Destacar ${product.name}`
+                  }
+                >
+                  <StarIcon className={cn(product.featured && 'fill-current')} />
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" asChild>
+                <Link
+                  to={`/admin/products/${product.id}/edit`}
+                  aria-label={`Editar ${product.name}`}
+                >
+                  <PencilIcon />
+                </Link>
+              </Button>
+              {onDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onDelete(product)}
+                  aria-label={`Excluir ${product.name}`}
+                >
+                  <Trash2Icon />
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export { ProductAdminTable };
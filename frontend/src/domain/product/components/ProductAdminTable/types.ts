@@ -0,0 +1,10 @@
+import type { AdminProductListItem } from '../../types/models';
+
+export interface ProductAdminTableProps {
+  products: AdminProductListItem[];
+  /** Omit to hide the delete action (e.g. for roles that cannot delete) */
+  onDelete?: (product: AdminProductListItem) => void;
+  /** Omit to hide the featured toggle */
+  onToggleFeatured?: (product: AdminProductListItem) => void;
+  className?: string;
+}
@@ -3,14 +3,19 @@
  * Displays product information in grid or list view
  */
 
+import { Link } from 'react-router-dom';
 import { cva } from 'class-variance-authority';
 import { cn } from '@/core/lib/utils';
 import { Badge } from '@/core/components/badge';
 import { Card, CardContent } from '@/core/components/card';
+import type { ProductSearchHighlight } from '../../types/models';
+import { formatDiscount, formatMeasurements } from '../../utils';
+import { ProductImage } from '../ProductImage';
+import { ProductPrice } from '../ProductPrice';
 import type { ProductCardProps } from './types';
 
 const productCardVariants = cva(
-  'group cursor-pointer transition-all duration-200 hover:shadow-lg',
+  'group relative cursor-pointer transition-all duration-200 focus-within:ring-2 focus-within:ring-ring hover:shadow-lg',
   {
     variants: {
       viewMode: {
@@ -24,14 +29,39 @@ const productCardVariants = cva(
   }
 );
 
+/**
+ * Rendered image width for the browser to pick a rendition: the catalog grid has 1 to 4
+ * columns (sm, lg and xl breakpoints); list thumbnails are 12rem wide
+ */
+const IMAGE_SIZES = {
+  grid: '(min-width: 1280px) 25vw, (min-width: 1024px) 33vw, (min-width: 640px) 50vw, 100vw',
+  list: '12rem',
+} as const;
+
+/**
+ * Renders a search snippet with its matched ranges wrapped in <mark>
+ */
+function HighlightedText({ highlight }: { highlight: ProductSearchHighlight }) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  highlight.matches.forEach((match, index) => {
+    parts.push(highlight.snippet.slice(cursor, match.start));
+    parts.push(
+      <mark key={index} className="bg-primary/15 text-foreground rounded-sm">
+        {highlight.snippet.slice(match.start, match.end)}
+      </mark>
+    );
+    cursor = match.end;
+  });
+  parts.push(highlight.snippet.slice(cursor));
+
+  return <>{parts}</>;
+}
+
 function ProductCard({ product, viewMode = 'grid', className }: ProductCardProps) {
-  const formatPrice = (price: number | null) => {
-    if (price === null) return 'Sob consulta';
-    return new Intl.NumberFormat('pt-BR', {
-      style: 'currency',
-      currency: 'BRL',
-    }).format(price);
-  };
+  const nameHighlight = product.highlights?.find((highlight) => highlight.field === 'name');
+  const textHighlight = product.highlights?.find((highlight) => highlight.field !== 'name');
 
   return (
     <Card
@@ -45,11 +75,13 @@ function ProductCard({ product, viewMode = 'grid', className }: ProductCardProps
           viewMode === 'grid' ? 'aspect-square w-full' : 'h-48 w-48 shrink-0 rounded-l-xl'
         )}
       >
-        <img
+        <ProductImage
           src={product.mainImage}
+          variants={product.mainImageVariants}
           alt={product.name}
-          className="h-full w-full object-cover transition-transform duration-300 group-hover:scale-105"
-          loading="lazy"
+          sizes={IMAGE_SIZES[viewMode]}
+          className="h-full w-full"
+          imageClassName="transition-[opacity,transform] duration-300 group-hover:scale-105"
         />
 
         {/* Badges */}
@@ -71,8 +103,18 @@ function ProductCard({ product, viewMode = 'grid', className }: ProductCardProps
 
         <div className="absolute bottom-2 right-2 flex flex-col gap-2">
           {product.onSale && (
-            <Badge variant="destructive" className="bg-destructive text-white">
-              Promoção
+            <Badge
+              variant="destructive"
+              className="bg-destructive text-white"
+              aria-label={
+                product.discountPercent !== null
+                  ? `Promoção: ${product.discountPercent}% de desconto`
+                  : 'Promoção'
+              }
+            >
+              {product.discountPercent !== null
+                ? formatDiscount(product.discountPercent)
+                : 'Promoção'}
             </Badge>
           )}
         </div>
@@ -89,19 +131,30 @@ function ProductCard({ product, viewMode = 'grid', className }: ProductCardProps
 
       <CardContent className={cn('flex flex-1 flex-col gap-2', viewMode === 'list' && 'py-4')}>
         <div className="flex flex-1 flex-col gap-1">
-          <h3 className="line-clamp-2 text-base font-semibold leading-tight">{product.name}</h3>
-          <p className="text-muted-foreground text-sm">{product.category}</p>
+          <h3 className="line-clamp-2 text-base font-semibold leading-tight">
+            {/* Stretched link makes the whole card clickable */}
+            <Link
+              to={`/catalog/${product.id}`}
+              className="outline-none after:absolute after:inset-0 after:content-['']"
+            >
+              {nameHighlight ? <HighlightedText highlight={nameHighlight} /> : product.name}
+            </Link>
+          </h3>
+          <p className="text-muted-foreground text-sm">{product.categoryName}</p>
+          {product.measurements && (
+            <p className="text-muted-foreground text-xs">
+              {formatMeasurements(product.measurements)}
+            </p>
+          )}
+          {textHighlight && (
+            <p className="text-muted-foreground line-clamp-2 text-xs">
+              <HighlightedText highlight={textHighlight} />
+            </p>
+          )}
         </div>
 
         <div className="mt-auto">
-          <p
-            className={cn(
-              'text-lg font-bold',
-              product.price === null ? 'text-muted-foreground text-sm' : 'text-primary'
-            )}
-          >
-            {formatPrice(product.price)}
-          </p>
+          <ProductPrice price={product.price} originalPrice={product.originalPrice} />
         </div>
       </CardContent>
     </Card>
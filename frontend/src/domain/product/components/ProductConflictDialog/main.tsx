@@ -0,0 +1,152 @@
+/**
+ * Product Conflict Dialog Component
+ * Shown when the product changed since the form was opened: keeps the other person's changes
+ * and mine where they do not overlap, and lets the user pick a side for fields both changed
+ */
+
+import { useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Label } from '@/core/components/label';
+import { RadioGroup, RadioGroupItem } from '@/core/components/radio-group';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/core/components/alert-dialog';
+import { formatMeasurements } from '../../utils/measurements';
+import { formatPrice } from '../../utils/price';
+import type { ProductInput } from '../../types/models';
+import { mergeProductChanges, type ProductInputField } from './merge';
+import type { ProductConflictDialogProps } from './types';
+
+const FIELD_LABELS: Record<ProductInputField, string> = {
+  name: 'Nome',
+  description: 'Descrição',
+  mainImage: 'Imagem principal',
+  images: 'Imagens',
+  price: 'Preço',
+  category: 'Categoria',
+  shortDescription: 'Descrição curta',
+  dimensions: 'Dimensões',
+  measurements: 'Medidas',
+  featured: 'Destaque',
+  launchDate: 'Lançamento',
+  sale: 'Promoção',
+  available: 'Disponível',
+};
+
+const formatDate = (iso: string | null) => (iso ? format(new Date(iso), 'dd/MM/yyyy HH:mm') : '');
+
+const formatValue = (input: ProductInput, field: ProductInputField) => {
+  switch (field) {
+    case 'price':
+      return formatPrice(input.price);
+    case 'images':
+      return input.images.length > 0 ? input.images.join(', ') : '—';
+    case 'measurements':
+      return input.measurements ? formatMeasurements(input.measurements) : '—';
+    case 'featured':
+    case 'available':
+      return input[field] ? 'Sim' : 'Não';
+    case 'launchDate':
+      return input.launchDate ? format(new Date(input.launchDate), 'dd/MM/yyyy') : '—';
+    case 'sale': {
+      if (!input.sale) return 'Sem promoção';
+      const { discountPercent, startsAt, endsAt } = input.sale;
+      const period = [formatDate(startsAt), formatDate(endsAt)].filter(Boolean).join(' até ');
+      return period ? `${discountPercent}% (${period})` : `${discountPercent}%`;
+    }
+    default:
+      return input[field] || '—';
+  }
+};
+
+function ProductConflictDialog({
+  base,
+  latest,
+  mine,
+  onResolve,
+  onDiscard,
+  isSaving = false,
+}: ProductConflictDialogProps) {
+  const { merged, conflicts } = useMemo(
+    () => mergeProductChanges(base, mine, latest),
+    [base, mine, latest]
+  );
+  // Overlapping fields keep my value unless the other one is picked
+  const [choices, setChoices] = useState<Partial<Record<ProductInputField, 'mine' | 'theirs'>>>({});
+
+  const handleSave = () => {
+    const input = { ...merged };
+    conflicts
+      .filter((field) => choices[field] !== 'theirs')
+      .forEach((field) => Object.assign(input, { [field]: mine[field] }));
+    onResolve(input);
+  };
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="sm:max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Este produto foi alterado desde que você o abriu</AlertDialogTitle>
+          <AlertDialogDescription>
+            {conflicts.length === 0
+              ? 'As alterações da outra pessoa não afetam os campos que você mudou e serão mantidas junto com as suas.'
+              : 'As alterações em campos diferentes serão combinadas. Escolha qual valor manter nos campos alterados pelos dois.'}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {conflicts.length > 0 && (
+          <div className="flex max-h-[50vh] flex-col gap-4 overflow-y-auto">
+            {conflicts.map((field) => (
+              <fieldset key={field} className="flex flex-col gap-2">
+                <legend className="mb-2 text-sm font-medium">{FIELD_LABELS[field]}</legend>
+                <RadioGroup
+                  value={choices[field] ?? 'mine'}
+                  onValueChange={(value) =>
+                    setChoices((current) => ({ ...current, [field]: value as 'mine' | 'theirs' }))
+                  }
+                >
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="mine" id={`${field}-mine`} />
+                    <Label htmlFor={`${field}-mine`} className="flex-col items-start font-normal">
+                      <span className="font-medium">Minha alteração</span>
+                      <span className="text-muted-foreground break-all">
+                        {formatValue(mine, field)}
+                      </span>
+                    </Label>
+                  </div>
+                  <div className="flex items-start gap-2">
+                    <RadioGroupItem value="theirs" id={`${field}-theirs`} />
+                    <Label htmlFor={`${field}-theirs`} className="flex-col items-start font-normal">
+                      <span className="font-medium">Valor atual</span>
+                      <span className="text-muted-foreground break-all">
+                        {formatValue(merged, field)}
+                      </span>
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </fieldset>
+            ))}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving} onClick={onDiscard}>
+            Descartar minhas alterações
+          </AlertDialogCancel>
+          <AlertDialogAction disabled={isSaving} onClick={handleSave}>
+            Salvar
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export { ProductConflictDialog };
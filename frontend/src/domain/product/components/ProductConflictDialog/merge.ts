@@ -0,0 +1,45 @@
+/**
+ * Three-way merge of product form payloads
+ * Compares the version the form was opened with, the user's changes and the current product
+ */
+
+import type { Product, ProductInput } from '../../types/models';
+import { toProductFormValues, toProductInput } from '../ProductForm/validation';
+
+export type ProductInputField = keyof ProductInput;
+
+export interface ProductMerge {
+  /** Mine where only I changed a field, theirs elsewhere */
+  merged: ProductInput;
+  /** Fields both sides changed to different values */
+  conflicts: ProductInputField[];
+}
+
+const isSame = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Products go through the form conversion so they compare like the submitted payload
+ */
+export const productToInput = (product: Product) => toProductInput(toProductFormValues(product));
+
+export const mergeProductChanges = (
+  base: Product,
+  mine: ProductInput,
+  latest: Product
+): ProductMerge => {
+  const original = productToInput(base);
+  const theirs = productToInput(latest);
+  const merged = { ...theirs };
+  const conflicts: ProductInputField[] = [];
+
+  (Object.keys(mine) as ProductInputField[]).forEach((field) => {
+    if (isSame(mine[field], original[field]) || isSame(mine[field], theirs[field])) return;
+    if (isSame(theirs[field], original[field])) {
+      Object.assign(merged, { [field]: mine[field] });
+    } else {
+      conflicts.push(field);
+    }
+  });
+
+  return { merged, conflicts };
+};
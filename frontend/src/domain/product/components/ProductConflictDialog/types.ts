@@ -0,0 +1,13 @@
+import type { Product, ProductInput } from '../../types/models';
+
+export interface ProductConflictDialogProps {
+  /** Product as it was when the form was opened */
+  base: Product;
+  /** Product as it is now, changed by someone else */
+  latest: Product;
+  /** The changes that could not be saved */
+  mine: ProductInput;
+  onResolve: (input: ProductInput) => void;
+  onDiscard: () => void;
+  isSaving?: boolean;
+}
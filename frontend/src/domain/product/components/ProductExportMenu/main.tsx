@@ -0,0 +1,60 @@
+/**
+ * Product Export Menu Component
+ * "Exportar" button that downloads the filtered products in the chosen format
+ */
+
+import { DownloadIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/core/components/dropdown-menu';
+import { useProductExport } from '../../hooks/useProductExport';
+import type { ProductExportFormat } from '../../types/models';
+import type { ProductExportMenuProps } from './types';
+import { EXPORT_FORMATS } from './types';
+
+function ProductExportMenu({ filters, sort, className }: ProductExportMenuProps) {
+  const { mutate, isPending } = useProductExport();
+
+  const handleExport = (format: ProductExportFormat) => {
+    mutate(
+      { params: { ...filters, sort }, format },
+      {
+        onError: (error) => {
+          toast.error(getApiErrorMessage(error, 'Não foi possível exportar os produtos'));
+        },
+      }
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className={className} disabled={isPending}>
+          <DownloadIcon />
+          {isPending ? 'Exportando...' : 'Exportar'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          {filters.q ? 'Exportar resultados da busca' : 'Exportar todos os produtos'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {EXPORT_FORMATS.map(({ value, label }) => (
+          <DropdownMenuItem key={value} onSelect={() => handleExport(value)}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export { ProductExportMenu };
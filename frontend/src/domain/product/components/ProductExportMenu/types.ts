@@ -0,0 +1,14 @@
+import type { ProductExportFormat, ProductFilters, ProductSort } from '../../types/models';
+
+export interface ProductExportMenuProps {
+  /** Filters and sort of the products to export */
+  filters: ProductFilters;
+  sort?: ProductSort['sort'];
+  className?: string;
+}
+
+export const EXPORT_FORMATS: { value: ProductExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Planilha Excel (.xlsx)' },
+  { value: 'csv', label: 'CSV (.csv)' },
+  { value: 'json', label: 'JSON (.json)' },
+];
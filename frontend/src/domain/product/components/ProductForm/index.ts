@@ -0,0 +1,3 @@
+export * from './main';
+export type * from './types';
+export * from './validation';
@@ -0,0 +1,379 @@
+/**
+ * Product Form Component
+ * Create/edit form for products, validated on the client and mapping API field errors back
+ */
+
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { toast } from 'sonner';
+import { cn } from '@/core/lib/utils';
+import { getApiErrorDetails, getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { Checkbox } from '@/core/components/checkbox';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/core/components/form';
+import { Input } from '@/core/components/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/core/components/select';
+import { Textarea } from '@/core/components/textarea';
+import { ProductImageUploadButton } from '../ProductImageUploadButton';
+import type { ProductFormProps } from './types';
+import {
+  productFormSchema,
+  toProductFormValues,
+  toProductInput,
+  type ProductFormValues,
+} from './validation';
+
+const FLAG_FIELDS = [
+  { name: 'available', label: 'Disponível' },
+  { name: 'featured', label: 'Destaque' },
+] as const;
+
+const MEASUREMENT_FIELDS = [
+  { name: 'width', label: 'Largura (cm)' },
+  { name: 'depth', label: 'Profundidade (cm)' },
+  { name: 'height', label: 'Altura (cm)' },
+  { name: 'weight', label: 'Peso (kg)' },
+] as const;
+
+const SALE_DATE_FIELDS = [
+  { name: 'saleStartsAt', label: 'Início da promoção' },
+  { name: 'saleEndsAt', label: 'Fim da promoção' },
+] as const;
+
+const SALE_FIELD_BY_KEY: Record<string, keyof ProductFormValues> = {
+  discountPercent: 'saleDiscount',
+  startsAt: 'saleStartsAt',
+  endsAt: 'saleEndsAt',
+};
+
+/**
+ * Maps an API error path (e.g. ["measurements", "width"]) to the form field showing it
+ */
+const toFormField = (path?: (string | number)[]) => {
+  if (path?.[0] === 'measurements') return path[1];
+  if (path?.[0] === 'sale') return SALE_FIELD_BY_KEY[String(path[1])];
+  return path?.[0];
+};
+
+function ProductForm({
+  product,
+  categories,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  className,
+}: ProductFormProps) {
+  const form = useForm<ProductFormValues>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: toProductFormValues(product),
+  });
+
+  // Price and availability of products with variants are derived from the variants by the API
+  const hasVariants = (product?.variants.length ?? 0) > 0;
+  const saleDiscount = form.watch('saleDiscount').trim();
+
+  const handleSubmit = async (values: ProductFormValues) => {
+    try {
+      await onSubmit(toProductInput(values));
+    } catch (error) {
+      // Show API validation errors next to the matching fields
+      getApiErrorDetails(error).forEach(({ path, message }) => {
+        const field = toFormField(path);
+        if (typeof field === 'string' && field in values) {
+          form.setError(field as keyof ProductFormValues, { message });
+        }
+      });
+      toast.error(getApiErrorMessage(error, 'Não foi possível salvar o produto'));
+    }
+  };
+
+  return (
+    <Form {...form}>
+      <form
+        onSubmit={form.handleSubmit(handleSubmit)}
+        className={cn('grid gap-6 md:grid-cols-2', className)}
+        noValidate
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Nome</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="category"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Categoria</FormLabel>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Selecione" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {categories.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.path}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="price"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Preço (R$)</FormLabel>
+              <FormControl>
+                <Input
+                  inputMode="decimal"
+                  placeholder="Sob consulta"
+                  disabled={hasVariants}
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                {hasVariants
+                  ? 'Definido pelo menor preço entre as variantes.'
+                  : 'Deixe em branco para exibir "Sob consulta".'}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="mainImage"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Imagem principal</FormLabel>
+              <div className="flex gap-2">
+                <FormControl>
+                  <Input type="url" placeholder="https://" {...field} />
+                </FormControl>
+                <ProductImageUploadButton
+                  onUploaded={(image) =>
+                    form.setValue('mainImage', image.url, {
+                      shouldDirty: true,
+                      shouldValidate: true,
+                    })
+                  }
+                />
+              </div>
+              <FormDescription>
+                Informe uma URL ou envie uma imagem JPEG, PNG ou WebP de até 2 MB, com ao menos
+                800×600 pixels.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="images"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Imagens adicionais</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder="Uma URL por linha" {...field} />
+              </FormControl>
+              <ProductImageUploadButton
+                label="Adicionar imagem"
+                className="w-fit"
+                onUploaded={(image) =>
+                  form.setValue(
+                    'images',
+                    [field.value.trim(), image.url].filter(Boolean).join('\n'),
+                    { shouldDirty: true, shouldValidate: true }
+                  )
+                }
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="shortDescription"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Descrição curta</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem className="md:col-span-2">
+              <FormLabel>Descrição</FormLabel>
+              <FormControl>
+                <Textarea rows={5} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="dimensions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Dimensões</FormLabel>
+              <FormControl>
+                <Input placeholder="L x P x A cm" {...field} />
+              </FormControl>
+              <FormDescription>Texto livre exibido junto às medidas.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4 md:col-span-2 md:grid-cols-4">
+          {MEASUREMENT_FIELDS.map((measurement) => (
+            <FormField
+              key={measurement.name}
+              control={form.control}
+              name={measurement.name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{measurement.label}</FormLabel>
+                  <FormControl>
+                    <Input inputMode="decimal" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <fieldset className="grid gap-4 md:col-span-2 md:grid-cols-3">
+          <legend className="mb-2 text-sm font-medium">Promoção</legend>
+          <FormField
+            control={form.control}
+            name="saleDiscount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Desconto (%)</FormLabel>
+                <FormControl>
+                  <Input inputMode="decimal" placeholder="Sem promoção" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          {SALE_DATE_FIELDS.map((date) => (
+            <FormField
+              key={date.name}
+              control={form.control}
+              name={date.name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{date.label}</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" disabled={saleDiscount === ''} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+          <FormDescription className="md:col-span-3">
+            Sem datas, a promoção vale até ser removida. O preço acima é o preço cheio.
+          </FormDescription>
+        </fieldset>
+
+        <FormField
+          control={form.control}
+          name="launchDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Data de lançamento</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormDescription>
+                O selo &quot;Novo&quot; vale por 30 dias a partir desta data (ou do cadastro).
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-col gap-3 md:col-span-2">
+          {FLAG_FIELDS.map((flag) => (
+            <FormField
+              key={flag.name}
+              control={form.control}
+              name={flag.name}
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center gap-2">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value}
+                      disabled={hasVariants && flag.name === 'available'}
+                      onCheckedChange={(checked) => field.onChange(checked === true)}
+                    />
+                  </FormControl>
+                  <FormLabel className="font-normal">{flag.label}</FormLabel>
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2 md:col-span-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancelar
+            </Button>
+          )}
+          <Button type="submit" disabled={form.formState.isSubmitting}>
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
+
+export { ProductForm };
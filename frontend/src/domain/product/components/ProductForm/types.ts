@@ -0,0 +1,12 @@
+import type { CategoryOption } from '@/domain/category/_module';
+import type { Product, ProductInput } from '../../types/models';
+
+export interface ProductFormProps {
+  product?: Product;
+  /** Flattened category tree used for the category select */
+  categories: CategoryOption[];
+  submitLabel: string;
+  onSubmit: (input: ProductInput) => Promise<unknown>;
+  onCancel?: () => void;
+  className?: string;
+}
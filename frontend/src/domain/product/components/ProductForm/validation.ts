@@ -0,0 +1,204 @@
+/**
+ * Product form validation
+ * Mirrors the backend create/update schemas; free-text fields are kept as strings while
+ * editing and converted to the API payload on submit
+ */
+
+import { z } from 'zod';
+import { format } from 'date-fns';
+import type { Product, ProductInput } from '../../types/models';
+
+export const PRODUCT_FORM_LIMITS = {
+  NAME_MAX_LENGTH: 60,
+  DESCRIPTION_MAX_LENGTH: 500,
+  SHORT_DESCRIPTION_MAX_LENGTH: 150,
+  DIMENSIONS_MAX_LENGTH: 50,
+  MEASUREMENT_MAX_CM: 1000,
+  WEIGHT_MAX_KG: 1000,
+  SALE_DISCOUNT_MIN_PERCENT: 1,
+  SALE_DISCOUNT_MAX_PERCENT: 90,
+} as const;
+
+const maxLengthMessage = (max: number) => `Use no máximo ${max} caracteres`;
+
+const parsePrice = (value: string) => Number(value.replace(',', '.'));
+
+// Measurements accept a decimal comma too
+const parseMeasurement = parsePrice;
+
+// Empty means "not informed"
+const measurementField = (max: number, unit: string) =>
+  z
+    .string()
+    .trim()
+    .refine(
+      (value) => value === '' || (parseMeasurement(value) > 0 && parseMeasurement(value) <= max),
+      `Informe um valor maior que zero e até ${max} ${unit}`
+    );
+
+const SIZE_FIELDS = ['width', 'depth', 'height'] as const;
+
+// Sale dates are edited in <input type="datetime-local"> (local time, no zone)
+const toDateTimeLocal = (iso: string | null) =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+const fromDateTimeLocal = (value: string) => (value ? new Date(value).toISOString() : null);
+
+const splitLines = (value: string) =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+const isUrl = (value: string) => z.url().safeParse(value).success;
+
+export const productFormSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1, 'Informe o nome do produto')
+      .max(
+        PRODUCT_FORM_LIMITS.NAME_MAX_LENGTH,
+        maxLengthMessage(PRODUCT_FORM_LIMITS.NAME_MAX_LENGTH)
+      ),
+    category: z.string().min(1, 'Selecione uma categoria'),
+    // Empty means "Sob consulta"
+    price: z
+      .string()
+      .trim()
+      .refine((value) => value === '' || parsePrice(value) > 0, 'Informe um preço maior que zero'),
+    mainImage: z.string().trim().refine(isUrl, 'Informe uma URL válida'),
+    images: z
+      .string()
+      .refine((value) => splitLines(value).every(isUrl), 'Cada linha deve conter uma URL válida'),
+    shortDescription: z
+      .string()
+      .trim()
+      .max(
+        PRODUCT_FORM_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH,
+        maxLengthMessage(PRODUCT_FORM_LIMITS.SHORT_DESCRIPTION_MAX_LENGTH)
+      ),
+    description: z
+      .string()
+      .trim()
+      .max(
+        PRODUCT_FORM_LIMITS.DESCRIPTION_MAX_LENGTH,
+        maxLengthMessage(PRODUCT_FORM_LIMITS.DESCRIPTION_MAX_LENGTH)
+      ),
+    dimensions: z
+      .string()
+      .trim()
+      .max(
+        PRODUCT_FORM_LIMITS.DIMENSIONS_MAX_LENGTH,
+        maxLengthMessage(PRODUCT_FORM_LIMITS.DIMENSIONS_MAX_LENGTH)
+      ),
+    featured: z.boolean(),
+    available: z.boolean(),
+    // Empty means "no sale"
+    saleDiscount: z
+      .string()
+      .trim()
+      .refine(
+        (value) =>
+          value === '' ||
+          (parsePrice(value) >= PRODUCT_FORM_LIMITS.SALE_DISCOUNT_MIN_PERCENT &&
+            parsePrice(value) <= PRODUCT_FORM_LIMITS.SALE_DISCOUNT_MAX_PERCENT),
+        `Informe um desconto entre ${PRODUCT_FORM_LIMITS.SALE_DISCOUNT_MIN_PERCENT}% e ${PRODUCT_FORM_LIMITS.SALE_DISCOUNT_MAX_PERCENT}%`
+      ),
+    // Empty counts the "Novo" window from the creation date
+    launchDate: z.string(),
+    saleStartsAt: z.string(),
+    saleEndsAt: z.string(),
+    width: measurementField(PRODUCT_FORM_LIMITS.MEASUREMENT_MAX_CM, 'cm'),
+    depth: measurementField(PRODUCT_FORM_LIMITS.MEASUREMENT_MAX_CM, 'cm'),
+    height: measurementField(PRODUCT_FORM_LIMITS.MEASUREMENT_MAX_CM, 'cm'),
+    weight: measurementField(PRODUCT_FORM_LIMITS.WEIGHT_MAX_KG, 'kg'),
+  })
+  // Width, depth and height go together; weight alone is not enough
+  .superRefine((values, ctx) => {
+    const filled = SIZE_FIELDS.filter((field) => values[field] !== '');
+    if (filled.length === 0 && values.weight === '') return;
+    if (filled.length === SIZE_FIELDS.length) return;
+
+    SIZE_FIELDS.filter((field) => values[field] === '').forEach((field) =>
+      ctx.addIssue({
+        code: 'custom',
+        message: 'Informe largura, profundidade e altura',
+        path: [field],
+      })
+    );
+  })
+  .refine(
+    (values) =>
+      values.saleDiscount === '' ||
+      !values.saleStartsAt ||
+      !values.saleEndsAt ||
+      new Date(values.saleStartsAt) < new Date(values.saleEndsAt),
+    { message: 'O fim da promoção deve ser depois do início', path: ['saleEndsAt'] }
+  );
+
+export type ProductFormValues = z.infer<typeof productFormSchema>;
+
+/**
+ * Form values for a new product or for editing an existing one
+ */
+export const toProductFormValues = (product?: Product): ProductFormValues => ({
+  name: product?.name ?? '',
+  category: product?.category ?? '',
+  // While on sale, price is the discounted one; the form edits the regular price
+  price:
+    (product?.originalPrice ?? product?.price) != null
+      ? String(product?.originalPrice ?? product?.price)
+      : '',
+  mainImage: product?.mainImage ?? '',
+  images: product?.images.join('\n') ?? '',
+  shortDescription: product?.shortDescription ?? '',
+  description: product?.description ?? '',
+  dimensions: product?.dimensions ?? '',
+  featured: product?.featured ?? false,
+  available: product?.available ?? true,
+  launchDate: product?.launchDate ? format(new Date(product.launchDate), 'yyyy-MM-dd') : '',
+  saleDiscount: product?.sale ? String(product.sale.discountPercent) : '',
+  saleStartsAt: toDateTimeLocal(product?.sale?.startsAt ?? null),
+  saleEndsAt: toDateTimeLocal(product?.sale?.endsAt ?? null),
+  width: product?.measurements ? String(product.measurements.width) : '',
+  depth: product?.measurements ? String(product.measurements.depth) : '',
+  height: product?.measurements ? String(product.measurements.height) : '',
+  weight: product?.measurements?.weight != null ? String(product.measurements.weight) : '',
+});
+
+/**
+ * Converts validated form values to the API payload
+ */
+export const toProductInput = (values: ProductFormValues): ProductInput => ({
+  name: values.name,
+  category: values.category,
+  price: values.price === '' ? null : parsePrice(values.price),
+  mainImage: values.mainImage,
+  images: splitLines(values.images),
+  shortDescription: values.shortDescription || null,
+  description: values.description || null,
+  dimensions: values.dimensions || null,
+  measurements:
+    values.width === ''
+      ? null
+      : {
+          width: parseMeasurement(values.width),
+          depth: parseMeasurement(values.depth),
+          height: parseMeasurement(values.height),
+          weight: values.weight === '' ? null : parseMeasurement(values.weight),
+        },
+  featured: values.featured,
+  // Launch dates start at local midnight
+  launchDate: values.launchDate ? new Date(`${values.launchDate}T00:00`).toISOString() : null,
+  sale:
+    values.saleDiscount === ''
+      ? null
+      : {
+          discountPercent: parsePrice(values.saleDiscount),
+          startsAt: fromDateTimeLocal(values.saleStartsAt),
+          endsAt: fromDateTimeLocal(values.saleEndsAt),
+        },
+  available: values.available,
+});
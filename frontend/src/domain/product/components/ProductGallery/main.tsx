@@ -0,0 +1,160 @@
+/**
+ * Product Gallery Component
+ * Main image with thumbnails, keyboard navigation and a zoomable lightbox
+ */
+
+import { useMemo, useState } from 'react';
+import type { KeyboardEvent, MouseEvent } from 'react';
+import { ChevronLeftIcon, ChevronRightIcon, ZoomInIcon } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { Button } from '@/core/components/button';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/core/components/dialog';
+import type { ProductGalleryProps } from './types';
+
+function ProductGallery({ mainImage, images, alt, className }: ProductGalleryProps) {
+  const gallery = useMemo(() => Array.from(new Set([mainImage, ...images])), [mainImage, images]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [zoomed, setZoomed] = useState(false);
+  const [zoomOrigin, setZoomOrigin] = useState('50% 50%');
+
+  const hasMultiple = gallery.length > 1;
+  const activeImage = gallery[activeIndex] ?? mainImage;
+
+  const showImage = (index: number) => {
+    setActiveIndex((index + gallery.length) % gallery.length);
+    setZoomed(false);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!hasMultiple) return;
+    if (event.key === 'ArrowLeft') {
+      event.preventDefault();
+      showImage(activeIndex - 1);
+    } else if (event.key === 'ArrowRight') {
+      event.preventDefault();
+      showImage(activeIndex + 1);
+    }
+  };
+
+  // Zoom follows the cursor so any part of the image can be inspected
+  const handleZoomMove = (event: MouseEvent<HTMLImageElement>) => {
+    if (!zoomed) return;
+    const rect = event.currentTarget.getBoundingClientRect();
+    const x = ((event.clientX - rect.left) / rect.width) * 100;
+    const y = ((event.clientY - rect.top) / rect.height) * 100;
+    setZoomOrigin(`${x}% ${y}%`);
+  };
+
+  const navigationButtons = hasMultiple && (
+    <>
+      <Button
+        variant="secondary"
+        size="icon"
+        className="absolute left-2 top-1/2 -translate-y-1/2 rounded-full opacity-90"
+        onClick={() => showImage(activeIndex - 1)}
+        aria-label="Imagem anterior"
+      >
+        <ChevronLeftIcon />
+      </Button>
+      <Button
+        variant="secondary"
+        size="icon"
+        className="absolute right-2 top-1/2 -translate-y-1/2 rounded-full opacity-90"
+        onClick={() => showImage(activeIndex + 1)}
+        aria-label="Próxima imagem"
+      >
+        <ChevronRightIcon />
+      </Button>
+    </>
+  );
+
+  return (
+    <div
+      className={cn('flex flex-col gap-4', className)}
+      role="region"
+      aria-roledescription="galeria"
+      aria-label={`Imagens de ${alt}`}
+      onKeyDown={handleKeyDown}
+    >
+      <div className="bg-muted relative aspect-square w-full overflow-hidden rounded-xl">
+        <button
+          type="button"
+          className="group h-full w-full cursor-zoom-in"
+          onClick={() => setLightboxOpen(true)}
+          aria-label="Ampliar imagem"
+        >
+          <img
+            src={activeImage}
+            alt={`${alt} - imagem ${activeIndex + 1} de ${gallery.length}`}
+            className="h-full w-full object-cover"
+          />
+          <span className="bg-background/80 absolute bottom-2 right-2 rounded-full p-2 opacity-0 transition-opacity group-hover:opacity-100 group-focus-visible:opacity-100">
+            <ZoomInIcon className="size-4" />
+          </span>
+        </button>
+        {navigationButtons}
+      </div>
+
+      {hasMultiple && (
+        <ul className="flex gap-2 overflow-x-auto pb-1" aria-label="Miniaturas">
+          {gallery.map((image, index) => (
+            <li key={image} className="shrink-0">
+              <button
+                type="button"
+                onClick={() => showImage(index)}
+                className={cn(
+                  'size-20 overflow-hidden rounded-md border-2 transition-colors',
+                  index === activeIndex
+                    ? 'border-primary'
+                    : 'hover:border-muted-foreground border-transparent'
+                )}
+                aria-label={`Ver imagem ${index + 1}`}
+                aria-current={index === activeIndex ? 'true' : undefined}
+              >
+                <img src={image} alt="" className="h-full w-full object-cover" loading="lazy" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <Dialog
+        open={lightboxOpen}
+        onOpenChange={(open) => {
+          setLightboxOpen(open);
+          setZoomed(false);
+        }}
+      >
+        <DialogContent className="max-w-5xl p-2 sm:max-w-5xl" onKeyDown={handleKeyDown}>
+          <DialogTitle className="sr-only">{alt}</DialogTitle>
+          <DialogDescription className="sr-only">
+            Imagem {activeIndex + 1} de {gallery.length}. Use as setas para navegar e clique na
+            imagem para ampliar.
+          </DialogDescription>
+          <div className="relative flex max-h-[85vh] items-center justify-center overflow-hidden">
+            <img
+              src={activeImage}
+              alt={`${alt} - imagem ${activeIndex + 1} de ${gallery.length}`}
+              className={cn(
+                'max-h-[85vh] w-auto object-contain transition-transform duration-200',
+                zoomed ? 'scale-[2] cursor-zoom-out' : 'cursor-zoom-in'
+              )}
+              style={{ transformOrigin: zoomOrigin }}
+              onClick={() => setZoomed((value) => !value)}
+              onMouseMove={handleZoomMove}
+            />
+            {navigationButtons}
+          </div>
+          {hasMultiple && (
+            <p className="text-muted-foreground text-center text-sm" aria-live="polite">
+              {activeIndex + 1} / {gallery.length}
+            </p>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export { ProductGallery };
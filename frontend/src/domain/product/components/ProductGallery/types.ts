@@ -0,0 +1,6 @@
+export interface ProductGalleryProps {
+  mainImage: string;
+  images: string[];
+  alt: string;
+  className?: string;
+}
@@ -0,0 +1,83 @@
+/**
+ * Product Image Component
+ * Lazy product image that picks a rendition for its rendered size, shows a blurred placeholder
+ * while loading and a branded placeholder when the image cannot be loaded
+ */
+
+import { useMemo, useState } from 'react';
+import { SofaIcon } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { getResponsiveImage } from '../../utils/images';
+import type { ProductImageProps } from './types';
+
+type LoadStatus = 'loading' | 'loaded' | 'error';
+
+function ProductImage({
+  src,
+  variants,
+  alt,
+  sizes,
+  className,
+  imageClassName,
+}: ProductImageProps) {
+  const image = useMemo(() => getResponsiveImage(src, variants), [src, variants]);
+  const [state, setState] = useState<{ src: string; status: LoadStatus }>({
+    src,
+    status: 'loading',
+  });
+
+  // A new image starts over
+  const status = state.src === src ? state.status : 'loading';
+
+  if (status === 'error') {
+    return (
+      <div
+        role="img"
+        aria-label={alt}
+        className={cn(
+          'bg-muted text-muted-foreground flex flex-col items-center justify-center gap-2',
+          className
+        )}
+      >
+        <SofaIcon className="size-10" aria-hidden="true" />
+        <span className="text-xs">Imagem indisponível</span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'bg-muted relative overflow-hidden',
+        status === 'loading' && !image.placeholder && 'animate-pulse',
+        className
+      )}
+    >
+      {status === 'loading' && image.placeholder && (
+        <img
+          src={image.placeholder}
+          alt=""
+          aria-hidden="true"
+          className="absolute inset-0 h-full w-full scale-110 object-cover blur-lg"
+        />
+      )}
+      <img
+        src={image.src}
+        srcSet={image.srcSet}
+        sizes={image.srcSet ? sizes : undefined}
+        alt={alt}
+        loading="lazy"
+        decoding="async"
+        onLoad={() => setState({ src, status: 'loaded' })}
+        onError={() => setState({ src, status: 'error' })}
+        className={cn(
+          'relative h-full w-full object-cover transition-opacity duration-300',
+          status === 'loading' && 'opacity-0',
+          imageClassName
+        )}
+      />
+    </div>
+  );
+}
+
+export { ProductImage };
@@ -0,0 +1,14 @@
+import type { ProductImageVariants } from '../../types/models';
+
+export interface ProductImageProps {
+  src: string;
+  /** Renditions of an uploaded image; without them src is shown as it is */
+  variants?: ProductImageVariants | null;
+  alt: string;
+  /** Rendered width for the browser to pick a rendition, e.g. "(min-width: 640px) 50vw, 100vw" */
+  sizes?: string;
+  /** Classes of the frame, which sets the size */
+  className?: string;
+  /** Classes of the image itself */
+  imageClassName?: string;
+}
@@ -0,0 +1,69 @@
+/**
+ * Product Image Upload Button Component
+ * Picks an image file and uploads it; the API stores it as WebP renditions and returns its URL
+ */
+
+import { useRef, type ChangeEvent } from 'react';
+import { ImageUpIcon, Loader2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorDetails, getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { useUploadProductImage } from '../../hooks/useProductMutations';
+import type { ProductImageUploadButtonProps } from './types';
+
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp';
+
+function ProductImageUploadButton({
+  onUploaded,
+  label = 'Enviar imagem',
+  disabled = false,
+  className,
+}: ProductImageUploadButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { mutate, isPending } = useUploadProductImage();
+
+  const handleChange = (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after an error
+    event.target.value = '';
+    if (!file) return;
+
+    mutate(file, {
+      onSuccess: (image) => {
+        onUploaded(image);
+        toast.success('Imagem enviada');
+      },
+      onError: (error) => {
+        // Size and format problems come as details of the image field
+        const [detail] = getApiErrorDetails(error);
+        toast.error(
+          detail?.message ?? getApiErrorMessage(error, 'Não foi possível enviar a imagem')
+        );
+      },
+    });
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept={ACCEPTED_TYPES}
+        className="hidden"
+        onChange={handleChange}
+      />
+      <Button
+        type="button"
+        variant="outline"
+        className={className}
+        disabled={disabled || isPending}
+        onClick={() => inputRef.current?.click()}
+      >
+        {isPending ? <Loader2Icon className="animate-spin" /> : <ImageUpIcon />}
+        {label}
+      </Button>
+    </>
+  );
+}
+
+export { ProductImageUploadButton };
@@ -0,0 +1,8 @@
+import type { ProductImageUpload } from '../../types/models';
+
+export interface ProductImageUploadButtonProps {
+  onUploaded: (image: ProductImageUpload) => void;
+  label?: string;
+  disabled?: boolean;
+  className?: string;
+}
@@ -0,0 +1,101 @@
+/**
+ * Product Import Result Component
+ * Summary of a spreadsheet import (or dry run) and the outcome of every row
+ */
+
+import { Link } from 'react-router-dom';
+import { cn } from '@/core/lib/utils';
+import { Badge } from '@/core/components/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/core/components/table';
+import type { ProductImportRow } from '../../types/models';
+import type { ProductImportResultProps } from './types';
+import { IMPORT_FIELD_LABELS } from './types';
+
+const formatPath = (path: ProductImportRow['errors'][number]['path']) =>
+  path.length === 0
+    ? null
+    : [IMPORT_FIELD_LABELS[String(path[0])] ?? path[0], ...path.slice(1)].join(' › ');
+
+function RowStatus({ row, dryRun }: { row: ProductImportRow; dryRun: boolean }) {
+  if (row.errors.length > 0) return <Badge variant="destructive">Erro</Badge>;
+  if (row.action === 'unchanged') return <Badge variant="outline">Sem alterações</Badge>;
+  if (row.action === 'update') {
+    return <Badge variant="secondary">{dryRun ? 'Será atualizado' : 'Atualizado'}</Badge>;
+  }
+  return <Badge>{dryRun ? 'Será criado' : 'Criado'}</Badge>;
+}
+
+function ProductImportResult({ report, className }: ProductImportResultProps) {
+  const { dryRun } = report;
+
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      <p className="text-sm">
+        {report.totalRows} {report.totalRows === 1 ? 'linha lida' : 'linhas lidas'}:{' '}
+        {dryRun ? 'serão criados' : 'criados'} <strong>{report.created}</strong>,{' '}
+        {dryRun ? 'serão atualizados' : 'atualizados'} <strong>{report.updated}</strong>, sem
+        alterações <strong>{report.unchanged}</strong>, com erro <strong>{report.failed}</strong>.
+        {dryRun && report.failed > 0 && ' Linhas com erro não serão importadas.'}
+      </p>
+
+      {report.ignoredColumns.length > 0 && (
+        <p className="text-muted-foreground text-sm">
+          Colunas ignoradas: {report.ignoredColumns.join(', ')}
+        </p>
+      )}
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-16">Linha</TableHead>
+            <TableHead>SKU</TableHead>
+            <TableHead>Situação</TableHead>
+            <TableHead>Erros</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {report.rows.map((row) => (
+            <TableRow key={row.row}>
+              <TableCell className="tabular-nums">{row.row}</TableCell>
+              <TableCell>
+                {row.productId !== null && !dryRun ? (
+                  <Link to={`/admin/products/${row.productId}/edit`} className="hover:underline">
+                    {row.externalSku}
+                  </Link>
+                ) : (
+                  (row.externalSku ?? '—')
+                )}
+              </TableCell>
+              <TableCell>
+                <RowStatus row={row} dryRun={dryRun} />
+              </TableCell>
+              <TableCell className="whitespace-normal">
+                {row.errors.length > 0 && (
+                  <ul className="text-destructive flex flex-col gap-1 text-sm">
+                    {row.errors.map((error, index) => (
+                      <li key={index}>
+                        {formatPath(error.path) && (
+                          <span className="font-medium">{formatPath(error.path)}: </span>
+                        )}
+                        {error.message}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export { ProductImportResult };
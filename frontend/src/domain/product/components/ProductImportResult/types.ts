@@ -0,0 +1,23 @@
+import type { ProductImportReport } from '../../types/models';
+
+export interface ProductImportResultProps {
+  report: ProductImportReport;
+  className?: string;
+}
+
+/** Field names shown for error paths */
+export const IMPORT_FIELD_LABELS: Record<string, string> = {
+  externalSku: 'SKU',
+  name: 'Nome',
+  description: 'Descrição',
+  shortDescription: 'Resumo',
+  mainImage: 'Imagem',
+  images: 'Imagens',
+  price: 'Preço',
+  category: 'Categoria',
+  dimensions: 'Dimensões',
+  measurements: 'Medidas',
+  featured: 'Destaque',
+  available: 'Disponível',
+  launchDate: 'Lançamento',
+};
@@ -0,0 +1,41 @@
+/**
+ * Product Price Component
+ * Current price, preceded by the struck-through regular price while on sale
+ */
+
+import { cn } from '@/core/lib/utils';
+import { formatPrice } from '../../utils';
+import type { ProductPriceProps } from './types';
+
+function ProductPrice({ price, originalPrice, size = 'default', className }: ProductPriceProps) {
+  const onSale = price !== null && originalPrice != null && originalPrice > price;
+
+  return (
+    <p className={cn('flex flex-wrap items-baseline gap-x-2', className)}>
+      {onSale && (
+        <s
+          className={cn('text-muted-foreground', size === 'lg' ? 'text-base' : 'text-sm')}
+          aria-label={`De ${formatPrice(originalPrice)}`}
+        >
+          {formatPrice(originalPrice)}
+        </s>
+      )}
+      <span
+        className={cn(
+          'font-bold',
+          size === 'lg' ? 'text-2xl' : 'text-lg',
+          price === null
+            ? cn('text-muted-foreground', size === 'lg' ? 'text-lg' : 'text-sm')
+            : onSale
+              ? 'text-destructive'
+              : 'text-primary'
+        )}
+        aria-label={onSale ? `Por ${formatPrice(price)}` : undefined}
+      >
+        {formatPrice(price)}
+      </span>
+    </p>
+  );
+}
+
+export { ProductPrice };
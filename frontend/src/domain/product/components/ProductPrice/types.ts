@@ -0,0 +1,8 @@
+export interface ProductPriceProps {
+  /** Current price; null means "Sob consulta" */
+  price: number | null;
+  /** Regular price while on sale */
+  originalPrice?: number | null;
+  size?: 'default' | 'lg';
+  className?: string;
+}
@@ -0,0 +1,85 @@
+/**
+ * Product Trash Table Component
+ * Deleted products with who deleted them, when they will be purged and a restore action
+ */
+
+import { format } from 'date-fns';
+import { ArchiveRestoreIcon } from 'lucide-react';
+import { cn } from '@/core/lib/utils';
+import { Button } from '@/core/components/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/core/components/table';
+import { formatPrice } from '../../utils/price';
+import type { ProductTrashTableProps } from './types';
+
+const formatDate = (date: string) => format(new Date(date), 'dd/MM/yyyy HH:mm');
+
+function ProductTrashTable({ items, onRestore, restoringId, className }: ProductTrashTableProps) {
+  return (
+    <Table className={cn(className)}>
+      <TableHeader>
+        <TableRow>
+          <TableHead className="w-16">Imagem</TableHead>
+          <TableHead>Nome</TableHead>
+          <TableHead>Categoria</TableHead>
+          <TableHead className="text-right">Preço</TableHead>
+          <TableHead>Excluído</TableHead>
+          <TableHead>Exclusão definitiva</TableHead>
+          <TableHead className="w-32 text-right">Ações</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {items.map((item) => (
+          <TableRow key={item.id}>
+            <TableCell>
+              <img
+                src={item.mainImage}
+                alt=""
+                className="size-10 rounded object-cover"
+                loading="lazy"
+              />
+            </TableCell>
+            <TableCell className="font-medium">
+              {item.name}
+              {item.externalSku && (
+                <span className="text-muted-foreground block font-mono text-xs">
+                  {item.externalSku}
+                </span>
+              )}
+            </TableCell>
+            <TableCell>{item.categoryName}</TableCell>
+            <TableCell className="text-right tabular-nums">{formatPrice(item.price)}</TableCell>
+            <TableCell>
+              <span className="tabular-nums">{formatDate(item.deletedAt)}</span>
+              {item.deletedByName && (
+                <span className="text-muted-foreground block text-xs">
+                  por {item.deletedByName}
+                </span>
+              )}
+            </TableCell>
+            <TableCell className="tabular-nums">{formatDate(item.purgeAt)}</TableCell>
+            <TableCell className="text-right">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onRestore(item)}
+                disabled={restoringId === item.id}
+              >
+                <ArchiveRestoreIcon />
+                Restaurar
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export { ProductTrashTable };
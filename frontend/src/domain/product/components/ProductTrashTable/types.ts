@@ -0,0 +1,9 @@
+import type { ProductTrashItem } from '../../types/models';
+
+export interface ProductTrashTableProps {
+  items: ProductTrashItem[];
+  onRestore: (item: ProductTrashItem) => void;
+  /** Product being restored; its button is disabled */
+  restoringId?: number | null;
+  className?: string;
+}
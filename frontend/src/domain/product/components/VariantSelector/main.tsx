@@ -0,0 +1,54 @@
+/**
+ * Variant Selector Component
+ * One button group per option (cor, tecido, acabamento...); values without an available
+ * variant for the current choices stay selectable but are struck through
+ */
+
+import { cn } from '@/core/lib/utils';
+import { Button } from '@/core/components/button';
+import { isOptionValueAvailable } from '../../utils/variants';
+import type { VariantSelectorProps } from './types';
+
+function VariantSelector({
+  options,
+  variants,
+  selection,
+  onSelect,
+  className,
+}: VariantSelectorProps) {
+  return (
+    <div className={cn('flex flex-col gap-4', className)}>
+      {options.map((option) => (
+        <fieldset key={option.name} className="flex flex-col gap-2">
+          <legend className="mb-2 text-sm font-medium">
+            {option.name}
+            {selection[option.name] && (
+              <span className="text-muted-foreground font-normal">: {selection[option.name]}</span>
+            )}
+          </legend>
+          <div className="flex flex-wrap gap-2">
+            {option.values.map((value) => {
+              const selected = selection[option.name] === value;
+              const available = isOptionValueAvailable(variants, selection, option.name, value);
+              return (
+                <Button
+                  key={value}
+                  variant={selected ? 'default' : 'outline'}
+                  size="sm"
+                  className={cn(!available && 'line-through opacity-60')}
+                  onClick={() => onSelect(option.name, value)}
+                  aria-pressed={selected}
+                  aria-label={available ? value : `${value} (indisponível)`}
+                >
+                  {value}
+                </Button>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+    </div>
+  );
+}
+
+export { VariantSelector };
@@ -0,0 +1,10 @@
+import type { ProductOption, ProductVariant } from '../../types/models';
+import type { VariantSelection } from '../../utils/variants';
+
+export interface VariantSelectorProps {
+  options: ProductOption[];
+  variants: ProductVariant[];
+  selection: VariantSelection;
+  onSelect: (name: string, value: string) => void;
+  className?: string;
+}
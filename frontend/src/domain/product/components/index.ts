@@ -1,5 +1,19 @@
 export * from './ProductCard';
 export * from './CatalogFilters';
+export * from './CatalogSearch';
 export * from './CatalogSort';
 export * from './CatalogPagination';
 export * from './ViewModeToggle';
+export * from './ProductGallery';
+export * from './VariantSelector';
+export * from './ProductForm';
+export * from './ProductAdminTable';
+export * from './DeleteProductDialog';
+export * from './ProductPrice';
+export * from './PriceHistoryChart';
+export * from './ProductImportResult';
+export * from './ProductExportMenu';
+export * from './ProductTrashTable';
+export * from './ProductConflictDialog';
+export * from './ProductImageUploadButton';
+export * from './ProductImage';
@@ -1 +1,9 @@
 export * from './useProductList';
+export * from './useAdminProductList';
+export * from './useProduct';
+export * from './useCatalogUrlSync';
+export * from './useProductMutations';
+export * from './useProductVariant';
+export * from './usePriceHistory';
+export * from './useProductExport';
+export * from './useProductTrash';
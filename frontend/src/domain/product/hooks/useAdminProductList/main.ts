@@ -0,0 +1,29 @@
+/**
+ * Admin product list hook with React Query integration
+ * Lists products through the internal API, so each item carries the version the featured
+ * toggle and deletion send in If-Match; keyed under ['products'] so mutations refresh it
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { productService } from '../../services/productService';
+import type { UseProductListOptions } from '../useProductList';
+
+export const useAdminProductList = (options: UseProductListOptions = {}) => {
+  const { filters, sort = 'newest', page = 1, pageSize = 12 } = options;
+
+  const query = useQuery({
+    queryKey: ['products', 'admin', { filters, sort, page, pageSize }],
+    queryFn: () => productService.listForAdmin({ ...filters, sort, page, pageSize }),
+    placeholderData: keepPreviousData, // Keep the table (and search input) mounted while refetching
+  });
+
+  return {
+    products: query.data?.items ?? [],
+    pagination: query.data?.pagination,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * Catalog URL sync hook
+ * Keeps filters, sort, page, page size and view mode in the query string so catalog
+ * views can be shared as links. The URL wins when it carries catalog params; otherwise
+ * the persisted store is used and written to the URL.
+ */
+
+import { useEffect, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useCatalogStore } from '../../stores/catalogStore';
+import {
+  hasCatalogParams,
+  parseCatalogSearchParams,
+  serializeCatalogState,
+} from '../../utils/catalogSearchParams';
+
+export const useCatalogUrlSync = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { filters, sort, page, pageSize, viewMode, hydrate } = useCatalogStore();
+  const lastSearch = useRef<string | null>(null);
+  const hasWritten = useRef(false);
+
+  // URL -> store: initial load and back/forward navigation
+  useEffect(() => {
+    const search = searchParams.toString();
+    if (search === lastSearch.current) return;
+
+    const isFirst = lastSearch.current === null;
+    lastSearch.current = search;
+
+    // A bare /catalog on first load falls back to the persisted store
+    if (isFirst && !hasCatalogParams(searchParams)) return;
+
+    const fromUrl = parseCatalogSearchParams(searchParams);
+    const current = serializeCatalogState(useCatalogStore.getState()).toString();
+    if (serializeCatalogState(fromUrl).toString() !== current) {
+      hydrate(fromUrl);
+    }
+  }, [searchParams, hydrate]);
+
+  // Store -> URL: every user change becomes a history entry
+  useEffect(() => {
+    // Read fresh state and the live location: the effect above may have just hydrated
+    // the store, and a previous write may not have re-rendered yet
+    const next = serializeCatalogState(useCatalogStore.getState());
+    const current = serializeCatalogState(
+      parseCatalogSearchParams(new URLSearchParams(window.location.search))
+    );
+    if (next.toString() === current.toString()) return;
+
+    // The first write only reflects restored state, so it must not add a history entry
+    setSearchParams(next, { replace: !hasWritten.current });
+    hasWritten.current = true;
+  }, [filters, sort, page, pageSize, viewMode, searchParams, setSearchParams]);
+};
@@ -0,0 +1,25 @@
+/**
+ * Price history hook with React Query integration
+ * Keyed under ['product', id] so saving the product refreshes it
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { productService } from '../../services/productService';
+import type { UsePriceHistoryOptions } from './types';
+
+export const usePriceHistory = (id: number, options: UsePriceHistoryOptions = {}) => {
+  const { enabled = true } = options;
+
+  const query = useQuery({
+    queryKey: ['product', id, 'price-history'],
+    queryFn: () => productService.priceHistory(id),
+    enabled: enabled && Number.isInteger(id) && id > 0,
+  });
+
+  return {
+    changes: query.data?.changes ?? [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  };
+};
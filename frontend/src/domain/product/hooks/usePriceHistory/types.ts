@@ -0,0 +1,3 @@
+export interface UsePriceHistoryOptions {
+  enabled?: boolean;
+}
@@ -0,0 +1,34 @@
+/**
+ * Product detail hook with React Query integration
+ * Loads a single product and flags missing products separately from other errors
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { getApiErrorCode } from '@/core/lib/api';
+import { productService } from '../../services/productService';
+import type { UseProductOptions } from './types';
+
+export const useProduct = (id: number, options: UseProductOptions = {}) => {
+  const { enabled = true, forEdit = false } = options;
+
+  const query = useQuery({
+    queryKey: forEdit ? ['product', id, 'edit'] : ['product', id],
+    queryFn: () => (forEdit ? productService.getForEdit(id) : productService.getById(id)),
+    enabled: enabled && Number.isInteger(id) && id > 0,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    // A missing product will not appear by retrying
+    retry: (failureCount, error) => getApiErrorCode(error) !== 'NOT_FOUND' && failureCount < 1,
+  });
+
+  const isNotFound =
+    !Number.isInteger(id) || id <= 0 || getApiErrorCode(query.error) === 'NOT_FOUND';
+
+  return {
+    product: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError && !isNotFound,
+    isNotFound,
+    error: query.error,
+    refetch: query.refetch,
+  };
+};
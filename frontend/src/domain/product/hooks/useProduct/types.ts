@@ -0,0 +1,5 @@
+export interface UseProductOptions {
+  enabled?: boolean;
+  /** Load through the internal API, with admin-only fields such as the sale configuration */
+  forEdit?: boolean;
+}
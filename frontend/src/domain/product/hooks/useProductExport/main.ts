@@ -0,0 +1,21 @@
+/**
+ * Product export hook with React Query integration
+ * Downloads the filtered catalog as CSV, XLSX or JSON
+ */
+
+import { useMutation } from '@tanstack/react-query';
+import { productService } from '../../services/productService';
+import { downloadFile } from '../../utils/download';
+import type { ProductExportFormat, ProductFilters, ProductSort } from '../../types/models';
+
+export const useProductExport = () =>
+  useMutation({
+    mutationFn: ({
+      params,
+      format,
+    }: {
+      params: ProductFilters & ProductSort;
+      format: ProductExportFormat;
+    }) => productService.export(params, format),
+    onSuccess: ({ file, filename }) => downloadFile(file, filename),
+  });
@@ -3,7 +3,7 @@
  * Manages server state for product catalog
  */
 
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { productService } from '../../services/productService';
 import type { UseProductListOptions } from './types';
 
@@ -16,12 +16,15 @@ export const useProductList = (options: UseProductListOptions = {}) => {
     queryKey,
     queryFn: () => productService.list({ ...filters, sort, page, pageSize }),
     staleTime: 1000 * 60 * 5, // 5 minutes
+    placeholderData: keepPreviousData, // Keep the grid (and search input) mounted while refetching
   });
 
   return {
     products: query.data?.items ?? [],
     pagination: query.data?.pagination,
+    facets: query.data?.facets,
     isLoading: query.isLoading,
+    isFetching: query.isFetching,
     isError: query.isError,
     error: query.error,
     refetch: query.refetch,
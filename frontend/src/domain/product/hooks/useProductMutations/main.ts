@@ -0,0 +1,124 @@
+/**
+ * Product mutation hooks with React Query integration
+ * Create, update, patch, import, delete and restore products, refreshing cached lists, details and
+ * category counts, and upload product images.
+ * Updates, patches and deletions name the product version they are based on; when someone else
+ * changed the product since (PRECONDITION_FAILED), the cached product and lists are refreshed.
+ */
+
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { getApiErrorCode } from '@/core/lib/api';
+import { productService } from '../../services/productService';
+import type { ProductInput } from '../../types/models';
+
+/**
+ * Refetches a product and the lists after a version conflict, so the next attempt sees the
+ * current version
+ */
+const refreshOnConflict = (queryClient: QueryClient, error: unknown, id: number) => {
+  if (getApiErrorCode(error) !== 'PRECONDITION_FAILED') return;
+  queryClient.invalidateQueries({ queryKey: ['product', id] });
+  queryClient.invalidateQueries({ queryKey: ['products'] });
+};
+
+export const useCreateProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: ProductInput) => productService.create(input),
+    onSuccess: (product) => {
+      // The internal API response lacks catalog-only fields (categoryPath), so refetch instead
+      queryClient.invalidateQueries({ queryKey: ['product', product.id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+  });
+};
+
+export const useUpdateProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, input, version }: { id: number; input: ProductInput; version: number }) =>
+      productService.update(id, input, version),
+    onSuccess: (product) => {
+      // The internal API response lacks catalog-only fields (categoryPath), so refetch instead
+      queryClient.invalidateQueries({ queryKey: ['product', product.id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+    onError: (error, { id }) => refreshOnConflict(queryClient, error, id),
+  });
+};
+
+export const usePatchProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      patch,
+      version,
+    }: {
+      id: number;
+      patch: Partial<ProductInput>;
+      version: number;
+    }) => productService.patch(id, patch, version),
+    onSuccess: (product) => {
+      queryClient.invalidateQueries({ queryKey: ['product', product.id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+    onError: (error, { id }) => refreshOnConflict(queryClient, error, id),
+  });
+};
+
+/**
+ * Nothing to refresh: the image is only used once its URL is saved in a product
+ */
+export const useUploadProductImage = () =>
+  useMutation({
+    mutationFn: (file: File) => productService.uploadImage(file),
+  });
+
+export const useImportProducts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ file, dryRun }: { file: File; dryRun: boolean }) =>
+      productService.import(file, { dryRun }),
+    onSuccess: (report) => {
+      if (report.dryRun) return;
+      queryClient.invalidateQueries({ queryKey: ['product'] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+  });
+};
+
+export const useDeleteProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, version }: { id: number; version: number }) =>
+      productService.delete(id, version),
+    onSuccess: (_data, { id }) => {
+      queryClient.removeQueries({ queryKey: ['product', id] });
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+    onError: (error, { id }) => refreshOnConflict(queryClient, error, id),
+  });
+};
+
+export const useRestoreProduct = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: number) => productService.restore(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: ['categories'] });
+    },
+  });
+};
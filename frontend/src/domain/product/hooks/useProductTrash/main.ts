@@ -0,0 +1,23 @@
+/**
+ * Product trash hook with React Query integration
+ * Lists the deleted products that can still be restored; keyed under ['products'] so deleting
+ * and restoring refresh it
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { productService } from '../../services/productService';
+
+export const useProductTrash = () => {
+  const query = useQuery({
+    queryKey: ['products', 'trash'],
+    queryFn: () => productService.trash(),
+  });
+
+  return {
+    items: query.data?.items ?? [],
+    retentionDays: query.data?.retentionDays ?? null,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Variant selection hook
+ * Tracks the chosen option values of a product and resolves the matching variant
+ */
+
+import { useState } from 'react';
+import type { Product } from '../../types/models';
+import {
+  findVariant,
+  getDefaultSelection,
+  selectOptionValue,
+  type VariantSelection,
+} from '../../utils/variants';
+
+export const useProductVariant = (product: Product | undefined) => {
+  // Keyed by product so navigating to another product starts from its default variant
+  const [state, setState] = useState<{ productId: number; selection: VariantSelection }>();
+
+  const selection =
+    product && state?.productId === product.id
+      ? state.selection
+      : product
+        ? getDefaultSelection(product)
+        : {};
+
+  const variant = product ? findVariant(product.variants, selection) : undefined;
+
+  const selectOption = (name: string, value: string) => {
+    if (!product) return;
+    setState({
+      productId: product.id,
+      selection: selectOptionValue(product.variants, selection, name, value),
+    });
+  };
+
+  return { selection, variant, selectOption };
+};
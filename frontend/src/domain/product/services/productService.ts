@@ -3,18 +3,39 @@
  * @domain product
  * @type REST API Integration
  *
- * Handles all product-related API operations for the catalog
+ * Handles all product-related API operations. Storefront reads go through the public catalog
+ * API (anonymous); admin reads and mutations use the authenticated internal API.
  */
 
-import { authenticatedClient } from '@/core/lib/api';
+import axios from 'axios';
+import { authenticatedClient, publicClient } from '@/core/lib/api';
 import type {
+  AdminProductListItem,
   ProductListResponse,
   Product,
+  ProductInput,
+  ProductPriceHistory,
+  ProductImportReport,
+  ProductImageUpload,
+  ProductTrash,
+  ProductExportFormat,
   ProductFilters,
   ProductSort,
   PaginationParams,
 } from '../types/models';
 
+/** Spreadsheet content types accepted by the import, by file extension */
+const IMPORT_CONTENT_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+/**
+ * Makes a change conditional on the product version it was based on (sent quoted, as an
+ * entity tag); the API answers 412 PRECONDITION_FAILED when it changed since
+ */
+const ifMatch = (version: number) => ({ 'If-Match': `"${version}"` });
+
 export const productService = {
   /**
    * List products with filters, sorting, and pagination
@@ -22,7 +43,23 @@ export const productService = {
   async list(
     params?: ProductFilters & ProductSort & PaginationParams
   ): Promise<ProductListResponse> {
-    const { data } = await authenticatedClient.get('/product', { params });
+    const { categories, ...rest } = params ?? {};
+    const { data } = await publicClient.get('/catalog', {
+      params: { ...rest, category: categories?.length ? categories.join(',') : undefined },
+    });
+    return data.data;
+  },
+
+  /**
+   * List products through the internal API, with the versions the admin actions need
+   */
+  async listForAdmin(
+    params?: ProductFilters & ProductSort & PaginationParams
+  ): Promise<ProductListResponse<AdminProductListItem>> {
+    const { categories, ...rest } = params ?? {};
+    const { data } = await authenticatedClient.get('/product', {
+      params: { ...rest, category: categories?.length ? categories.join(',') : undefined },
+    });
     return data.data;
   },
 
@@ -30,7 +67,126 @@ export const productService = {
    * Get single product by ID
    */
   async getById(id: number): Promise<Product> {
+    const { data } = await publicClient.get(`/catalog/${id}`);
+    return data.data;
+  },
+
+  /**
+   * Get single product by ID for editing, including admin-only fields (sale configuration)
+   */
+  async getForEdit(id: number): Promise<Product> {
     const { data } = await authenticatedClient.get(`/product/${id}`);
     return data.data;
   },
+
+  /**
+   * Get the price changes of a product, oldest first
+   */
+  async priceHistory(id: number): Promise<ProductPriceHistory> {
+    const { data } = await authenticatedClient.get(`/product/${id}/price-history`);
+    return data.data;
+  },
+
+  /**
+   * Create a new product
+   */
+  async create(input: ProductInput): Promise<Product> {
+    const { data } = await authenticatedClient.post('/product', input);
+    return data.data;
+  },
+
+  /**
+   * Replace an existing product, as of the given version
+   */
+  async update(id: number, input: ProductInput, version: number): Promise<Product> {
+    const { data } = await authenticatedClient.put(`/product/${id}`, input, {
+      headers: ifMatch(version),
+    });
+    return data.data;
+  },
+
+  /**
+   * Change some fields of a product (JSON Merge Patch: omitted fields are kept, null clears),
+   * as of the given version
+   */
+  async patch(id: number, patch: Partial<ProductInput>, version: number): Promise<Product> {
+    const { data } = await authenticatedClient.patch(`/product/${id}`, patch, {
+      headers: { 'Content-Type': 'application/merge-patch+json', ...ifMatch(version) },
+    });
+    return data.data;
+  },
+
+  /**
+   * Create and update products from a CSV or XLSX spreadsheet (matched by SKU).
+   * With dryRun nothing is stored and the report tells what would happen.
+   */
+  async import(file: File, options: { dryRun: boolean }): Promise<ProductImportReport> {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const { data } = await authenticatedClient.post('/product/import', file, {
+      params: { dryRun: options.dryRun },
+      headers: { 'Content-Type': IMPORT_CONTENT_TYPES[extension] ?? file.type },
+    });
+    return data.data;
+  },
+
+  /**
+   * Upload a JPEG, PNG or WebP image (up to 2 MB, at least 800x600 pixels)
+   */
+  async uploadImage(file: File): Promise<ProductImageUpload> {
+    const body = new FormData();
+    body.append('image', file);
+    const { data } = await authenticatedClient.post('/product/image', body);
+    return data.data;
+  },
+
+  /**
+   * Download every product matching the filters (no pagination) as a file
+   */
+  async export(
+    params: ProductFilters & ProductSort,
+    format: ProductExportFormat
+  ): Promise<{ file: Blob; filename: string }> {
+    const { categories, ...rest } = params;
+    const category = categories?.length ? categories.join(',') : undefined;
+    const response = await authenticatedClient
+      .get('/product/export', { params: { ...rest, category, format }, responseType: 'blob' })
+      .catch(async (error) => {
+        // Errors come back as a Blob too; read the JSON body so the backend message is shown
+        if (axios.isAxiosError(error) && error.response?.data instanceof Blob) {
+          const text = await error.response.data.text();
+          try {
+            error.response.data = JSON.parse(text);
+          } catch {
+            error.response.data = text;
+          }
+        }
+        throw error;
+      });
+    const disposition = String(response.headers['content-disposition'] ?? '');
+    const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `produtos.${format}`;
+    return { file: response.data, filename };
+  },
+
+  /**
+   * Move a product to the trash, as of the given version
+   */
+  async delete(id: number, version: number): Promise<void> {
+    await authenticatedClient.delete(`/product/${id}`, { headers: ifMatch(version) });
+  },
+
+  /**
+   * List the products in the trash
+   */
+  async trash(): Promise<ProductTrash> {
+    const { data } = await authenticatedClient.get('/product/trash');
+    return data.data;
+  },
+
+  /**
+   * Restore a product from the trash
+   */
+  async restore(id: number): Promise<Product> {
+    const { data } = await authenticatedClient.post(`/product/${id}/restore`);
+    return data.data;
+  },
 };
@@ -5,7 +5,7 @@
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { CatalogState, ProductFilters, ViewMode } from '../types/models';
+import type { CatalogState, CatalogUrlState, ProductFilters, ViewMode } from '../types/models';
 
 interface CatalogStore extends CatalogState {
   setFilters: (filters: ProductFilters) => void;
@@ -16,6 +16,7 @@ interface CatalogStore extends CatalogState {
   setScrollPosition: (position: number) => void;
   clearFilters: () => void;
   resetPagination: () => void;
+  hydrate: (state: CatalogUrlState) => void;
 }
 
 const initialState: CatalogState = {
@@ -57,7 +58,6 @@ export const useCatalogStore = create<CatalogStore>()(
       setViewMode: (viewMode) =>
         set(() => ({
           viewMode,
-          pageSize: viewMode === 'grid' ? 12 : 8,
           page: 1, // Reset to first page when view mode changes
         })),
 
@@ -73,6 +73,9 @@ export const useCatalogStore = create<CatalogStore>()(
         set(() => ({
           page: 1,
         })),
+
+      // Replaces state as-is (e.g. from the URL), without the page resets above
+      hydrate: (state) => set({ ...state }),
     }),
     {
       name: 'catalog-store',
@@ -1,11 +1,32 @@
 export type {
   Product,
+  ProductOption,
+  ProductVariant,
+  ProductMeasurements,
+  ProductSale,
+  ProductPriceChange,
+  ProductPriceHistory,
+  ProductImportRowError,
+  ProductImportRow,
+  ProductImportReport,
+  ProductTrashItem,
+  ProductTrash,
+  ProductImageRendition,
+  ProductImageVariants,
+  ProductImageUpload,
+  ProductInput,
   ProductListItem,
+  AdminProductListItem,
+  ProductSearchHighlight,
   ProductFilters,
   ProductSort,
   PaginationParams,
   PaginationMeta,
+  ProductFacets,
+  ProductPriceBucket,
   ProductListResponse,
   ViewMode,
+  ProductExportFormat,
   CatalogState,
+  CatalogUrlState,
 } from './models';
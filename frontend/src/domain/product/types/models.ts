@@ -3,44 +3,263 @@
  * Represents the product entity and related types
  */
 
+/**
+ * A choice offered on a product (e.g. Cor, Tecido, Acabamento) and its values
+ */
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+/**
+ * A purchasable combination of option values; `options` maps each option name to a value
+ */
+export interface ProductVariant {
+  sku: string;
+  options: Record<string, string>;
+  /** Current price (discounted while the product is on sale) */
+  price: number | null;
+  /** Regular price while on sale, otherwise null */
+  originalPrice: number | null;
+  images: string[];
+  available: boolean;
+}
+
+/**
+ * A percentage discount, optionally limited to a time window (ISO dates; null leaves a side open)
+ */
+export interface ProductSale {
+  discountPercent: number;
+  startsAt: string | null;
+  endsAt: string | null;
+}
+
+/**
+ * Structured size: width, depth and height in centimetres, weight in kilograms
+ */
+export interface ProductMeasurements {
+  width: number;
+  depth: number;
+  height: number;
+  weight: number | null;
+}
+
 export interface Product {
   id: number;
   name: string;
   description: string | null;
   mainImage: string;
   images: string[];
+  /** With variants: the lowest variant price. Discounted while on sale */
   price: number | null;
+  /** Regular price while on sale, otherwise null */
+  originalPrice: number | null;
+  discountPercent: number | null;
+  /** Category slug */
   category: string;
+  /** Root-to-leaf category trail; only returned by the public catalog API */
+  categoryPath?: ProductCategoryPathItem[];
   shortDescription: string | null;
   dimensions: string | null;
+  measurements: ProductMeasurements | null;
   featured: boolean;
+  /** Within the "Novo" window, counted from launchDate (or dateCreated) */
   isNew: boolean;
+  /** Only returned by the internal API */
+  launchDate?: string | null;
+  /** Whether a sale is running */
   onSale: boolean;
+  /** End of the running sale; only returned by the public catalog API */
+  saleEndsAt?: string | null;
+  /** Sale configuration; only returned by the internal API */
+  sale?: ProductSale | null;
+  /** With variants: true while any variant is available */
   available: boolean;
+  options: ProductOption[];
+  variants: ProductVariant[];
   dateCreated: string;
-  dateModified: string;
+  /** Only returned by the internal API (e.g. after create/update) */
+  dateModified?: string;
+  /** Incremented on every change; sent back in If-Match. Only returned by the internal API */
+  version?: number;
+}
+
+/**
+ * A change of the regular product price (sku null) or of a variant price;
+ * oldPrice is null when the price was first set
+ */
+export interface ProductPriceChange {
+  id: number;
+  sku: string | null;
+  oldPrice: number | null;
+  newPrice: number | null;
+  userId: number | null;
+  userName: string | null;
+  dateCreated: string;
+}
+
+export interface ProductPriceHistory {
+  productId: number;
+  /** Oldest first */
+  changes: ProductPriceChange[];
+}
+
+export interface ProductImportRowError {
+  path: (string | number)[];
+  message: string;
+}
+
+export interface ProductImportRow {
+  /** Line in the spreadsheet; the header is line 1 */
+  row: number;
+  externalSku: string | null;
+  action: 'create' | 'update' | 'unchanged' | null;
+  productId: number | null;
+  /** Rows with errors are not imported; unchanged rows are skipped */
+  errors: ProductImportRowError[];
+}
+
+export interface ProductImportReport {
+  /** Nothing was stored; the counts tell what the import would do */
+  dryRun: boolean;
+  format: 'csv' | 'xlsx';
+  totalRows: number;
+  created: number;
+  updated: number;
+  /** Rows that match their product as it is */
+  unchanged: number;
+  failed: number;
+  ignoredColumns: string[];
+  rows: ProductImportRow[];
+}
+
+export interface ProductTrashItem {
+  id: number;
+  externalSku: string | null;
+  name: string;
+  mainImage: string;
+  /** Regular price */
+  price: number | null;
+  category: string;
+  categoryName: string;
+  deletedAt: string;
+  deletedBy: number | null;
+  deletedByName: string | null;
+  /** When the product will be permanently deleted */
+  purgeAt: string;
+}
+
+export interface ProductTrash {
+  /** Most recently deleted first */
+  items: ProductTrashItem[];
+  retentionDays: number;
+}
+
+export interface ProductImageRendition {
+  url: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * The stored renditions of an uploaded image, by variant name
+ */
+export type ProductImageVariants = Partial<
+  Record<'placeholder' | 'thumbnail' | 'medium' | 'large', ProductImageRendition>
+>;
+
+/**
+ * An uploaded image, stored as WebP renditions; url (the large one) goes in mainImage or images
+ */
+export interface ProductImageUpload {
+  id: string;
+  url: string;
+  width: number;
+  height: number;
+  variants: Required<ProductImageVariants>;
+}
+
+export interface ProductCategoryPathItem {
+  slug: string;
+  name: string;
+}
+
+/**
+ * Payload accepted by the create and update endpoints
+ */
+export interface ProductInput {
+  name: string;
+  description: string | null;
+  mainImage: string;
+  images: string[];
+  price: number | null;
+  category: string;
+  shortDescription: string | null;
+  dimensions: string | null;
+  measurements: ProductMeasurements | null;
+  featured: boolean;
+  launchDate: string | null;
+  sale: ProductSale | null;
+  available: boolean;
+}
+
+export interface ProductSearchHighlight {
+  field: 'name' | 'shortDescription' | 'description' | 'dimensions';
+  snippet: string;
+  matches: { start: number; end: number }[];
 }
 
 export interface ProductListItem {
   id: number;
   name: string;
   mainImage: string;
+  /** Renditions of an uploaded main image; null for other images */
+  mainImageVariants: ProductImageVariants | null;
   price: number | null;
+  originalPrice: number | null;
+  discountPercent: number | null;
   category: string;
+  categoryName: string;
+  measurements: ProductMeasurements | null;
   featured: boolean;
   isNew: boolean;
   onSale: boolean;
   available: boolean;
+  highlights?: ProductSearchHighlight[];
+}
+
+/**
+ * A list item from the internal API, with the version the admin list actions send in If-Match
+ */
+export interface AdminProductListItem extends ProductListItem {
+  version: number;
 }
 
 export interface ProductFilters {
-  category?: string;
+  q?: string;
+  categories?: string[];
+  minPrice?: number;
+  maxPrice?: number;
+  includeOnRequest?: boolean;
+  /** "Fits my space" limits in centimetres */
+  maxWidth?: number;
+  maxDepth?: number;
+  maxHeight?: number;
   available?: boolean;
   featured?: boolean;
+  onSale?: boolean;
+  isNew?: boolean;
 }
 
 export interface ProductSort {
-  sort?: 'newest' | 'name-asc' | 'name-desc' | 'price-asc' | 'price-desc';
+  sort?:
+    | 'relevance'
+    | 'newest'
+    | 'new-arrivals'
+    | 'name-asc'
+    | 'name-desc'
+    | 'price-asc'
+    | 'price-desc';
 }
 
 export interface PaginationParams {
@@ -57,13 +276,44 @@ export interface PaginationMeta {
   hasPrevious: boolean;
 }
 
-export interface ProductListResponse {
-  items: ProductListItem[];
+export interface ProductFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface ProductBooleanFacet {
+  true: number;
+  false: number;
+}
+
+export interface ProductPriceBucket {
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface ProductFacets {
+  categories: ProductFacetValue[];
+  available: ProductBooleanFacet;
+  featured: ProductBooleanFacet;
+  onSale: ProductBooleanFacet;
+  isNew: ProductBooleanFacet;
+  price: {
+    buckets: ProductPriceBucket[];
+    onRequest: number;
+  };
+}
+
+export interface ProductListResponse<TItem = ProductListItem> {
+  items: TItem[];
+  facets: ProductFacets;
   pagination: PaginationMeta;
 }
 
 export type ViewMode = 'grid' | 'list';
 
+export type ProductExportFormat = 'csv' | 'xlsx' | 'json';
+
 export interface CatalogState {
   filters: ProductFilters;
   sort: ProductSort['sort'];
@@ -72,3 +322,8 @@ export interface CatalogState {
   viewMode: ViewMode;
   scrollPosition: number;
 }
+
+export type CatalogUrlState = Pick<
+  CatalogState,
+  'filters' | 'sort' | 'page' | 'pageSize' | 'viewMode'
+>;
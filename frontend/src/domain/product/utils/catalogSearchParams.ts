@@ -0,0 +1,156 @@
+/**
+ * Catalog state <-> URL query string conversion
+ * Default values are omitted so shared links stay short
+ */
+
+import type { CatalogUrlState, ProductFilters, ProductSort } from '../types/models';
+
+const SORT_VALUES: NonNullable<ProductSort['sort']>[] = [
+  'relevance',
+  'newest',
+  'new-arrivals',
+  'name-asc',
+  'name-desc',
+  'price-asc',
+  'price-desc',
+];
+
+/**
+ * Page sizes offered by the pagination; the API rejects other values
+ */
+export const PAGE_SIZE_OPTIONS = [12, 24, 36, 48] as const;
+
+const FLAG_KEYS = ['available', 'featured', 'onSale', 'isNew'] as const;
+
+const SIZE_KEYS = ['maxWidth', 'maxDepth', 'maxHeight'] as const;
+
+/**
+ * Query string keys owned by the catalog
+ */
+export const CATALOG_PARAM_KEYS = [
+  'q',
+  'category',
+  'minPrice',
+  'maxPrice',
+  'includeOnRequest',
+  ...SIZE_KEYS,
+  ...FLAG_KEYS,
+  'sort',
+  'page',
+  'pageSize',
+  'view',
+] as const;
+
+export const CATALOG_URL_DEFAULTS: CatalogUrlState = {
+  filters: {},
+  sort: 'newest',
+  page: 1,
+  pageSize: 12,
+  viewMode: 'grid',
+};
+
+const parseNumber = (value: string | null, min: number) => {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : undefined;
+};
+
+const parseBoolean = (value: string | null) => {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  return undefined;
+};
+
+/**
+ * Whether the query string carries any catalog state
+ */
+export const hasCatalogParams = (params: URLSearchParams) =>
+  CATALOG_PARAM_KEYS.some((key) => params.has(key));
+
+/**
+ * Reads catalog state from the query string; missing or invalid values fall back to defaults
+ */
+export const parseCatalogSearchParams = (params: URLSearchParams): CatalogUrlState => {
+  const filters: ProductFilters = {};
+
+  const q = params.get('q')?.trim();
+  if (q) filters.q = q;
+
+  const categories = params
+    .get('category')
+    ?.split(',')
+    .map((category) => category.trim())
+    .filter(Boolean);
+  if (categories?.length) filters.categories = categories;
+
+  const minPrice = parseNumber(params.get('minPrice'), 0);
+  if (minPrice !== undefined) filters.minPrice = minPrice;
+
+  const maxPrice = parseNumber(params.get('maxPrice'), 0);
+  if (maxPrice !== undefined) filters.maxPrice = maxPrice;
+
+  // The API rejects an inverted range; drop it rather than guess which bound is wrong
+  if (minPrice !== undefined && maxPrice !== undefined && minPrice > maxPrice) {
+    delete filters.minPrice;
+    delete filters.maxPrice;
+  }
+
+  if (params.get('includeOnRequest') === 'false') filters.includeOnRequest = false;
+
+  SIZE_KEYS.forEach((key) => {
+    const value = parseNumber(params.get(key), 1);
+    if (value !== undefined) filters[key] = value;
+  });
+
+  FLAG_KEYS.forEach((key) => {
+    const value = parseBoolean(params.get(key));
+    if (value !== undefined) filters[key] = value;
+  });
+
+  const sort = params.get('sort') as ProductSort['sort'];
+  const page = parseNumber(params.get('page'), 1);
+  const pageSize = Number(params.get('pageSize'));
+
+  return {
+    filters,
+    sort: sort && SORT_VALUES.includes(sort) ? sort : CATALOG_URL_DEFAULTS.sort,
+    page: page !== undefined ? Math.floor(page) : CATALOG_URL_DEFAULTS.page,
+    pageSize: (PAGE_SIZE_OPTIONS as readonly number[]).includes(pageSize)
+      ? pageSize
+      : CATALOG_URL_DEFAULTS.pageSize,
+    viewMode: params.get('view') === 'list' ? 'list' : CATALOG_URL_DEFAULTS.viewMode,
+  };
+};
+
+/**
+ * Writes catalog state to a query string, skipping default values
+ */
+export const serializeCatalogState = (state: CatalogUrlState): URLSearchParams => {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (filters.q) params.set('q', filters.q);
+  if (filters.categories?.length) params.set('category', filters.categories.join(','));
+  if (filters.minPrice !== undefined) params.set('minPrice', String(filters.minPrice));
+  if (filters.maxPrice !== undefined) params.set('maxPrice', String(filters.maxPrice));
+  if (filters.includeOnRequest === false) params.set('includeOnRequest', 'false');
+
+  SIZE_KEYS.forEach((key) => {
+    const value = filters[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+
+  FLAG_KEYS.forEach((key) => {
+    const value = filters[key];
+    if (value !== undefined) params.set(key, String(value));
+  });
+
+  if (state.sort && state.sort !== CATALOG_URL_DEFAULTS.sort) params.set('sort', state.sort);
+  if (state.page !== CATALOG_URL_DEFAULTS.page) params.set('page', String(state.page));
+  if (state.pageSize !== CATALOG_URL_DEFAULTS.pageSize) {
+    params.set('pageSize', String(state.pageSize));
+  }
+  if (state.viewMode !== CATALOG_URL_DEFAULTS.viewMode) params.set('view', state.viewMode);
+
+  return params;
+};
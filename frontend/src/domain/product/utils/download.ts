@@ -0,0 +1,15 @@
+/**
+ * File download helpers
+ */
+
+/**
+ * Saves a file fetched by the app through the browser's download
+ */
+export const downloadFile = (file: Blob, filename: string) => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
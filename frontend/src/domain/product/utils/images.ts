@@ -0,0 +1,44 @@
+/**
+ * Responsive image helpers for the product domain
+ * Uploaded images come with their renditions and the size of each (as stored by the upload);
+ * other images have no renditions and are used as they are
+ */
+
+import type { ProductImageVariants } from '../types/models';
+
+/** Renditions offered to the browser, smallest first */
+const SRCSET_VARIANTS = ['thumbnail', 'medium', 'large'] as const;
+
+export interface ResponsiveImage {
+  src: string;
+  /** Only for uploaded images */
+  srcSet?: string;
+  /** Tiny rendition to show blurred while loading; only when the image has one */
+  placeholder?: string;
+}
+
+/**
+ * The renditions of an image for <img srcset>, described by their actual widths, e.g.
+ * "…/thumbnail.webp 320w, …/medium.webp 800w, …/large.webp 1000w" for a 1000px upload
+ */
+export const getResponsiveImage = (
+  url: string,
+  variants?: ProductImageVariants | null
+): ResponsiveImage => {
+  if (!variants) return { src: url };
+
+  // Renditions are never enlarged, so a small upload may store the same width twice
+  const widths = new Set<number>();
+  const sources = SRCSET_VARIANTS.flatMap((variant) => {
+    const rendition = variants[variant];
+    if (!rendition || widths.has(rendition.width)) return [];
+    widths.add(rendition.width);
+    return [`${rendition.url} ${rendition.width}w`];
+  });
+
+  return {
+    src: variants.medium?.url ?? url,
+    srcSet: sources.length > 0 ? sources.join(', ') : undefined,
+    placeholder: variants.placeholder?.url,
+  };
+};
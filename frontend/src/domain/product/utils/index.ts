@@ -0,0 +1,6 @@
+export * from './price';
+export * from './catalogSearchParams';
+export * from './variants';
+export * from './measurements';
+export * from './download';
+export * from './images';
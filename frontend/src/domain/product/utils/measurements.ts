@@ -0,0 +1,25 @@
+/**
+ * Measurement formatting helpers for the product domain
+ */
+
+import type { ProductMeasurements } from '../types/models';
+
+const numberFormatter = new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 1 });
+
+/**
+ * Formats width × depth × height, e.g. "220 × 90 × 85 cm"
+ */
+export const formatMeasurements = ({ width, depth, height }: ProductMeasurements) =>
+  `${[width, depth, height].map((value) => numberFormatter.format(value)).join(' × ')} cm`;
+
+/**
+ * Labelled measurements for detail views; weight is left out when unknown
+ */
+export const getMeasurementRows = (measurements: ProductMeasurements) => [
+  { label: 'Largura', value: `${numberFormatter.format(measurements.width)} cm` },
+  { label: 'Profundidade', value: `${numberFormatter.format(measurements.depth)} cm` },
+  { label: 'Altura', value: `${numberFormatter.format(measurements.height)} cm` },
+  ...(measurements.weight !== null
+    ? [{ label: 'Peso', value: `${numberFormatter.format(measurements.weight)} kg` }]
+    : []),
+];
@@ -0,0 +1,30 @@
+/**
+ * Price formatting helpers for the product domain
+ */
+
+import { format } from 'date-fns';
+import { ptBR } from 'date-fns/locale';
+
+const currencyFormatter = new Intl.NumberFormat('pt-BR', {
+  style: 'currency',
+  currency: 'BRL',
+});
+
+/**
+ * Formats a price in BRL; null prices are shown as "Sob consulta"
+ */
+export const formatPrice = (price: number | null) => {
+  if (price === null) return 'Sob consulta';
+  return currencyFormatter.format(price);
+};
+
+/**
+ * Formats a sale discount as a badge label, e.g. "-20%"
+ */
+export const formatDiscount = (discountPercent: number) => `-${Math.round(discountPercent)}%`;
+
+/**
+ * Formats the end of a sale, e.g. "30/11 às 23:59"
+ */
+export const formatSaleEnd = (endsAt: string) =>
+  format(new Date(endsAt), "dd/MM 'às' HH:mm", { locale: ptBR });
@@ -0,0 +1,68 @@
+/**
+ * Variant selection helpers for the product domain
+ */
+
+import type { Product, ProductVariant } from '../types/models';
+
+/**
+ * Chosen value per option name
+ */
+export type VariantSelection = Record<string, string>;
+
+/**
+ * Finds the variant matching every selected option value
+ */
+export const findVariant = (variants: ProductVariant[], selection: VariantSelection) =>
+  variants.find((variant) =>
+    Object.entries(variant.options).every(([name, value]) => selection[name] === value)
+  );
+
+/**
+ * Starts from the first available variant, falling back to the first one
+ */
+export const getDefaultSelection = (product: Product): VariantSelection => {
+  const variant = product.variants.find((item) => item.available) ?? product.variants[0];
+  return variant ? { ...variant.options } : {};
+};
+
+/**
+ * Whether an available variant has this value and matches the other selected options
+ */
+export const isOptionValueAvailable = (
+  variants: ProductVariant[],
+  selection: VariantSelection,
+  name: string,
+  value: string
+) =>
+  variants.some(
+    (variant) =>
+      variant.available &&
+      variant.options[name] === value &&
+      Object.entries(variant.options).every(
+        ([otherName, otherValue]) => otherName === name || selection[otherName] === otherValue
+      )
+  );
+
+/**
+ * Changes one option value. When the resulting combination does not exist, switches to the
+ * variant with that value that keeps most of the other choices, preferring available ones.
+ */
+export const selectOptionValue = (
+  variants: ProductVariant[],
+  selection: VariantSelection,
+  name: string,
+  value: string
+): VariantSelection => {
+  const next = { ...selection, [name]: value };
+  if (findVariant(variants, next)) return next;
+
+  const score = (variant: ProductVariant) =>
+    Object.entries(variant.options).filter(([key, val]) => next[key] === val).length +
+    (variant.available ? 0.5 : 0);
+
+  const [best] = variants
+    .filter((variant) => variant.options[name] === value)
+    .sort((a, b) => score(b) - score(a));
+
+  return best ? { ...best.options } : next;
+};
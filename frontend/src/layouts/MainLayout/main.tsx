@@ -3,6 +3,7 @@ import { useNavigation } from '@/core/hooks/useNavigation';
 import { Outlet } from 'react-router-dom';
 import { Suspense } from 'react';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
+import { UserMenu } from '@/domain/auth/_module';
 
 function MainLayout() {
   const { location } = useNavigation();
@@ -10,7 +11,9 @@ function MainLayout() {
   return (
     <ErrorBoundary resetKey={location.pathname}>
       <div className="bg-background relative flex min-h-screen flex-col font-sans antialiased">
-        <header className="px-9 py-9"></header>
+        <header className="flex justify-end px-9 py-9">
+          <UserMenu />
+        </header>
         <main className="flex h-full min-h-fit flex-1">
           <div className="max-w-dvw container flex-1 px-9 py-0">
             <Suspense
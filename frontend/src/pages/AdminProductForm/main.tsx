@@ -0,0 +1,190 @@
+/**
+ * Admin Product Form Page
+ * Creates a new product or edits an existing one; when the product was changed by someone
+ * else meanwhile, the changes are merged in a conflict dialog instead of being overwritten
+ */
+
+import { useEffect, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { ArrowLeftIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorCode, getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/core/components/card';
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from '@/core/components/empty';
+import { Skeleton } from '@/core/components/skeleton';
+import {
+  PriceHistoryChart,
+  ProductConflictDialog,
+  ProductForm,
+  usePriceHistory,
+  useCreateProduct,
+  useProduct,
+  useUpdateProduct,
+  type Product,
+  type ProductInput,
+} from '@/domain/product/_module';
+import { useCategories } from '@/domain/category/_module';
+
+function AdminProductFormPage() {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const isEditing = id !== undefined;
+  const productId = Number(id);
+
+  const { product, isLoading, isError, isNotFound, refetch } = useProduct(productId, {
+    enabled: isEditing,
+    forEdit: true,
+  });
+  const { options: categoryOptions, isLoading: isLoadingCategories } = useCategories();
+  const { changes: priceChanges, isError: isPriceHistoryError } = usePriceHistory(productId, {
+    enabled: isEditing,
+  });
+  const createProduct = useCreateProduct();
+  const updateProduct = useUpdateProduct();
+  // The product as the form was opened; refetches do not replace it under the user's edits
+  const [editedProduct, setEditedProduct] = useState<Product>();
+  const [conflict, setConflict] = useState<{ latest: Product; mine: ProductInput } | null>(null);
+
+  useEffect(() => {
+    if (product && product.id !== editedProduct?.id) setEditedProduct(product);
+  }, [product, editedProduct]);
+
+  const goToList = () => navigate('/admin/products');
+
+  const saveChanges = async (base: Product, input: ProductInput) => {
+    try {
+      await updateProduct.mutateAsync({ id: productId, input, version: base.version ?? 1 });
+    } catch (error) {
+      if (getApiErrorCode(error) !== 'PRECONDITION_FAILED') throw error;
+      const { data: latest } = await refetch();
+      if (!latest) throw error;
+      setConflict({ latest, mine: input });
+      return;
+    }
+    toast.success('Produto atualizado');
+    goToList();
+  };
+
+  const handleResolve = async (input: ProductInput) => {
+    if (!conflict) return;
+    // The merge is based on the current product; a new conflict is merged against it
+    setEditedProduct(conflict.latest);
+    setConflict(null);
+    try {
+      await saveChanges(conflict.latest, input);
+    } catch (error) {
+      toast.error(getApiErrorMessage(error, 'Não foi possível salvar o produto'));
+    }
+  };
+
+  const handleDiscard = () => {
+    if (!conflict) return;
+    // Reopen the form with the current product
+    setEditedProduct(conflict.latest);
+    setConflict(null);
+  };
+
+  const handleSubmit = async (input: ProductInput) => {
+    if (isEditing) {
+      if (editedProduct) await saveChanges(editedProduct, input);
+      return;
+    }
+    await createProduct.mutateAsync(input);
+    toast.success('Produto cadastrado');
+    goToList();
+  };
+
+  const header = (
+    <div className="flex flex-col gap-2">
+      <Button variant="ghost" size="sm" className="w-fit" asChild>
+        <Link to="/admin/products">
+          <ArrowLeftIcon />
+          Produtos
+        </Link>
+      </Button>
+      <h1 className="text-2xl font-semibold">{isEditing ? 'Editar produto' : 'Novo produto'}</h1>
+    </div>
+  );
+
+  if (
+    (isEditing && (isLoading || (product && product.id !== editedProduct?.id))) ||
+    isLoadingCategories
+  ) {
+    return (
+      <div className="flex max-w-3xl flex-col gap-6 py-6">
+        {header}
+        <div className="grid gap-4 md:grid-cols-2">
+          {Array.from({ length: 6 }).map((_, index) => (
+            <Skeleton key={index} className="h-9 w-full" />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (isEditing && (isNotFound || isError || !editedProduct)) {
+    return (
+      <div className="flex max-w-3xl flex-col gap-6 py-6">
+        {header}
+        <Empty>
+          <EmptyHeader>
+            <EmptyTitle>
+              {isNotFound ? 'Produto não encontrado' : 'Erro ao carregar produto'}
+            </EmptyTitle>
+            <EmptyDescription>
+              {isNotFound
+                ? 'O produto pode ter sido removido.'
+                : 'Tente novamente em alguns instantes.'}
+            </EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex max-w-3xl flex-col gap-6 py-6">
+      {header}
+      <ProductForm
+        // Remount when switching products or versions so default values are re-applied
+        key={editedProduct ? `${editedProduct.id}-${editedProduct.version}` : 'new'}
+        product={editedProduct}
+        categories={categoryOptions}
+        submitLabel={isEditing ? 'Salvar alterações' : 'Cadastrar produto'}
+        onSubmit={handleSubmit}
+        onCancel={goToList}
+      />
+      {editedProduct && conflict && (
+        <ProductConflictDialog
+          // Remount on a newer conflict so choices made for the previous one are dropped
+          key={`${editedProduct.version}-${conflict.latest.version}`}
+          base={editedProduct}
+          latest={conflict.latest}
+          mine={conflict.mine}
+          onResolve={handleResolve}
+          onDiscard={handleDiscard}
+          isSaving={updateProduct.isPending}
+        />
+      )}
+      {isEditing && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Histórico de preços</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isPriceHistoryError ? (
+              <p className="text-muted-foreground text-sm">
+                Não foi possível carregar o histórico de preços.
+              </p>
+            ) : (
+              <PriceHistoryChart changes={priceChanges} />
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export { AdminProductFormPage };
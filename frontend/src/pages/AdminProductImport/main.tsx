@@ -0,0 +1,132 @@
+/**
+ * Admin Product Import Page
+ * Uploads a supplier spreadsheet, validates it with a dry run and imports the valid rows
+ */
+
+import { useState, type ChangeEvent } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeftIcon, FileCheckIcon, UploadIcon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/core/components/card';
+import { Input } from '@/core/components/input';
+import { Label } from '@/core/components/label';
+import {
+  ProductImportResult,
+  useImportProducts,
+  type ProductImportReport,
+} from '@/domain/product/_module';
+
+const COLUMNS = [
+  ['sku', 'obrigatória; identifica o produto'],
+  ['nome, imagem, preco, categoria', 'obrigatórias para produtos novos'],
+  ['descricao, resumo, dimensoes, imagens', 'imagens separadas por |'],
+  ['largura, profundidade, altura, peso', 'em cm e kg'],
+  ['destaque, disponivel', 'sim ou não'],
+  ['lancamento', 'data, ex. 27/11/2026'],
+] as const;
+
+function AdminProductImportPage() {
+  const [file, setFile] = useState<File | null>(null);
+  const [report, setReport] = useState<ProductImportReport | null>(null);
+  const { mutate, isPending } = useImportProducts();
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    setFile(event.target.files?.[0] ?? null);
+    setReport(null);
+  };
+
+  const runImport = (dryRun: boolean) => {
+    if (!file) return;
+
+    mutate(
+      { file, dryRun },
+      {
+        onSuccess: (result) => {
+          setReport(result);
+          if (!result.dryRun) {
+            toast.success(`${result.created} produtos criados e ${result.updated} atualizados`);
+          }
+        },
+        onError: (error) => {
+          toast.error(getApiErrorMessage(error, 'Não foi possível ler a planilha'));
+        },
+      }
+    );
+  };
+
+  // Importing is offered once a dry run found something to import
+  const canImport = report?.dryRun === true && report.created + report.updated > 0;
+
+  return (
+    <div className="flex max-w-4xl flex-col gap-6 py-6">
+      <div className="flex flex-col gap-2">
+        <Button variant="ghost" size="sm" className="w-fit" asChild>
+          <Link to="/admin/products">
+            <ArrowLeftIcon />
+            Produtos
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold">Importar planilha</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Arquivo</CardTitle>
+          <CardDescription>
+            CSV ou XLSX com uma linha de cabeçalho. Produtos com SKU já cadastrado são atualizados
+            (colunas ausentes mantêm os valores atuais); os demais são criados.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <dl className="grid gap-x-4 gap-y-1 text-sm sm:grid-cols-[auto_1fr]">
+            {COLUMNS.map(([columns, description]) => (
+              <div key={columns} className="contents">
+                <dt className="font-mono">{columns}</dt>
+                <dd className="text-muted-foreground">{description}</dd>
+              </div>
+            ))}
+          </dl>
+
+          <div className="flex flex-col gap-2">
+            <Label htmlFor="import-file">Planilha</Label>
+            <Input
+              id="import-file"
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileChange}
+              disabled={isPending}
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={() => runImport(true)} disabled={!file || isPending}>
+              <FileCheckIcon />
+              Validar
+            </Button>
+            <Button onClick={() => runImport(false)} disabled={!canImport || isPending}>
+              <UploadIcon />
+              Importar
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {report && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {report.dryRun ? 'Resultado da validação' : 'Resultado da importação'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ProductImportResult report={report} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+export { AdminProductImportPage };
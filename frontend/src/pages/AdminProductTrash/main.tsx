@@ -0,0 +1,85 @@
+/**
+ * Admin Product Trash Page
+ * Deleted products, restorable until they are purged after the retention period
+ */
+
+import { Link } from 'react-router-dom';
+import { ArrowLeftIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from '@/core/components/empty';
+import { Skeleton } from '@/core/components/skeleton';
+import {
+  ProductTrashTable,
+  useProductTrash,
+  useRestoreProduct,
+  type ProductTrashItem,
+} from '@/domain/product/_module';
+
+function AdminProductTrashPage() {
+  const { items, retentionDays, isLoading, isError } = useProductTrash();
+  const { mutate: restoreProduct, isPending, variables } = useRestoreProduct();
+
+  const handleRestore = (item: ProductTrashItem) => {
+    restoreProduct(item.id, {
+      onSuccess: () => {
+        toast.success(`"${item.name}" foi restaurado`);
+      },
+      onError: (error) => {
+        toast.error(getApiErrorMessage(error, 'Não foi possível restaurar o produto'));
+      },
+    });
+  };
+
+  return (
+    <div className="flex flex-col gap-6 py-6">
+      <div className="flex flex-col gap-2">
+        <Button variant="ghost" size="sm" className="w-fit" asChild>
+          <Link to="/admin/products">
+            <ArrowLeftIcon />
+            Produtos
+          </Link>
+        </Button>
+        <h1 className="text-2xl font-semibold">Lixeira</h1>
+        {retentionDays !== null && (
+          <p className="text-muted-foreground text-sm">
+            Produtos excluídos ficam aqui por {retentionDays} dias e depois são apagados
+            definitivamente.
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex flex-col gap-2">
+          {Array.from({ length: 4 }).map((_, index) => (
+            <Skeleton key={index} className="h-12 w-full" />
+          ))}
+        </div>
+      ) : isError ? (
+        <Empty>
+          <EmptyHeader>
+            <EmptyTitle>Erro ao carregar a lixeira</EmptyTitle>
+            <EmptyDescription>Tente novamente em alguns instantes.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : items.length === 0 ? (
+        <Empty>
+          <EmptyHeader>
+            <Trash2Icon className="text-muted-foreground size-10" />
+            <EmptyTitle>A lixeira está vazia</EmptyTitle>
+            <EmptyDescription>Produtos excluídos aparecem aqui.</EmptyDescription>
+          </EmptyHeader>
+        </Empty>
+      ) : (
+        <ProductTrashTable
+          items={items}
+          onRestore={handleRestore}
+          restoringId={isPending ? variables : null}
+        />
+      )}
+    </div>
+  );
+}
+
+export { AdminProductTrashPage };
@@ -0,0 +1,210 @@
+/**
+ * Admin Products Page
+ * Product management table with search, pagination, featured toggle, delete, import, export
+ * and a link to the trash, next to an activity tab with the audit log of product changes
+ */
+
+import { useCallback, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { FileSpreadsheetIcon, HistoryIcon, PackageIcon, PlusIcon, Trash2Icon } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApiErrorCode, getApiErrorMessage } from '@/core/lib/api';
+import { Button } from '@/core/components/button';
+import { Empty, EmptyDescription, EmptyHeader, EmptyTitle } from '@/core/components/empty';
+import { Skeleton } from '@/core/components/skeleton';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/core/components/tabs';
+import {
+  CatalogPagination,
+  CatalogSearch,
+  DeleteProductDialog,
+  ProductExportMenu,
+  ProductAdminTable,
+  useAdminProductList,
+  usePatchProduct,
+  type AdminProductListItem,
+} from '@/domain/product/_module';
+import { AuditLogTable, useAuditLog } from '@/domain/audit/_module';
+
+function AdminProductsPage() {
+  const [q, setQ] = useState<string>();
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(24);
+  const [productToDelete, setProductToDelete] = useState<AdminProductListItem | null>(null);
+  const { mutate: patchProduct } = usePatchProduct();
+  const [tab, setTab] = useState('products');
+  const [activityPage, setActivityPage] = useState(1);
+  const [activityPageSize, setActivityPageSize] = useState(24);
+
+  const sort = q ? 'relevance' : 'newest';
+  const { products, pagination, isLoading, isError } = useAdminProductList({
+    filters: { q },
+    sort,
+    page,
+    pageSize,
+  });
+  const activity = useAuditLog({
+    filters: { entity: 'product' },
+    page: activityPage,
+    pageSize: activityPageSize,
+    enabled: tab === 'activity',
+  });
+
+  const handleSearchChange = useCallback((value: string | undefined) => {
+    setQ(value);
+    setPage(1);
+  }, []);
+
+  const handleToggleFeatured = (product: AdminProductListItem) => {
+    patchProduct(
+      { id: product.id, patch: { featured: !product.featured }, version: product.version },
+      {
+        onError: (error) => {
+          if (getApiErrorCode(error) === 'PRECONDITION_FAILED') {
+            toast.error('O produto foi alterado por outra pessoa. A lista foi atualizada.');
+            return;
+          }
+          toast.error(getApiErrorMessage(error, 'Não foi possível atualizar o destaque'));
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-col gap-6 py-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <h1 className="text-2xl font-semibold">Produtos</h1>
+        <div className="flex flex-wrap gap-2">
+          <ProductExportMenu filters={{ q }} sort={sort} />
+          <Button variant="outline" asChild>
+            <Link to="/admin/products/trash">
+              <Trash2Icon />
+              Lixeira
+            </Link>
+          </Button>
+          <Button variant="outline" asChild>
+            <Link to="/admin/products/import">
+              <FileSpreadsheetIcon />
+              Importar planilha
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link to="/admin/products/new">
+              <PlusIcon />
+              Novo produto
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Tabs value={tab} onValueChange={setTab} className="gap-6">
+        <TabsList>
+          <TabsTrigger value="products">
+            <PackageIcon />
+            Produtos
+          </TabsTrigger>
+          <TabsTrigger value="activity">
+            <HistoryIcon />
+            Atividade
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="products" className="flex flex-col gap-6">
+          <CatalogSearch value={q} onSearchChange={handleSearchChange} />
+
+          {isLoading ? (
+            <div className="flex flex-col gap-2">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : isError ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyTitle>Erro ao carregar produtos</EmptyTitle>
+                <EmptyDescription>Tente novamente em alguns instantes.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : products.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <PackageIcon className="text-muted-foreground size-10" />
+                <EmptyTitle>Nenhum produto encontrado</EmptyTitle>
+                <EmptyDescription>
+                  {q ? 'Tente buscar por outro termo.' : 'Cadastre o primeiro produto do catálogo.'}
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <ProductAdminTable
+              products={products}
+              onDelete={setProductToDelete}
+              onToggleFeatured={handleToggleFeatured}
+            />
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <CatalogPagination
+              pagination={pagination}
+              onPageChange={setPage}
+              onPageSizeChange={(size) => {
+                setPageSize(size);
+                setPage(1);
+              }}
+            />
+          )}
+        </TabsContent>
+
+        <TabsContent value="activity" className="flex flex-col gap-6">
+          {activity.isLoading ? (
+            <div className="flex flex-col gap-2">
+              {Array.from({ length: 6 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : activity.isError ? (
+            <Empty>
+              <EmptyHeader>
+                <EmptyTitle>Erro ao carregar a atividade</EmptyTitle>
+                <EmptyDescription>Tente novamente em alguns instantes.</EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : activity.entries.length === 0 ? (
+            <Empty>
+              <EmptyHeader>
+                <HistoryIcon className="text-muted-foreground size-10" />
+                <EmptyTitle>Nenhuma alteração registrada</EmptyTitle>
+                <EmptyDescription>
+                  Cadastros, alterações e exclusões de produtos aparecem aqui.
+                </EmptyDescription>
+              </EmptyHeader>
+            </Empty>
+          ) : (
+            <AuditLogTable entries={activity.entries} />
+          )}
+
+          {activity.pagination && activity.pagination.totalPages > 1 && (
+            <CatalogPagination
+              pagination={activity.pagination}
+              onPageChange={setActivityPage}
+              onPageSizeChange={(size) => {
+                setActivityPageSize(size);
+                setActivityPage(1);
+              }}
+            />
+          )}
+        </TabsContent>
+      </Tabs>
+
+      <DeleteProductDialog
+        product={productToDelete}
+        onOpenChange={(open) => !open && setProductToDelete(null)}
+        onDeleted={() => {
+          // Step back when the last item on the page was removed
+          if (products.length === 1 && page > 1) setPage(page - 1);
+        }}
+      />
+    </div>
+  );
+}
+
+export { AdminProductsPage };
@@ -3,7 +3,7 @@
  * Main product catalog page with filters, sorting, and pagination
  */
 
-import { useEffect } from 'react';
+import { useCallback, useEffect } from 'react';
 import { cn } from '@/core/lib/utils';
 import { Empty, EmptyHeader, EmptyTitle, EmptyDescription } from '@/core/components/empty';
 import { Skeleton } from '@/core/components/skeleton';
@@ -19,12 +19,15 @@ import {
 import {
   ProductCard,
   CatalogFilters,
+  CatalogSearch,
   CatalogSort,
   CatalogPagination,
   ViewModeToggle,
   useProductList,
   useCatalogStore,
+  useCatalogUrlSync,
 } from '@/domain/product/_module';
+import { useCategories } from '@/domain/category/_module';
 
 function CatalogPage() {
   const {
@@ -43,7 +46,23 @@ function CatalogPage() {
     clearFilters,
   } = useCatalogStore();
 
-  const { products, pagination, isLoading, isError } = useProductList({
+  const { options: categoryOptions } = useCategories();
+
+  // Mirror catalog state in the query string for shareable links and history navigation
+  useCatalogUrlSync();
+
+  // Searching switches to relevance ordering; clearing the search restores the default
+  const handleSearchChange = useCallback(
+    (q: string | undefined) => {
+      const { filters: currentFilters, sort: currentSort } = useCatalogStore.getState();
+      setFilters({ ...currentFilters, q });
+      if (q && !currentFilters.q && currentSort === 'newest') setSort('relevance');
+      if (!q && currentSort === 'relevance') setSort('newest');
+    },
+    [setFilters, setSort]
+  );
+
+  const { products, pagination, facets, isLoading, isError } = useProductList({
     filters,
     sort,
     page,
@@ -113,6 +132,7 @@ function CatalogPage() {
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <h1 className="text-3xl font-bold">Catálogo de Produtos</h1>
           <div className="flex items-center gap-3">
+            <CatalogSearch value={filters.q} onSearchChange={handleSearchChange} />
             <Sheet>
               <SheetTrigger asChild>
                 <Button variant="outline" className="sm:hidden">
@@ -127,6 +147,8 @@ function CatalogPage() {
                 <div className="mt-6">
                   <CatalogFilters
                     filters={filters}
+                    facets={facets}
+                    categories={categoryOptions}
                     onFiltersChange={setFilters}
                     onClearFilters={clearFilters}
                   />
@@ -172,6 +194,7 @@ function CatalogPage() {
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
         <h1 className="text-3xl font-bold">Catálogo de Produtos</h1>
         <div className="flex items-center gap-3">
+          <CatalogSearch value={filters.q} onSearchChange={handleSearchChange} />
           <ViewModeToggle viewMode={viewMode} onViewModeChange={setViewMode} />
           <Sheet>
             <SheetTrigger asChild>
@@ -187,6 +210,8 @@ function CatalogPage() {
               <div className="mt-6">
                 <CatalogFilters
                   filters={filters}
+                  facets={facets}
+                  categories={categoryOptions}
                   onFiltersChange={setFilters}
                   onClearFilters={clearFilters}
                 />
@@ -198,7 +223,7 @@ function CatalogPage() {
 
       {/* Controls */}
       <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
-        <CatalogSort sort={sort ?? 'newest'} onSortChange={setSort} />
+        <CatalogSort sort={sort ?? 'newest'} onSortChange={setSort} searching={!!filters.q} />
         {pagination && (
           <div className="text-muted-foreground text-sm">
             {pagination.total} {pagination.total === 1 ? 'produto' : 'produtos'} encontrado
@@ -213,6 +238,8 @@ function CatalogPage() {
         <aside className="hidden w-64 shrink-0 sm:block">
           <CatalogFilters
             filters={filters}
+            facets={facets}
+            categories={categoryOptions}
             onFiltersChange={setFilters}
             onClearFilters={clearFilters}
           />
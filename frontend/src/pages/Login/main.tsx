@@ -0,0 +1,41 @@
+/**
+ * Login Page
+ * Signs users in and returns them to the page they came from
+ */
+
+import { Navigate, useNavigate, useSearchParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/core/components/card';
+import { LoginForm, useAuth } from '@/domain/auth/_module';
+
+/**
+ * Only same-site paths are followed, so the redirect param cannot send users elsewhere
+ */
+const getSafeRedirect = (redirect: string | null) =>
+  redirect?.startsWith('/') && !redirect.startsWith('//') ? redirect : '/admin/products';
+
+function LoginPage() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isAuthenticated } = useAuth();
+  const redirect = getSafeRedirect(searchParams.get('redirect'));
+
+  if (isAuthenticated) {
+    return <Navigate to={redirect} replace />;
+  }
+
+  return (
+    <div className="flex justify-center py-12">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Entrar</CardTitle>
+          <CardDescription>Acesse a área administrativa do catálogo.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <LoginForm onSuccess={() => navigate(redirect, { replace: true })} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
+export { LoginPage };
@@ -0,0 +1,224 @@
+/**
+ * Product Detail Page
+ * Full product information with image gallery
+ */
+
+import { Fragment } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeftIcon, PackageXIcon } from 'lucide-react';
+import { Badge } from '@/core/components/badge';
+import { Button } from '@/core/components/button';
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from '@/core/components/breadcrumb';
+import {
+  Empty,
+  EmptyDescription,
+  EmptyHeader,
+  EmptyMedia,
+  EmptyTitle,
+} from '@/core/components/empty';
+import { Separator } from '@/core/components/separator';
+import { Skeleton } from '@/core/components/skeleton';
+import {
+  ProductGallery,
+  VariantSelector,
+  ProductPrice,
+  formatDiscount,
+  formatSaleEnd,
+  getMeasurementRows,
+  useProduct,
+  useProductVariant,
+} from '@/domain/product/_module';
+
+function ProductDetailPage() {
+  const { id } = useParams();
+  const { product, isLoading, isError, isNotFound, refetch } = useProduct(Number(id));
+  const { selection, variant, selectOption } = useProductVariant(product);
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="grid gap-8 py-6 md:grid-cols-2">
+        <Skeleton className="aspect-square w-full" />
+        <div className="flex flex-col gap-4">
+          <Skeleton className="h-10 w-3/4" />
+          <Skeleton className="h-8 w-32" />
+          <Skeleton className="h-32 w-full" />
+        </div>
+      </div>
+    );
+  }
+
+  // Not found state
+  if (isNotFound) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyMedia variant="icon">
+            <PackageXIcon />
+          </EmptyMedia>
+          <EmptyTitle>Produto não encontrado</EmptyTitle>
+          <EmptyDescription>
+            O produto que você procura não existe ou não está mais disponível no catálogo.
+          </EmptyDescription>
+        </EmptyHeader>
+        <Button asChild>
+          <Link to="/catalog">Voltar ao catálogo</Link>
+        </Button>
+      </Empty>
+    );
+  }
+
+  // Error state
+  if (isError || !product) {
+    return (
+      <Empty className="min-h-[400px]">
+        <EmptyHeader>
+          <EmptyTitle>Ocorreu um erro ao carregar o produto</EmptyTitle>
+          <EmptyDescription>
+            Por favor, tente novamente ou entre em contato com o suporte se o problema persistir.
+          </EmptyDescription>
+        </EmptyHeader>
+        <Button onClick={() => refetch()}>Tentar novamente</Button>
+      </Empty>
+    );
+  }
+
+  // The selected variant overrides price, availability and, when it has its own, the gallery
+  const price = variant ? variant.price : product.price;
+  const originalPrice = variant ? variant.originalPrice : product.originalPrice;
+  const available = variant ? variant.available : product.available;
+  const gallery = variant?.images.length
+    ? { mainImage: variant.images[0], images: variant.images.slice(1) }
+    : { mainImage: product.mainImage, images: product.images };
+
+  return (
+    <div className="flex flex-col gap-6 py-6">
+      <Breadcrumb>
+        <BreadcrumbList>
+          <BreadcrumbItem>
+            <BreadcrumbLink asChild>
+              <Link to="/catalog">Catálogo</Link>
+            </BreadcrumbLink>
+          </BreadcrumbItem>
+          <BreadcrumbSeparator />
+          {product.categoryPath?.map((category) => (
+            <Fragment key={category.slug}>
+              <BreadcrumbItem>
+                <BreadcrumbLink asChild>
+                  <Link to={`/catalog?category=${encodeURIComponent(category.slug)}`}>
+                    {category.name}
+                  </Link>
+                </BreadcrumbLink>
+              </BreadcrumbItem>
+              <BreadcrumbSeparator />
+            </Fragment>
+          ))}
+          <BreadcrumbItem>
+            <BreadcrumbPage>{product.name}</BreadcrumbPage>
+          </BreadcrumbItem>
+        </BreadcrumbList>
+      </Breadcrumb>
+
+      <div className="grid gap-8 md:grid-cols-2">
+        <ProductGallery
+          key={`${product.id}-${gallery.mainImage}`}
+          mainImage={gallery.mainImage}
+          images={gallery.images}
+          alt={product.name}
+        />
+
+        <article className="flex flex-col gap-4" aria-labelledby="product-name">
+          <div className="flex flex-wrap gap-2">
+            {product.featured && <Badge>Destaque</Badge>}
+            {product.isNew && <Badge variant="secondary">Novo</Badge>}
+            {product.onSale && (
+              <Badge variant="destructive">
+                Promoção
+                {product.discountPercent !== null && ` ${formatDiscount(product.discountPercent)}`}
+              </Badge>
+            )}
+            {!available && <Badge variant="outline">Indisponível</Badge>}
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <h1 id="product-name" className="text-3xl font-bold">
+              {product.name}
+            </h1>
+            <p className="text-muted-foreground">
+              {product.categoryPath?.at(-1)?.name ?? product.category}
+            </p>
+          </div>
+
+          <div className="flex flex-col gap-1">
+            <ProductPrice price={price} originalPrice={originalPrice} size="lg" />
+            {product.saleEndsAt && (
+              <p className="text-muted-foreground text-sm">
+                Promoção válida até {formatSaleEnd(product.saleEndsAt)}
+              </p>
+            )}
+          </div>
+
+          {product.variants.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <VariantSelector
+                options={product.options}
+                variants={product.variants}
+                selection={selection}
+                onSelect={selectOption}
+              />
+              <p className="text-muted-foreground text-sm">
+                {variant ? `SKU: ${variant.sku}` : 'Combinação indisponível'}
+              </p>
+            </div>
+          )}
+
+          {product.shortDescription && <p className="text-lg">{product.shortDescription}</p>}
+
+          <Separator />
+
+          {product.description && (
+            <section className="flex flex-col gap-2">
+              <h2 className="text-lg font-semibold">Descrição</h2>
+              <p className="text-muted-foreground whitespace-pre-line">{product.description}</p>
+            </section>
+          )}
+
+          {(product.measurements || product.dimensions) && (
+            <section className="flex flex-col gap-2">
+              <h2 className="text-lg font-semibold">Dimensões</h2>
+              {product.measurements && (
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm sm:grid-cols-4">
+                  {getMeasurementRows(product.measurements).map((row) => (
+                    <div key={row.label} className="flex flex-col">
+                      <dt className="text-muted-foreground">{row.label}</dt>
+                      <dd className="font-medium">{row.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+              {product.dimensions && <p className="text-muted-foreground">{product.dimensions}</p>}
+            </section>
+          )}
+
+          <div className="mt-auto pt-4">
+            <Button variant="outline" asChild>
+              <Link to="/catalog">
+                <ArrowLeftIcon />
+                Voltar ao catálogo
+              </Link>
+            </Button>
+          </div>
+        </article>
+      </div>
+    </div>
+  );
+}
+
+export { ProductDetailPage };
@@ -1,7 +1,8 @@
 import { lazy, Suspense } from 'react';
-import { createBrowserRouter } from 'react-router-dom';
+import { createBrowserRouter, Outlet } from 'react-router-dom';
 import { LoadingSpinner } from '@/core/components/loading-spinner';
 import { MainLayout } from '@/layouts/MainLayout';
+import { RequireRole } from '@/domain/auth/_module';
 
 const HomePage = lazy(() =>
   import('@/pages/Home').then((module) => ({ default: module.HomePage }))
@@ -9,6 +10,28 @@ const HomePage = lazy(() =>
 const CatalogPage = lazy(() =>
   import('@/pages/Catalog').then((module) => ({ default: module.CatalogPage }))
 );
+const ProductDetailPage = lazy(() =>
+  import('@/pages/ProductDetail').then((module) => ({ default: module.ProductDetailPage }))
+);
+const AdminProductsPage = lazy(() =>
+  import('@/pages/AdminProducts').then((module) => ({ default: module.AdminProductsPage }))
+);
+const AdminProductFormPage = lazy(() =>
+  import('@/pages/AdminProductForm').then((module) => ({ default: module.AdminProductFormPage }))
+);
+const AdminProductImportPage = lazy(() =>
+  import('@/pages/AdminProductImport').then((module) => ({
+    default: module.AdminProductImportPage,
+  }))
+);
+const AdminProductTrashPage = lazy(() =>
+  import('@/pages/AdminProductTrash').then((module) => ({
+    default: module.AdminProductTrashPage,
+  }))
+);
+const LoginPage = lazy(() =>
+  import('@/pages/Login').then((module) => ({ default: module.LoginPage }))
+);
 const NotFoundPage = lazy(() =>
   import('@/pages/NotFound').then((module) => ({ default: module.NotFoundPage }))
 );
@@ -36,6 +59,44 @@ const routes = createBrowserRouter([
         path: 'catalog',
         element: <CatalogPage />,
       },
+      {
+        path: 'catalog/:id',
+        element: <ProductDetailPage />,
+      },
+      {
+        path: 'login',
+        element: <LoginPage />,
+      },
+      {
+        path: 'admin',
+        element: (
+          <RequireRole roles={['admin', 'editor']}>
+            <Outlet />
+          </RequireRole>
+        ),
+        children: [
+          {
+            path: 'products',
+            element: <AdminProductsPage />,
+          },
+          {
+            path: 'products/new',
+            element: <AdminProductFormPage />,
+          },
+          {
+            path: 'products/import',
+            element: <AdminProductImportPage />,
+          },
+          {
+            path: 'products/trash',
+            element: <AdminProductTrashPage />,
+          },
+          {
+            path: 'products/:id/edit',
+            element: <AdminProductFormPage />,
+          },
+        ],
+      },
       {
         path: '*',
         element: (